@@ -1,29 +1,104 @@
 import { useCallback } from 'react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { FacilitySwitcher } from '@/components/FacilitySwitcher';
+import { HistoryControls } from '@/components/HistoryControls';
 import { useFacilityStore } from '@/stores/facilityStore';
 import { useSimulationStore } from '@/stores/simulationStore';
+import { usePreferencesStore } from '@/stores/preferencesStore';
 import { AppMode } from '@/types/facility';
-import { Settings, Home, Download, Upload } from 'lucide-react';
+import { getCourtPlacements } from '@/lib/courtLayout';
+import { createFloorPlan, renderFloorPlanDxf, renderFloorPlanSvg } from '@/lib/floorPlan';
+import { exportFacilityGlb } from '@/lib/sceneExport';
+import { getShareUrl } from '@/lib/layoutLink';
+import { UNIT_SYSTEMS, unitLabel } from '@/lib/units';
+import { downloadFile } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { Settings, Home, Download, Upload, FileImage, Link2 } from 'lucide-react';
 
 export function AppHeader() {
-  const { mode, setMode } = useFacilityStore();
-  const { exportState, importState } = useSimulationStore();
+  const {
+    mode,
+    setMode,
+    config,
+    spacing,
+    surfaceType,
+    showNet,
+    showLines,
+    lineOverlays,
+    building,
+    courtOverrides,
+    courtNamingScheme,
+    amenities,
+    getLayout,
+  } = useFacilityStore();
+  const { exportState, importState, dockPosition, robots } = useSimulationStore();
+  const { units, setUnits } = usePreferencesStore();
+  const { toast } = useToast();
 
   const handleModeChange = useCallback((newMode: AppMode) => {
     setMode(newMode);
   }, [setMode]);
 
   const handleExport = useCallback(() => {
-    const data = exportState();
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'facility-schedule.json';
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(exportState(), 'facility-schedule.json', 'application/json');
   }, [exportState]);
 
+  const handleExportPlan = useCallback((format: 'svg' | 'dxf') => {
+    const plan = createFloorPlan({
+      placements: getCourtPlacements(config, spacing),
+      building,
+      dockPosition,
+      courtOverrides,
+      lineOverlays,
+      courtNamingScheme,
+      amenities,
+      units,
+    });
+    if (format === 'svg') {
+      downloadFile(renderFloorPlanSvg(plan), 'facility-plan.svg', 'image/svg+xml');
+    } else {
+      downloadFile(renderFloorPlanDxf(plan), 'facility-plan.dxf', 'application/dxf');
+    }
+  }, [config, spacing, building, dockPosition, courtOverrides, lineOverlays, courtNamingScheme, amenities, units]);
+
+  const handleExportModel = useCallback(async (includeRobots: boolean) => {
+    try {
+      const glb = await exportFacilityGlb({
+        placements: getCourtPlacements(config, spacing),
+        surfaceType,
+        courtOverrides,
+        building,
+        showNet,
+        showLines,
+        lineOverlays,
+        courtNamingScheme,
+        amenities,
+        dockPosition,
+        robots: includeRobots ? robots : undefined,
+      });
+      downloadFile(glb, 'facility.glb', 'model/gltf-binary');
+    } catch (e) {
+      console.error('Failed to export 3D model:', e);
+      toast({ description: 'Could not export the 3D model', variant: 'destructive', duration: 3000 });
+    }
+  }, [config, spacing, surfaceType, courtOverrides, building, showNet, showLines, lineOverlays, courtNamingScheme, amenities, dockPosition, robots, toast]);
+
+  const handleShare = useCallback(async () => {
+    const url = getShareUrl(getLayout(), window.location.origin);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ description: 'Share link copied to clipboard', duration: 3000 });
+    } catch {
+      toast({ description: 'Could not copy the share link', variant: 'destructive', duration: 3000 });
+    }
+  }, [getLayout, toast]);
+
   const handleImport = useCallback(() => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -49,6 +124,7 @@ export function AppHeader() {
           <span className="text-primary-foreground font-bold text-sm">PB</span>
         </div>
         <span className="font-semibold text-foreground">Pickleball Facility Manager</span>
+        <FacilitySwitcher />
       </div>
 
       <div className="flex items-center gap-1 bg-muted p-1 rounded-lg">
@@ -73,6 +149,34 @@ export function AppHeader() {
       </div>
 
       <div className="flex items-center gap-2">
+        {mode === 'build' && <HistoryControls />}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2 font-mono text-xs"
+          onClick={() => setUnits(units === 'metric' ? 'imperial' : 'metric')}
+          title={`Units: ${UNIT_SYSTEMS[units].name} (click to switch)`}
+        >
+          {unitLabel('length', units)}
+        </Button>
+        {mode === 'build' && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleShare} title="Copy share link">
+            <Link2 className="h-4 w-4" />
+          </Button>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8" title="Export floor plan or model">
+              <FileImage className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => handleExportPlan('svg')}>Floor plan (SVG)</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExportPlan('dxf')}>Floor plan (DXF R12)</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExportModel(false)}>3D model (GLB)</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExportModel(true)}>3D model with robots (GLB)</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleExport} title="Export schedule">
           <Download className="h-4 w-4" />
         </Button>
@@ -0,0 +1,153 @@
+import { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Building2, Check, ChevronDown, Copy, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useFacilityLibraryStore } from '@/stores/facilityLibraryStore';
+
+type NameDialogState = { kind: 'create' } | { kind: 'rename'; facilityId: string } | null;
+
+export function FacilitySwitcher() {
+  const {
+    facilities,
+    activeFacilityId,
+    createFacility,
+    duplicateFacility,
+    renameFacility,
+    deleteFacility,
+    switchFacility,
+  } = useFacilityLibraryStore();
+  const [nameDialog, setNameDialog] = useState<NameDialogState>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const active = facilities.find((f) => f.id === activeFacilityId) ?? facilities[0];
+
+  const openCreate = useCallback(() => {
+    setNameInput(`Facility ${facilities.length + 1}`);
+    setNameDialog({ kind: 'create' });
+  }, [facilities.length]);
+
+  const openRename = useCallback(() => {
+    setNameInput(active.name);
+    setNameDialog({ kind: 'rename', facilityId: active.id });
+  }, [active]);
+
+  const handleNameSubmit = useCallback(() => {
+    const name = nameInput.trim();
+    if (!name || !nameDialog) return;
+    if (nameDialog.kind === 'create') {
+      createFacility(name);
+    } else {
+      renameFacility(nameDialog.facilityId, name);
+    }
+    setNameDialog(null);
+  }, [nameInput, nameDialog, createFacility, renameFacility]);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 max-w-56">
+            <Building2 className="h-4 w-4 shrink-0" />
+            <span className="truncate">{active.name}</span>
+            <ChevronDown className="h-3 w-3 shrink-0 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Facilities</DropdownMenuLabel>
+          {facilities.map((facility) => (
+            <DropdownMenuItem key={facility.id} onSelect={() => switchFacility(facility.id)}>
+              <Check className={`h-4 w-4 mr-2 ${facility.id === activeFacilityId ? 'opacity-100' : 'opacity-0'}`} />
+              <span className="truncate">{facility.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New facility
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => duplicateFacility(active.id)}>
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={openRename}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={facilities.length <= 1}
+            className="text-destructive focus:text-destructive"
+            onSelect={() => setConfirmDelete(true)}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.kind === 'create' ? 'New facility' : 'Rename facility'}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleNameSubmit();
+            }}
+          >
+            <Input autoFocus value={nameInput} onChange={(e) => setNameInput(e.target.value)} />
+            <DialogFooter className="mt-4">
+              <Button type="button" variant="ghost" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!nameInput.trim()}>
+                {nameDialog?.kind === 'create' ? 'Create' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {active.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its layout, settings, robots and bookings will be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteFacility(active.id)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { useHistoryStore } from '@/stores/historyStore';
+
+export function HistoryControls() {
+  const { past, future, undo, redo, jumpTo } = useHistoryStore();
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={undo}
+        disabled={past.length === 0}
+        title="Undo (Ctrl+Z)"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={redo}
+        disabled={future.length === 0}
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit history">
+            <History className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 p-2">
+          <div className="text-xs font-medium text-muted-foreground px-2 pb-2">
+            Edit History
+          </div>
+          <div className="max-h-72 overflow-y-auto space-y-0.5">
+            <button
+              className={`w-full text-left text-xs px-2 py-1 rounded hover:bg-muted ${
+                past.length === 0 ? 'bg-primary/10 font-medium' : ''
+              }`}
+              onClick={() => jumpTo(null)}
+            >
+              Original layout
+            </button>
+            {past.map((entry, i) => (
+              <button
+                key={entry.id}
+                className={`w-full text-left text-xs px-2 py-1 rounded hover:bg-muted ${
+                  i === past.length - 1 ? 'bg-primary/10 font-medium' : ''
+                }`}
+                onClick={() => jumpTo(entry.id)}
+              >
+                {entry.label}
+              </button>
+            ))}
+            {future.map((entry) => (
+              <button
+                key={entry.id}
+                className="w-full text-left text-xs px-2 py-1 rounded hover:bg-muted text-muted-foreground/60"
+                onClick={() => jumpTo(entry.id)}
+              >
+                {entry.label}
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useFacilityStore } from '@/stores/facilityStore';
+import { useFacilityLibraryStore } from '@/stores/facilityLibraryStore';
+import { IMPORT_PARAM, decodeLayout } from '@/lib/layoutLink';
+
+/**
+ * Offers to import a layout passed in the URL by a share link, either over the
+ * active facility or as a new one. The parameter is dropped once answered.
+ */
+export function SharedLayoutImport() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const encoded = searchParams.get(IMPORT_PARAM);
+  const shared = useMemo(() => (encoded ? decodeLayout(encoded) : null), [encoded]);
+  const createFacility = useFacilityLibraryStore((state) => state.createFacility);
+  const applySharedLayout = useFacilityStore((state) => state.applySharedLayout);
+
+  const dismiss = useCallback(() => {
+    setSearchParams((params) => {
+      params.delete(IMPORT_PARAM);
+      return params;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const handleImport = useCallback((asNewFacility: boolean) => {
+    if (!shared) return;
+    if (asNewFacility) createFacility('Shared Layout');
+    applySharedLayout(shared);
+    dismiss();
+  }, [shared, createFacility, applySharedLayout, dismiss]);
+
+  if (!encoded) return null;
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && dismiss()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{shared ? 'Import shared layout?' : 'Invalid layout link'}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {shared
+              ? 'Replace the layout of the current facility, or add the shared layout as a new facility.'
+              : 'This link does not contain a layout that can be opened.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>{shared ? 'Cancel' : 'Close'}</AlertDialogCancel>
+          {shared && (
+            <>
+              <AlertDialogAction onClick={() => handleImport(true)}>New Facility</AlertDialogAction>
+              <AlertDialogAction onClick={() => handleImport(false)}>Replace Current</AlertDialogAction>
+            </>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
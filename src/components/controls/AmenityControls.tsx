@@ -0,0 +1,117 @@
+import { Button } from '@/components/ui/button';
+import { Plus, RotateCw, Trash2 } from 'lucide-react';
+import { Amenity, AmenityType, AMENITY_CATALOG } from '@/types/facility';
+import { AMENITY_TYPES, AmenityIssue } from '@/lib/amenities';
+import { CourtNamer } from '@/lib/courtNaming';
+import { UnitSystem, formatPosition } from '@/lib/units';
+
+interface AmenityControlsProps {
+  amenities: Amenity[];
+  selectedAmenityId: string | null;
+  issues: AmenityIssue[];
+  courtName: CourtNamer;
+  units: UnitSystem;
+  onAdd: (type: AmenityType) => void;
+  onRotate: (amenityId: string) => void;
+  onRemove: (amenityId: string) => void;
+}
+
+function describeIssue(issue: AmenityIssue, amenities: Amenity[], courtName: CourtNamer): string {
+  const amenity = amenities.find((a) => a.id === issue.amenityId);
+  const name = amenity ? AMENITY_CATALOG[amenity.type].name : issue.amenityId;
+  const court = courtName(issue.courtId);
+  switch (issue.type) {
+    case 'court_overlap': return `${name} sits on ${court}`;
+    case 'run_off': return `${name} intrudes into ${court} run-off`;
+  }
+}
+
+export function AmenityControls({
+  amenities,
+  selectedAmenityId,
+  issues,
+  courtName,
+  units,
+  onAdd,
+  onRotate,
+  onRemove,
+}: AmenityControlsProps) {
+  const selected = amenities.find((a) => a.id === selectedAmenityId);
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-medium text-foreground">
+        Amenities
+      </div>
+
+      <div className="grid grid-cols-2 gap-1.5">
+        {AMENITY_TYPES.map((type) => (
+          <Button
+            key={type}
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 text-xs justify-start"
+            onClick={() => onAdd(type)}
+          >
+            <Plus className="h-3 w-3" />
+            <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: AMENITY_CATALOG[type].color }} />
+            <span className="truncate">{AMENITY_CATALOG[type].name}</span>
+          </Button>
+        ))}
+      </div>
+
+      {selected ? (
+        <div className="bg-muted/30 rounded-md p-2 space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium">{AMENITY_CATALOG[selected.type].name}</span>
+            <span className="font-mono text-muted-foreground">
+              {formatPosition(selected, units)} · {selected.rotation}°
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              className="flex-1 h-7 gap-1 text-xs"
+              onClick={() => onRotate(selected.id)}
+            >
+              <RotateCw className="h-3 w-3" />
+              Rotate 90°
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              className="flex-1 h-7 gap-1 text-xs"
+              onClick={() => onRemove(selected.id)}
+            >
+              <Trash2 className="h-3 w-3" />
+              Remove
+            </Button>
+          </div>
+        </div>
+      ) : amenities.length > 0 && (
+        <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-md">
+          Drag amenities in the scene to position them. Click one to rotate or remove it.
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-destructive">
+            {issues.length} amenity issue{issues.length !== 1 ? 's' : ''}
+          </div>
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {issues.map((issue) => (
+              <div
+                key={`${issue.amenityId}:${issue.courtId}`}
+                className="text-xs bg-destructive/10 text-destructive px-2 py-1 rounded"
+              >
+                {describeIssue(issue, amenities, courtName)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, Maximize } from 'lucide-react';
+import { BuildingEnvelope, CourtPlacement, Point2D } from '@/types/facility';
+import {
+  BuildingIssue,
+  createDefaultBuilding,
+  fitFootprintToLayout,
+  createColumn,
+  createWall,
+  createDoor,
+  getWallSegments,
+} from '@/lib/building';
+import { CourtNamer } from '@/lib/courtNaming';
+import { UnitSystem, fromDisplay, toInputValue, unitLabel } from '@/lib/units';
+
+interface BuildingControlsProps {
+  building: BuildingEnvelope | null;
+  placements: CourtPlacement[];
+  issues: BuildingIssue[];
+  courtName: CourtNamer;
+  units: UnitSystem;
+  onChange: (building: BuildingEnvelope | null) => void;
+}
+
+// Length field: `value` and `min` are meters, shown and typed in the display unit
+interface NumberFieldProps {
+  value: number;
+  onChange: (value: number) => void;
+  units: UnitSystem;
+  step?: number;
+  min?: number;
+  label: string;
+}
+
+function NumberField({ value, onChange, units, step = 0.1, min, label }: NumberFieldProps) {
+  return (
+    <Input
+      type="number"
+      aria-label={label}
+      title={label}
+      className="h-7 px-1.5 text-xs font-mono"
+      value={toInputValue(value, 'length', units)}
+      step={step}
+      min={min === undefined ? undefined : toInputValue(min, 'length', units)}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!Number.isNaN(parsed)) onChange(fromDisplay(parsed, 'length', units));
+      }}
+    />
+  );
+}
+
+function describeIssue(issue: BuildingIssue, courtName: CourtNamer): string {
+  const court = courtName(issue.courtId);
+  switch (issue.type) {
+    case 'outside_envelope': return `${court} extends outside the building`;
+    case 'column_collision': return `${court} collides with a column`;
+    case 'wall_collision': return `${court} is crossed by an interior wall`;
+  }
+}
+
+export function BuildingControls({ building, placements, issues, courtName, units, onChange }: BuildingControlsProps) {
+  const lengthUnit = unitLabel('length', units);
+  const wallOptions = useMemo(() => (building ? getWallSegments(building) : []), [building]);
+
+  const update = useCallback((updates: Partial<BuildingEnvelope>) => {
+    if (!building) return;
+    onChange({ ...building, ...updates });
+  }, [building, onChange]);
+
+  const handleToggle = useCallback((enabled: boolean) => {
+    onChange(enabled ? createDefaultBuilding(placements) : null);
+  }, [placements, onChange]);
+
+  const updateVertex = useCallback((index: number, point: Partial<Point2D>) => {
+    if (!building) return;
+    update({ footprint: building.footprint.map((p, i) => (i === index ? { ...p, ...point } : p)) });
+  }, [building, update]);
+
+  const insertVertex = useCallback((index: number) => {
+    if (!building) return;
+    const a = building.footprint[index];
+    const b = building.footprint[(index + 1) % building.footprint.length];
+    const footprint = [...building.footprint];
+    footprint.splice(index + 1, 0, { x: (a.x + b.x) / 2, z: (a.z + b.z) / 2 });
+    // Perimeter wall IDs are edge indices, so doors on shifted edges would move; drop them
+    update({ footprint, doors: building.doors.filter((d) => !d.wallId.startsWith('perimeter-')) });
+  }, [building, update]);
+
+  const removeVertex = useCallback((index: number) => {
+    if (!building || building.footprint.length <= 3) return;
+    update({
+      footprint: building.footprint.filter((_, i) => i !== index),
+      doors: building.doors.filter((d) => !d.wallId.startsWith('perimeter-')),
+    });
+  }, [building, update]);
+
+  if (!building) {
+    return (
+      <div className="flex items-center justify-between">
+        <Label htmlFor="building-toggle" className="text-sm font-medium">
+          Building Envelope
+        </Label>
+        <Switch id="building-toggle" checked={false} onCheckedChange={handleToggle} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="building-toggle" className="text-sm font-medium">
+          Building Envelope
+        </Label>
+        <Switch id="building-toggle" checked onCheckedChange={handleToggle} />
+      </div>
+
+      {/* Footprint */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-foreground">Footprint (x, z in {lengthUnit})</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 gap-1 px-2 text-xs"
+            onClick={() => update({ footprint: fitFootprintToLayout(placements), doors: [] })}
+          >
+            <Maximize className="h-3 w-3" />
+            Fit to Courts
+          </Button>
+        </div>
+        {building.footprint.map((point, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <span className="text-[10px] text-muted-foreground w-4">{i + 1}</span>
+            <NumberField units={units} label={`Vertex ${i + 1} X`} value={point.x} onChange={(x) => updateVertex(i, { x })} />
+            <NumberField units={units} label={`Vertex ${i + 1} Z`} value={point.z} onChange={(z) => updateVertex(i, { z })} />
+            <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" title="Insert vertex after" onClick={() => insertVertex(i)}>
+              <Plus className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              title="Remove vertex"
+              disabled={building.footprint.length <= 3}
+              onClick={() => removeVertex(i)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <span className="text-[10px] text-muted-foreground">Wall height ({lengthUnit})</span>
+            <NumberField units={units} label="Wall height" value={building.wallHeight} min={2} onChange={(wallHeight) => update({ wallHeight })} />
+          </div>
+          <div className="space-y-1">
+            <span className="text-[10px] text-muted-foreground">Wall thickness ({lengthUnit})</span>
+            <NumberField units={units} label="Wall thickness" value={building.wallThickness} min={0.05} step={0.05} onChange={(wallThickness) => update({ wallThickness })} />
+          </div>
+        </div>
+      </div>
+
+      {/* Columns */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-foreground">Columns (x, z, size in {lengthUnit})</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 gap-1 px-2 text-xs"
+            onClick={() => update({ columns: [...building.columns, createColumn(building)] })}
+          >
+            <Plus className="h-3 w-3" />
+            Add
+          </Button>
+        </div>
+        {building.columns.map((column) => (
+          <div key={column.id} className="flex items-center gap-1">
+            {(['x', 'z', 'size'] as const).map((field) => (
+              <NumberField
+                key={field}
+                units={units}
+                label={`Column ${field}`}
+                value={column[field]}
+                min={field === 'size' ? 0.1 : undefined}
+                onChange={(value) => update({
+                  columns: building.columns.map((c) => (c.id === column.id ? { ...c, [field]: value } : c)),
+                })}
+              />
+            ))}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              title="Remove column"
+              onClick={() => update({ columns: building.columns.filter((c) => c.id !== column.id) })}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {/* Interior walls */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-foreground">Interior Walls (start → end, {lengthUnit})</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 gap-1 px-2 text-xs"
+            onClick={() => update({ walls: [...building.walls, createWall(building)] })}
+          >
+            <Plus className="h-3 w-3" />
+            Add
+          </Button>
+        </div>
+        {building.walls.map((wall) => {
+          const setPoint = (key: 'start' | 'end', point: Partial<Point2D>) => update({
+            walls: building.walls.map((w) => (w.id === wall.id ? { ...w, [key]: { ...w[key], ...point } } : w)),
+          });
+          return (
+            <div key={wall.id} className="flex items-center gap-1">
+              <NumberField units={units} label="Wall start X" value={wall.start.x} onChange={(x) => setPoint('start', { x })} />
+              <NumberField units={units} label="Wall start Z" value={wall.start.z} onChange={(z) => setPoint('start', { z })} />
+              <NumberField units={units} label="Wall end X" value={wall.end.x} onChange={(x) => setPoint('end', { x })} />
+              <NumberField units={units} label="Wall end Z" value={wall.end.z} onChange={(z) => setPoint('end', { z })} />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                title="Remove wall"
+                onClick={() => update({
+                  walls: building.walls.filter((w) => w.id !== wall.id),
+                  doors: building.doors.filter((d) => d.wallId !== wall.id),
+                })}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Doors */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-foreground">Doors (wall, offset, width in {lengthUnit})</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 gap-1 px-2 text-xs"
+            disabled={wallOptions.length === 0}
+            onClick={() => update({ doors: [...building.doors, createDoor(wallOptions[0].id)] })}
+          >
+            <Plus className="h-3 w-3" />
+            Add
+          </Button>
+        </div>
+        {building.doors.map((door) => {
+          const setDoor = (updates: Partial<typeof door>) => update({
+            doors: building.doors.map((d) => (d.id === door.id ? { ...d, ...updates } : d)),
+          });
+          return (
+            <div key={door.id} className="flex items-center gap-1">
+              <Select value={door.wallId} onValueChange={(wallId) => setDoor({ wallId })}>
+                <SelectTrigger className="h-7 text-xs px-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {wallOptions.map((wall, i) => (
+                    <SelectItem key={wall.id} value={wall.id}>
+                      {wall.isPerimeter ? `Exterior ${i + 1}` : `Interior ${i - building.footprint.length + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <NumberField units={units} label="Door offset" value={door.offset} min={0} onChange={(offset) => setDoor({ offset })} />
+              <NumberField units={units} label="Door width" value={door.width} min={0.5} onChange={(width) => setDoor({ width })} />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                title="Remove door"
+                onClick={() => update({ doors: building.doors.filter((d) => d.id !== door.id) })}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      {issues.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-destructive">
+            {issues.length} building issue{issues.length !== 1 ? 's' : ''}
+          </div>
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {issues.map((issue, i) => (
+              <div key={i} className="text-xs bg-destructive/10 text-destructive px-2 py-1 rounded">
+                {describeIssue(issue, courtName)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
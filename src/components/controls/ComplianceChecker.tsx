@@ -0,0 +1,73 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+import { COMPLIANCE_RULE_SETS } from '@/types/compliance';
+import { ComplianceViolation } from '@/lib/compliance';
+
+interface ComplianceCheckerProps {
+  ruleSetId: string | null;
+  violations: ComplianceViolation[];
+  onRuleSetChange: (ruleSetId: string | null) => void;
+}
+
+const OFF_VALUE = 'off';
+
+export function ComplianceChecker({ ruleSetId, violations, onRuleSetChange }: ComplianceCheckerProps) {
+  const ruleSet = ruleSetId ? COMPLIANCE_RULE_SETS[ruleSetId] : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-medium text-foreground">
+        Compliance Check
+      </div>
+      <Select
+        value={ruleSet ? ruleSet.id : OFF_VALUE}
+        onValueChange={(v) => onRuleSetChange(v === OFF_VALUE ? null : v)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={OFF_VALUE}>Off</SelectItem>
+          {Object.values(COMPLIANCE_RULE_SETS).map((set) => (
+            <SelectItem key={set.id} value={set.id}>{set.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {ruleSet && (
+        <>
+          <p className="text-xs text-muted-foreground">{ruleSet.description}</p>
+
+          {violations.length === 0 ? (
+            <div className="flex items-center gap-2 text-xs text-green-500 bg-green-500/10 px-2 py-1.5 rounded">
+              <CheckCircle2 className="h-3.5 w-3.5" />
+              Layout meets all {ruleSet.name.toLowerCase()} rules
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {ruleSet.rules.map((rule) => {
+                const ruleViolations = violations.filter((v) => v.ruleId === rule.id);
+                if (ruleViolations.length === 0) return null;
+                return (
+                  <div key={rule.id} className="space-y-1">
+                    <div className="flex items-center gap-1.5 text-xs font-medium text-amber-500">
+                      <AlertTriangle className="h-3.5 w-3.5" />
+                      {rule.label} ({ruleViolations.length})
+                    </div>
+                    <div className="space-y-1 max-h-32 overflow-y-auto">
+                      {ruleViolations.map((violation, i) => (
+                        <div key={i} className="text-xs bg-amber-500/10 text-amber-600 px-2 py-1 rounded">
+                          {violation.message}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,50 @@ import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { GridPicker } from './GridPicker';
 import { RowLengthControls } from './RowLengthControls';
+import { RowOrientationControls } from './RowOrientationControls';
 import { SurfaceDropdown } from './SurfaceDropdown';
+import { FreeformControls } from './FreeformControls';
+import { BuildingControls } from './BuildingControls';
+import { ComplianceChecker } from './ComplianceChecker';
+import { CourtAttributesPanel } from './CourtAttributesPanel';
+import { LayoutOptimizer } from './LayoutOptimizer';
+import { CostEstimator } from './CostEstimator';
+import { CourtNamingDropdown } from './CourtNamingDropdown';
+import { AmenityControls } from './AmenityControls';
+import { LightingControls } from './LightingControls';
+import { TemplateLibrary } from './TemplateLibrary';
+import { MeasurementControls } from './MeasurementControls';
 import { useFacilityStore } from '@/stores/facilityStore';
-import { SurfaceType } from '@/types/facility';
-import { useCallback } from 'react';
+import { usePriceSheetStore } from '@/stores/priceSheetStore';
+import { useTemplateStore } from '@/stores/templateStore';
+import { useMeasurementStore } from '@/stores/measurementStore';
+import { usePreferencesStore } from '@/stores/preferencesStore';
+import { CourtRotation, OverlaySport, SurfaceType, SPORT_OVERLAYS } from '@/types/facility';
+import { GridConversion, getCourtPlacements, findLayoutConflicts, toFreeformConfig, toGridConfig } from '@/lib/courtLayout';
+import { findBuildingIssues } from '@/lib/building';
+import { evaluateCompliance } from '@/lib/compliance';
+import { LayoutCandidate } from '@/lib/layoutOptimizer';
+import { LayoutTemplate } from '@/lib/layoutTemplates';
+import { computeBillOfMaterials, estimateCost, localizeCostEstimate } from '@/lib/billOfMaterials';
+import { OVERLAY_SPORTS } from '@/lib/sportLines';
+import { createCourtNamer } from '@/lib/courtNaming';
+import { findAmenityIssues, getRunOff } from '@/lib/amenities';
+import { computeLightingReport } from '@/lib/lighting';
+import { formatLength } from '@/lib/units';
+import { COMPLIANCE_RULE_SETS } from '@/types/compliance';
+import { useCallback, useMemo, useState } from 'react';
 
 export function ControlPanel() {
   const {
@@ -21,26 +59,106 @@ export function ControlPanel() {
     setSpacing,
     setShowNet,
     setShowLines,
+    lineOverlays,
+    setLineOverlays,
+    selectedCourtId,
+    setSelectedCourtId,
+    updateCourtPlacement,
+    addCourt,
+    removeCourt,
+    courtOverrides,
+    updateCourtOverrides,
+    resetCourtOverrides,
+    courtNamingScheme,
+    setCourtNamingScheme,
+    amenities,
+    selectedAmenityId,
+    addAmenity,
+    updateAmenity,
+    removeAmenity,
+    lightFixtures,
+    selectedFixtureId,
+    showIlluminance,
+    setShowIlluminance,
+    addLightFixture,
+    addCourtLightFixtures,
+    updateLightFixture,
+    removeLightFixture,
+    clearLightFixtures,
+    building,
+    setBuilding,
+    complianceRuleSetId,
+    setComplianceRuleSetId,
+    getLayout,
+    applySharedLayout,
   } = useFacilityStore();
+  const { prices, setPrice, setSurfacePrice, resetPrices } = usePriceSheetStore();
+  const { userTemplates, saveTemplate, removeTemplate, importTemplates } = useTemplateStore();
+  const {
+    measureMode,
+    measurements,
+    activeMeasurementId,
+    setMeasureMode,
+    finishMeasurement,
+    removeMeasurement,
+    clearMeasurements,
+  } = useMeasurementStore();
+  const units = usePreferencesStore((state) => state.units);
+  // Grid a free-form layout would collapse to, pending confirmation
+  const [pendingGrid, setPendingGrid] = useState<GridConversion | null>(null);
 
   const isUneven = config.mode === 'uneven';
-  const rows = config.rows;
-  const cols = config.mode === 'even' ? config.cols : config.maxCols;
+  const isFreeform = config.mode === 'freeform';
+  const rows = config.mode === 'freeform' ? 0 : config.rows;
+  const cols = config.mode === 'even' ? config.cols : config.mode === 'uneven' ? config.maxCols : 0;
+
+  const placements = useMemo(() => getCourtPlacements(config, spacing), [config, spacing]);
+  const conflicts = useMemo(() => findLayoutConflicts(placements, spacing), [placements, spacing]);
+  const schemeName = useMemo(() => createCourtNamer(placements, courtNamingScheme), [placements, courtNamingScheme]);
+  const courtName = useMemo(
+    () => createCourtNamer(placements, courtNamingScheme, courtOverrides),
+    [placements, courtNamingScheme, courtOverrides]
+  );
+  const buildingIssues = useMemo(
+    () => findBuildingIssues(placements, building, courtOverrides),
+    [placements, building, courtOverrides]
+  );
+  const selectedPlacement = placements.find((p) => p.id === selectedCourtId);
+  const ruleSet = complianceRuleSetId ? COMPLIANCE_RULE_SETS[complianceRuleSetId] : null;
+  const complianceViolations = useMemo(() => {
+    return ruleSet ? evaluateCompliance(placements, building, ruleSet, courtName, units) : [];
+  }, [placements, building, ruleSet, courtName, units]);
+  const amenityIssues = useMemo(
+    () => findAmenityIssues(placements, amenities, getRunOff(ruleSet)),
+    [placements, amenities, ruleSet]
+  );
+  const lightingReport = useMemo(
+    () => (lightFixtures.length > 0 ? computeLightingReport(placements, lightFixtures) : []),
+    [placements, lightFixtures]
+  );
+  const costEstimate = useMemo(() => {
+    const bom = computeBillOfMaterials(placements, surfaceType, courtOverrides, spacing, lineOverlays);
+    return localizeCostEstimate(estimateCost(bom, prices), units);
+  }, [placements, surfaceType, courtOverrides, spacing, lineOverlays, prices, units]);
 
   const handleGridSelect = useCallback((newRows: number, newCols: number) => {
     if (config.mode === 'even') {
-      setConfig({ mode: 'even', rows: newRows, cols: newCols });
+      setConfig({ mode: 'even', rows: newRows, cols: newCols, rowRotations: config.rowRotations });
+    } else if (config.mode === 'freeform') {
+      setConfig(toFreeformConfig({ mode: 'even', rows: newRows, cols: newCols }, spacing));
     } else {
       setConfig({
         mode: 'uneven',
         rows: newRows,
         maxCols: newCols,
         rowLengths: Array(newRows).fill(newCols),
+        rowRotations: config.rowRotations,
       });
     }
-  }, [config.mode, setConfig]);
+  }, [config, spacing, setConfig]);
 
   const handleUnevenToggle = useCallback((uneven: boolean) => {
+    if (config.mode === 'freeform') return;
     if (uneven) {
       const newRows = config.rows;
       const newCols = config.mode === 'even' ? config.cols : config.maxCols;
@@ -49,19 +167,72 @@ export function ControlPanel() {
         rows: newRows,
         maxCols: newCols,
         rowLengths: Array(newRows).fill(newCols),
+        rowRotations: config.rowRotations,
       });
     } else {
       const newRows = config.rows;
       const newCols = config.mode === 'uneven' ? config.maxCols : config.cols;
-      setConfig({ mode: 'even', rows: newRows, cols: newCols });
+      setConfig({ mode: 'even', rows: newRows, cols: newCols, rowRotations: config.rowRotations });
     }
   }, [config, setConfig]);
 
+  const handleFreeformToggle = useCallback((freeform: boolean) => {
+    if (freeform) {
+      setConfig(toFreeformConfig(config, spacing));
+    } else if (config.mode === 'freeform') {
+      const grid = toGridConfig(config);
+      // Only ask when custom positions would actually be lost
+      const unchanged = JSON.stringify(getCourtPlacements(grid.config, spacing)) === JSON.stringify(config.courts);
+      if (unchanged) {
+        setConfig(grid.config, grid.courtIdMap);
+      } else {
+        setPendingGrid(grid);
+      }
+    }
+  }, [config, spacing, setConfig]);
+
+  const handleRotate = useCallback((courtId: string) => {
+    const court = placements.find((p) => p.id === courtId);
+    if (!court) return;
+    updateCourtPlacement(courtId, { rotation: court.rotation === 0 ? 90 : 0 });
+  }, [placements, updateCourtPlacement]);
+
+  const handleAmenityRotate = useCallback((amenityId: string) => {
+    const amenity = amenities.find((a) => a.id === amenityId);
+    if (!amenity) return;
+    updateAmenity(amenityId, { rotation: amenity.rotation === 0 ? 90 : 0 });
+  }, [amenities, updateAmenity]);
+
   const handleRowLengthsChange = useCallback((rowLengths: number[]) => {
     if (config.mode !== 'uneven') return;
     setConfig({ ...config, rowLengths });
   }, [config, setConfig]);
 
+  const handleRowRotationsChange = useCallback((rowRotations: CourtRotation[]) => {
+    if (config.mode === 'freeform') return;
+    setConfig({ ...config, rowRotations });
+  }, [config, setConfig]);
+
+  const handleApplyLayout = useCallback((candidate: LayoutCandidate) => {
+    setConfig(candidate.config);
+    setSpacing(candidate.spacing);
+    setSelectedCourtId(null);
+  }, [setConfig, setSpacing, setSelectedCourtId]);
+
+  const handleApplyTemplate = useCallback((template: LayoutTemplate) => {
+    applySharedLayout(template.layout);
+  }, [applySharedLayout]);
+
+  const handleSaveTemplate = useCallback((name: string, description: string) => {
+    saveTemplate(name, description, getLayout());
+  }, [saveTemplate, getLayout]);
+
+  const handleOverlayToggle = useCallback((sport: OverlaySport, enabled: boolean) => {
+    setLineOverlays(
+      enabled ? OVERLAY_SPORTS.filter((s) => s === sport || lineOverlays.includes(s)) : lineOverlays.filter((s) => s !== sport)
+    );
+  }, [lineOverlays, setLineOverlays]);
+
   const handleSurfaceChange = useCallback((surface: SurfaceType) => {
     setSurfaceType(surface);
   }, [setSurfaceType]);
@@ -81,26 +252,57 @@ export function ControlPanel() {
 
       <GridPicker onSelect={handleGridSelect} />
 
-      {rows > 0 && cols > 0 && (
+      <TemplateLibrary
+        userTemplates={userTemplates}
+        onApply={handleApplyTemplate}
+        onSave={handleSaveTemplate}
+        onRemove={removeTemplate}
+        onImport={importTemplates}
+      />
+
+      <LayoutOptimizer building={building} units={units} onApply={handleApplyLayout} />
+
+      {(isFreeform || (rows > 0 && cols > 0)) && (
         <>
           <div className="text-sm text-muted-foreground bg-muted/50 px-3 py-2 rounded-md">
-            Current: <span className="font-mono font-medium text-foreground">{cols} × {rows}</span> grid
-            {isUneven && ' (uneven)'}
+            {isFreeform ? (
+              <>
+                Current: <span className="font-mono font-medium text-foreground">{placements.length}</span> courts (free-form)
+              </>
+            ) : (
+              <>
+                Current: <span className="font-mono font-medium text-foreground">{cols} × {rows}</span> grid
+                {isUneven && ' (uneven)'}
+              </>
+            )}
           </div>
 
           <Separator />
 
           <div className="flex items-center justify-between">
-            <Label htmlFor="uneven-toggle" className="text-sm font-medium">
-              Uneven Rows
+            <Label htmlFor="freeform-toggle" className="text-sm font-medium">
+              Free-form Placement
             </Label>
             <Switch
-              id="uneven-toggle"
-              checked={isUneven}
-              onCheckedChange={handleUnevenToggle}
+              id="freeform-toggle"
+              checked={isFreeform}
+              onCheckedChange={handleFreeformToggle}
             />
           </div>
 
+          {!isFreeform && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="uneven-toggle" className="text-sm font-medium">
+                Uneven Rows
+              </Label>
+              <Switch
+                id="uneven-toggle"
+                checked={isUneven}
+                onCheckedChange={handleUnevenToggle}
+              />
+            </div>
+          )}
+
           {isUneven && config.mode === 'uneven' && (
             <RowLengthControls
               rows={rows}
@@ -110,6 +312,27 @@ export function ControlPanel() {
             />
           )}
 
+          {config.mode !== 'freeform' && (
+            <RowOrientationControls
+              rows={rows}
+              rowRotations={config.rowRotations ?? []}
+              onChange={handleRowRotationsChange}
+            />
+          )}
+
+          {config.mode === 'freeform' && (
+            <FreeformControls
+              courts={config.courts}
+              selectedCourtId={selectedCourtId}
+              conflicts={conflicts}
+              courtName={courtName}
+              units={units}
+              onAdd={addCourt}
+              onRotate={handleRotate}
+              onRemove={removeCourt}
+            />
+          )}
+
           <Separator />
 
           <SurfaceDropdown value={surfaceType} onChange={handleSurfaceChange} />
@@ -120,7 +343,7 @@ export function ControlPanel() {
                 Court Spacing
               </Label>
               <span className="text-xs font-mono text-muted-foreground">
-                {spacing.toFixed(1)}m
+                {formatLength(spacing, units, 1)}
               </span>
             </div>
             <Slider
@@ -155,9 +378,133 @@ export function ControlPanel() {
                 onCheckedChange={setShowLines}
               />
             </div>
+            {OVERLAY_SPORTS.map((sport) => (
+              <div key={sport} className="flex items-center justify-between">
+                <Label htmlFor={`overlay-${sport}`} className="text-sm flex items-center gap-2">
+                  <span className="w-3 h-0.5 rounded" style={{ backgroundColor: SPORT_OVERLAYS[sport].color }} />
+                  {SPORT_OVERLAYS[sport].name} Lines
+                </Label>
+                <Switch
+                  id={`overlay-${sport}`}
+                  checked={lineOverlays.includes(sport)}
+                  onCheckedChange={(enabled) => handleOverlayToggle(sport, enabled)}
+                />
+              </div>
+            ))}
           </div>
+
+          <Separator />
+
+          <CourtNamingDropdown value={courtNamingScheme} onChange={setCourtNamingScheme} />
+
+          <CourtAttributesPanel
+            courtId={selectedPlacement ? selectedPlacement.id : null}
+            defaultName={selectedPlacement ? schemeName(selectedPlacement.id) : ''}
+            defaultSurfaceType={surfaceType}
+            defaultLineOverlays={lineOverlays}
+            overrides={selectedPlacement ? courtOverrides[selectedPlacement.id] : undefined}
+            onChange={updateCourtOverrides}
+            onReset={resetCourtOverrides}
+          />
+
+          <Separator />
+
+          <AmenityControls
+            amenities={amenities}
+            selectedAmenityId={selectedAmenityId}
+            issues={amenityIssues}
+            courtName={courtName}
+            units={units}
+            onAdd={addAmenity}
+            onRotate={handleAmenityRotate}
+            onRemove={removeAmenity}
+          />
+
+          <Separator />
+
+          <LightingControls
+            fixtures={lightFixtures}
+            selectedFixtureId={selectedFixtureId}
+            report={lightingReport}
+            showIlluminance={showIlluminance}
+            courtName={courtName}
+            units={units}
+            onShowIlluminanceChange={setShowIlluminance}
+            onAdd={addLightFixture}
+            onAddPerCourt={addCourtLightFixtures}
+            onUpdate={updateLightFixture}
+            onRemove={removeLightFixture}
+            onClear={clearLightFixtures}
+          />
+
+          <Separator />
+
+          <BuildingControls
+            building={building}
+            placements={placements}
+            issues={buildingIssues}
+            courtName={courtName}
+            units={units}
+            onChange={setBuilding}
+          />
+
+          <Separator />
+
+          <MeasurementControls
+            measureMode={measureMode}
+            measurements={measurements}
+            activeMeasurementId={activeMeasurementId}
+            units={units}
+            onMeasureModeChange={setMeasureMode}
+            onFinish={finishMeasurement}
+            onRemove={removeMeasurement}
+            onClear={clearMeasurements}
+          />
+
+          <Separator />
+
+          <ComplianceChecker
+            ruleSetId={complianceRuleSetId}
+            violations={complianceViolations}
+            onRuleSetChange={setComplianceRuleSetId}
+          />
+
+          <Separator />
+
+          <CostEstimator
+            estimate={costEstimate}
+            prices={prices}
+            units={units}
+            onPriceChange={setPrice}
+            onSurfacePriceChange={setSurfacePrice}
+            onResetPrices={resetPrices}
+          />
         </>
       )}
+
+      <AlertDialog open={pendingGrid !== null} onOpenChange={(open) => !open && setPendingGrid(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Switch back to a grid?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingGrid && (
+                <>
+                  The {placements.length} courts will be arranged in a{' '}
+                  {pendingGrid.config.mode === 'even' ? pendingGrid.config.cols : pendingGrid.config.maxCols} × {pendingGrid.config.rows}
+                  {pendingGrid.config.mode === 'uneven' && ' uneven'} grid and their custom positions will be lost.
+                  Court names and surfaces move with their courts, which may be renumbered.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingGrid && setConfig(pendingGrid.config, pendingGrid.courtIdMap)}>
+              Switch to grid
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,147 @@
+import { ChangeEvent, useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChevronDown, ChevronRight, FileSpreadsheet, RotateCcw } from 'lucide-react';
+import { SurfaceType, SURFACE_MATERIALS } from '@/types/facility';
+import { PriceSheet } from '@/types/estimate';
+import {
+  BillingUnit,
+  CostEstimate,
+  fromLocalUnitPrice,
+  getBillingUnitLabel,
+  renderCostEstimateCsv,
+  toLocalUnitPrice,
+} from '@/lib/billOfMaterials';
+import { UnitSystem } from '@/lib/units';
+import { downloadFile } from '@/lib/utils';
+
+type FlatPriceKey = Exclude<keyof PriceSheet, 'surface'>;
+
+interface CostEstimatorProps {
+  estimate: CostEstimate; // already in the display units
+  prices: PriceSheet;
+  units: UnitSystem;
+  onPriceChange: (key: FlatPriceKey, price: number) => void;
+  onSurfacePriceChange: (surfaceType: SurfaceType, price: number) => void;
+  onResetPrices: () => void;
+}
+
+const FLAT_PRICES: { key: FlatPriceKey; label: string; unit: BillingUnit | 'ea' }[] = [
+  { key: 'linePaint', label: 'Line paint', unit: 'lf' },
+  { key: 'net', label: 'Net', unit: 'ea' },
+  { key: 'post', label: 'Post', unit: 'ea' },
+  { key: 'fencing', label: 'Fencing', unit: 'lf' },
+  { key: 'divider', label: 'Divider', unit: 'lf' },
+];
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const formatQuantity = (quantity: number, unit: string) =>
+  `${unit === 'ea' ? quantity : Math.round(quantity).toLocaleString('en-US')} ${unit}`;
+
+export function CostEstimator({
+  estimate,
+  prices,
+  units,
+  onPriceChange,
+  onSurfacePriceChange,
+  onResetPrices,
+}: CostEstimatorProps) {
+  const [showPrices, setShowPrices] = useState(false);
+
+  const handleExportCsv = useCallback(() => {
+    downloadFile(renderCostEstimateCsv(estimate), 'facility-estimate.csv', 'text/csv');
+  }, [estimate]);
+
+  const parse = (setter: (value: number) => void) => (e: ChangeEvent<HTMLInputElement>) => {
+    const parsed = parseFloat(e.target.value);
+    if (!Number.isNaN(parsed)) setter(Math.max(0, parsed));
+  };
+
+  // Prices are stored per imperial unit and edited per display unit
+  const localPrice = (price: number, unit: BillingUnit | 'ea') =>
+    Number(toLocalUnitPrice(price, unit, units).toFixed(2));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-foreground">
+          Cost Estimate
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={handleExportCsv}>
+          <FileSpreadsheet className="h-3 w-3" />
+          CSV
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        {estimate.items.map((item) => (
+          <div key={item.id} className="flex items-baseline justify-between gap-2 text-xs">
+            <span className="truncate text-muted-foreground" title={item.description}>
+              {item.description}
+            </span>
+            <span className="shrink-0 font-mono text-muted-foreground">
+              {formatQuantity(item.quantity, item.unit)}
+            </span>
+            <span className="w-16 shrink-0 text-right font-mono text-foreground">{currency.format(item.total)}</span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between border-t border-border pt-1.5 text-sm font-medium">
+          <span>Total</span>
+          <span className="font-mono">{currency.format(estimate.total)}</span>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        onClick={() => setShowPrices((v) => !v)}
+      >
+        {showPrices ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        Price sheet
+      </button>
+
+      {showPrices && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(SURFACE_MATERIALS) as SurfaceType[]).map((type) => (
+              <div key={type} className="space-y-1">
+                <Label htmlFor={`price-surface-${type}`} className="text-xs capitalize">
+                  {type} / {getBillingUnitLabel('sq ft', units)}
+                </Label>
+                <Input
+                  id={`price-surface-${type}`}
+                  type="number"
+                  className="h-7 text-xs font-mono"
+                  min={0}
+                  step={0.5}
+                  value={localPrice(prices.surface[type], 'sq ft')}
+                  onChange={parse((v) => onSurfacePriceChange(type, fromLocalUnitPrice(v, 'sq ft', units)))}
+                />
+              </div>
+            ))}
+            {FLAT_PRICES.map(({ key, label, unit }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`price-${key}`} className="text-xs">{label} / {getBillingUnitLabel(unit, units)}</Label>
+                <Input
+                  id={`price-${key}`}
+                  type="number"
+                  className="h-7 text-xs font-mono"
+                  min={0}
+                  step={0.5}
+                  value={localPrice(prices[key], unit)}
+                  onChange={parse((v) => onPriceChange(key, fromLocalUnitPrice(v, unit, units)))}
+                />
+              </div>
+            ))}
+          </div>
+          <Button variant="ghost" size="sm" className="h-7 w-full gap-1 text-xs" onClick={onResetPrices}>
+            <RotateCcw className="h-3 w-3" />
+            Reset prices
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
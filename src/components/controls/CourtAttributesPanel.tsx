@@ -0,0 +1,210 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw, X } from 'lucide-react';
+import { CourtOverrides, OverlaySport, SurfaceType, SURFACE_MATERIALS, SPORT_OVERLAYS } from '@/types/facility';
+import { getCourtLineOverlays, getCourtSurface } from '@/lib/courtAttributes';
+import { OVERLAY_SPORTS } from '@/lib/sportLines';
+
+interface CourtAttributesPanelProps {
+  courtId: string | null;
+  defaultName: string; // label from the naming scheme, used when no custom name is set
+  defaultSurfaceType: SurfaceType;
+  defaultLineOverlays: OverlaySport[];
+  overrides: CourtOverrides | undefined;
+  onChange: (courtId: string, updates: Partial<CourtOverrides>) => void;
+  onReset: (courtId: string) => void;
+}
+
+const DEFAULT_SURFACE_VALUE = 'default';
+
+interface ColorFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  isOverridden: boolean;
+  onChange: (color: string | undefined) => void;
+}
+
+function ColorField({ id, label, value, isOverridden, onChange }: ColorFieldProps) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <div className="flex items-center gap-1">
+        <Input
+          id={id}
+          type="color"
+          className="h-7 w-10 p-0.5 cursor-pointer"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Use default"
+          disabled={!isOverridden}
+          onClick={() => onChange(undefined)}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function CourtAttributesPanel({
+  courtId,
+  defaultName,
+  defaultSurfaceType,
+  defaultLineOverlays,
+  overrides,
+  onChange,
+  onReset,
+}: CourtAttributesPanelProps) {
+  if (!courtId) {
+    return (
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-foreground">
+          Court Attributes
+        </div>
+        <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-md">
+          Click a court in the scene to give it its own name, surface or colors.
+        </div>
+      </div>
+    );
+  }
+
+  const surface = getCourtSurface(defaultSurfaceType, overrides);
+  const lineOverlays = getCourtLineOverlays(defaultLineOverlays, overrides);
+  const update = (updates: Partial<CourtOverrides>) => onChange(courtId, updates);
+  const toggleOverlay = (sport: OverlaySport, enabled: boolean) =>
+    update({
+      lineOverlays: enabled
+        ? OVERLAY_SPORTS.filter((s) => s === sport || lineOverlays.includes(s))
+        : lineOverlays.filter((s) => s !== sport),
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-foreground">
+          {overrides?.name || defaultName}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          disabled={!overrides}
+          onClick={() => onReset(courtId)}
+        >
+          <RotateCcw className="h-3 w-3" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="court-name" className="text-xs">
+          Name
+        </Label>
+        <Input
+          id="court-name"
+          className="h-8 text-xs"
+          placeholder={defaultName}
+          value={overrides?.name ?? ''}
+          onChange={(e) => update({ name: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Surface</Label>
+        <Select
+          value={overrides?.surfaceType ?? DEFAULT_SURFACE_VALUE}
+          onValueChange={(v) => update({
+            surfaceType: v === DEFAULT_SURFACE_VALUE ? undefined : (v as SurfaceType),
+          })}
+        >
+          <SelectTrigger className="w-full h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_SURFACE_VALUE}>
+              Facility default ({SURFACE_MATERIALS[defaultSurfaceType].name})
+            </SelectItem>
+            {(Object.keys(SURFACE_MATERIALS) as SurfaceType[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                <div className="flex items-center gap-2">
+                  <div
+                    className="w-3 h-3 rounded-full border border-border"
+                    style={{ backgroundColor: SURFACE_MATERIALS[key].color }}
+                  />
+                  {SURFACE_MATERIALS[key].name}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ColorField
+        id="court-surface-color"
+        label="Surface Color"
+        value={surface.color}
+        isOverridden={overrides?.surfaceColor !== undefined}
+        onChange={(surfaceColor) => update({ surfaceColor })}
+      />
+
+      <ColorField
+        id="court-kitchen-color"
+        label="Kitchen Color"
+        value={surface.kitchenColor ?? surface.color}
+        isOverridden={overrides?.kitchenColor !== undefined}
+        onChange={(kitchenColor) => update({ kitchenColor })}
+      />
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="court-indoor" className="text-xs">
+          Indoor Court
+        </Label>
+        <Switch
+          id="court-indoor"
+          checked={surface.indoor}
+          onCheckedChange={(indoor) => update({ indoor: indoor ? undefined : false })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Other Sport Lines</Label>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Use facility default"
+            disabled={overrides?.lineOverlays === undefined}
+            onClick={() => update({ lineOverlays: undefined })}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+        {OVERLAY_SPORTS.map((sport) => (
+          <div key={sport} className="flex items-center justify-between">
+            <Label htmlFor={`court-overlay-${sport}`} className="text-xs flex items-center gap-2">
+              <span className="w-3 h-0.5 rounded" style={{ backgroundColor: SPORT_OVERLAYS[sport].color }} />
+              {SPORT_OVERLAYS[sport].name}
+            </Label>
+            <Switch
+              id={`court-overlay-${sport}`}
+              checked={lineOverlays.includes(sport)}
+              onCheckedChange={(enabled) => toggleOverlay(sport, enabled)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
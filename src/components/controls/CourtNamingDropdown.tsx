@@ -0,0 +1,39 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CourtNamingScheme, COURT_NAMING_SCHEMES } from '@/types/facility';
+
+interface CourtNamingDropdownProps {
+  value: CourtNamingScheme;
+  onChange: (value: CourtNamingScheme) => void;
+}
+
+export function CourtNamingDropdown({ value, onChange }: CourtNamingDropdownProps) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-foreground">
+        Court Numbering
+      </label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(COURT_NAMING_SCHEMES) as CourtNamingScheme[]).map((key) => (
+            <SelectItem key={key} value={key}>
+              {COURT_NAMING_SCHEMES[key].name}
+              <span className="ml-2 text-xs text-muted-foreground">{COURT_NAMING_SCHEMES[key].example}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Custom names set under court attributes always take priority.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { Button } from '@/components/ui/button';
+import { Plus, RotateCw, Trash2 } from 'lucide-react';
+import { CourtPlacement } from '@/types/facility';
+import { LayoutConflict } from '@/lib/courtLayout';
+import { CourtNamer } from '@/lib/courtNaming';
+import { UnitSystem, formatLength, formatPosition } from '@/lib/units';
+
+interface FreeformControlsProps {
+  courts: CourtPlacement[];
+  selectedCourtId: string | null;
+  conflicts: LayoutConflict[];
+  courtName: CourtNamer;
+  units: UnitSystem;
+  onAdd: () => void;
+  onRotate: (courtId: string) => void;
+  onRemove: (courtId: string) => void;
+}
+
+export function FreeformControls({
+  courts,
+  selectedCourtId,
+  conflicts,
+  courtName,
+  units,
+  onAdd,
+  onRotate,
+  onRemove,
+}: FreeformControlsProps) {
+  const selected = courts.find((c) => c.id === selectedCourtId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-foreground">
+          Court Placement
+        </div>
+        <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={onAdd}>
+          <Plus className="h-3 w-3" />
+          Add Court
+        </Button>
+      </div>
+
+      {selected ? (
+        <div className="bg-muted/30 rounded-md p-2 space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium">{courtName(selected.id)}</span>
+            <span className="font-mono text-muted-foreground">
+              {formatPosition(selected, units)} · {selected.rotation}°
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              className="flex-1 h-7 gap-1 text-xs"
+              onClick={() => onRotate(selected.id)}
+            >
+              <RotateCw className="h-3 w-3" />
+              Rotate 90°
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              className="flex-1 h-7 gap-1 text-xs"
+              onClick={() => onRemove(selected.id)}
+            >
+              <Trash2 className="h-3 w-3" />
+              Remove
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-md">
+          Drag courts in the scene to position them. Click a court to rotate or remove it.
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-destructive">
+            {conflicts.length} layout issue{conflicts.length !== 1 ? 's' : ''}
+          </div>
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {conflicts.map((conflict) => {
+              const [a, b] = conflict.courtIds;
+              return (
+                <div
+                  key={`${a}:${b}`}
+                  className="text-xs bg-destructive/10 text-destructive px-2 py-1 rounded"
+                >
+                  {courtName(a)} and {courtName(b)}{' '}
+                  {conflict.type === 'overlap'
+                    ? 'overlap'
+                    : `are ${formatLength(conflict.gap, units)} apart`}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
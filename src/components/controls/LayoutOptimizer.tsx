@@ -0,0 +1,183 @@
+import { ChangeEvent, useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Sparkles } from 'lucide-react';
+import { BuildingEnvelope, Point2D } from '@/types/facility';
+import { getCourtFootprint } from '@/lib/courtLayout';
+import { getPolygonBounds } from '@/lib/building';
+import { LayoutCandidate, optimizeLayouts } from '@/lib/layoutOptimizer';
+import { UnitSystem, formatLength, fromDisplay, toInputValue, unitLabel } from '@/lib/units';
+
+interface LayoutOptimizerProps {
+  building: BuildingEnvelope | null;
+  units: UnitSystem;
+  onApply: (candidate: LayoutCandidate) => void;
+}
+
+// Matches the Court Spacing slider range (meters)
+const SPACING_MIN = 0.5;
+const SPACING_MAX = 3;
+const SPACING_STEP = 0.25;
+
+interface LayoutThumbnailProps {
+  candidate: LayoutCandidate;
+  footprint: Point2D[];
+}
+
+function LayoutThumbnail({ candidate, footprint }: LayoutThumbnailProps) {
+  const bounds = getPolygonBounds(footprint);
+  const width = bounds.maxX - bounds.minX;
+  const length = bounds.maxZ - bounds.minZ;
+
+  return (
+    <svg
+      viewBox={`${bounds.minX} ${bounds.minZ} ${width} ${length}`}
+      className="w-16 h-12 shrink-0 rounded bg-muted"
+      preserveAspectRatio="xMidYMid meet"
+    >
+      <polygon
+        points={footprint.map((p) => `${p.x},${p.z}`).join(' ')}
+        fill="hsl(var(--background))"
+        stroke="hsl(var(--border))"
+        strokeWidth={Math.max(width, length) / 60}
+      />
+      {candidate.placements.map((placement) => {
+        const rect = getCourtFootprint(placement);
+        return (
+          <rect
+            key={placement.id}
+            x={rect.minX}
+            y={rect.minZ}
+            width={rect.maxX - rect.minX}
+            height={rect.maxZ - rect.minZ}
+            fill="#2563eb"
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+export function LayoutOptimizer({ building, units, onApply }: LayoutOptimizerProps) {
+  const [width, setWidth] = useState(40);
+  const [length, setLength] = useState(35);
+  const [minSpacing, setMinSpacing] = useState(1);
+  const [clearance, setClearance] = useState(1);
+  const [results, setResults] = useState<{ candidates: LayoutCandidate[]; footprint: Point2D[] } | null>(null);
+
+  const handleOptimize = useCallback(() => {
+    const candidates = optimizeLayouts({
+      width,
+      length,
+      building,
+      minSpacing,
+      maxSpacing: SPACING_MAX,
+      spacingStep: SPACING_STEP,
+      clearance,
+    });
+    const footprint = building
+      ? building.footprint
+      : [
+        { x: -clearance, z: -clearance },
+        { x: width - clearance, z: -clearance },
+        { x: width - clearance, z: length - clearance },
+        { x: -clearance, z: length - clearance },
+      ];
+    setResults({ candidates, footprint });
+  }, [width, length, building, minSpacing, clearance]);
+
+  // Inputs are typed in the display unit; state stays in meters
+  const parse = (setter: (value: number) => void) => (e: ChangeEvent<HTMLInputElement>) => {
+    const parsed = parseFloat(e.target.value);
+    if (!Number.isNaN(parsed)) setter(fromDisplay(parsed, 'length', units));
+  };
+  const display = (meters: number) => toInputValue(meters, 'length', units);
+  const lengthUnit = unitLabel('length', units);
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-medium text-foreground">
+        Auto Layout
+      </div>
+
+      {building ? (
+        <p className="text-xs text-muted-foreground">
+          Fills the building envelope, avoiding columns and interior walls.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="optimizer-width" className="text-xs">Width ({lengthUnit})</Label>
+            <Input id="optimizer-width" type="number" className="h-7 text-xs font-mono" min={1} value={display(width)} onChange={parse(setWidth)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="optimizer-length" className="text-xs">Length ({lengthUnit})</Label>
+            <Input id="optimizer-length" type="number" className="h-7 text-xs font-mono" min={1} value={display(length)} onChange={parse(setLength)} />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="optimizer-spacing" className="text-xs">Min spacing ({lengthUnit})</Label>
+          <Input
+            id="optimizer-spacing"
+            type="number"
+            className="h-7 text-xs font-mono"
+            min={display(SPACING_MIN)}
+            max={display(SPACING_MAX)}
+            step={SPACING_STEP}
+            value={display(minSpacing)}
+            onChange={parse((v) => setMinSpacing(Math.min(SPACING_MAX, Math.max(SPACING_MIN, v))))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="optimizer-clearance" className="text-xs">Wall clearance ({lengthUnit})</Label>
+          <Input
+            id="optimizer-clearance"
+            type="number"
+            className="h-7 text-xs font-mono"
+            min={0}
+            step={0.5}
+            value={display(clearance)}
+            onChange={parse((v) => setClearance(Math.max(0, v)))}
+          />
+        </div>
+      </div>
+
+      <Button variant="secondary" size="sm" className="w-full h-8 gap-1 text-xs" onClick={handleOptimize}>
+        <Sparkles className="h-3 w-3" />
+        Find Layouts
+      </Button>
+
+      {results && (
+        results.candidates.length === 0 ? (
+          <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-md">
+            No court fits in this space with the chosen clearance.
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {results.candidates.map((candidate, index) => (
+              <div key={candidate.id} className="flex items-center gap-2 bg-muted/30 rounded-md p-2">
+                <LayoutThumbnail candidate={candidate} footprint={results.footprint} />
+                <div className="flex-1 min-w-0 text-xs">
+                  <div className="font-medium">
+                    #{index + 1} · {candidate.courtCount} courts
+                  </div>
+                  <div className="text-muted-foreground truncate">{candidate.label}</div>
+                  <div className="font-mono text-muted-foreground">
+                    {formatLength(candidate.aisleWidth, units)} aisle · {formatLength(candidate.walkingDistance, units, 1)} walk
+                  </div>
+                </div>
+                <Button size="sm" className="h-7 text-xs" onClick={() => onApply(candidate)}>
+                  Apply
+                </Button>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { ChangeEvent, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { FileSpreadsheet, LayoutGrid, Plus, Trash2 } from 'lucide-react';
+import { LightFixture } from '@/types/facility';
+import { CourtIlluminance, HEATMAP_MAX_LUX, getHeatmapColor, renderLightingCsv } from '@/lib/lighting';
+import { CourtNamer } from '@/lib/courtNaming';
+import { downloadFile } from '@/lib/utils';
+import { UnitSystem, formatPosition, fromDisplay, toInputValue, unitLabel } from '@/lib/units';
+
+type FixtureSetting = 'height' | 'lumens' | 'beamAngle';
+
+interface LightingControlsProps {
+  fixtures: LightFixture[];
+  selectedFixtureId: string | null;
+  report: CourtIlluminance[];
+  showIlluminance: boolean;
+  courtName: CourtNamer;
+  units: UnitSystem;
+  onShowIlluminanceChange: (show: boolean) => void;
+  onAdd: () => void;
+  onAddPerCourt: () => void;
+  onUpdate: (fixtureId: string, updates: Partial<Omit<LightFixture, 'id'>>) => void;
+  onRemove: (fixtureId: string) => void;
+  onClear: () => void;
+}
+
+// Limits are in model units; `isLength` settings are shown in the display unit
+const FIXTURE_SETTINGS: { key: FixtureSetting; label: string; min: number; max: number; step: number; isLength?: boolean }[] = [
+  { key: 'height', label: 'Height', min: 2, max: 20, step: 0.5, isLength: true },
+  { key: 'lumens', label: 'Lumens', min: 1000, max: 200000, step: 1000 },
+  { key: 'beamAngle', label: 'Beam (°)', min: 10, max: 160, step: 5 },
+];
+
+const rgb = (lux: number) => `rgb(${getHeatmapColor(lux).join(',')})`;
+
+export function LightingControls({
+  fixtures,
+  selectedFixtureId,
+  report,
+  showIlluminance,
+  courtName,
+  units,
+  onShowIlluminanceChange,
+  onAdd,
+  onAddPerCourt,
+  onUpdate,
+  onRemove,
+  onClear,
+}: LightingControlsProps) {
+  const selected = fixtures.find((f) => f.id === selectedFixtureId);
+
+  const handleExportCsv = useCallback(() => {
+    downloadFile(renderLightingCsv(report, courtName), 'facility-lighting.csv', 'text/csv');
+  }, [report, courtName]);
+
+  const handleSettingChange = (key: FixtureSetting, min: number, max: number, isLength?: boolean) =>
+    (e: ChangeEvent<HTMLInputElement>) => {
+      const parsed = parseFloat(e.target.value);
+      if (!selected || Number.isNaN(parsed)) return;
+      const value = isLength ? fromDisplay(parsed, 'length', units) : parsed;
+      onUpdate(selected.id, { [key]: Math.min(max, Math.max(min, value)) });
+    };
+
+  const display = (value: number, isLength?: boolean) => (isLength ? toInputValue(value, 'length', units, 1) : value);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-foreground">
+          Lighting
+        </div>
+        {report.length > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={handleExportCsv}>
+            <FileSpreadsheet className="h-3 w-3" />
+            CSV
+          </Button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1 h-7 gap-1 text-xs" onClick={onAdd}>
+          <Plus className="h-3 w-3" />
+          Add Fixture
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1 h-7 gap-1 text-xs" onClick={onAddPerCourt}>
+          <LayoutGrid className="h-3 w-3" />
+          4 per Court
+        </Button>
+      </div>
+
+      {fixtures.length > 0 && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="show-illuminance" className="text-sm">
+            Illuminance Heatmap
+          </Label>
+          <Switch
+            id="show-illuminance"
+            checked={showIlluminance}
+            onCheckedChange={onShowIlluminanceChange}
+          />
+        </div>
+      )}
+
+      {showIlluminance && fixtures.length > 0 && (
+        <div className="space-y-1">
+          <div
+            className="h-2 rounded"
+            style={{ background: `linear-gradient(to right, ${[0, 1 / 3, 2 / 3, 1].map((t) => rgb(t * HEATMAP_MAX_LUX)).join(', ')})` }}
+          />
+          <div className="flex justify-between text-[10px] font-mono text-muted-foreground">
+            <span>0 lux</span>
+            <span>{HEATMAP_MAX_LUX}+ lux</span>
+          </div>
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-muted/30 rounded-md p-2 space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium">Fixture</span>
+            <span className="font-mono text-muted-foreground">
+              {formatPosition(selected, units)}
+            </span>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {FIXTURE_SETTINGS.map(({ key, label, min, max, step, isLength }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`fixture-${key}`} className="text-xs">
+                  {isLength ? `${label} (${unitLabel('length', units)})` : label}
+                </Label>
+                <Input
+                  id={`fixture-${key}`}
+                  type="number"
+                  className="h-7 px-1.5 text-xs font-mono"
+                  min={display(min, isLength)}
+                  max={display(max, isLength)}
+                  step={step}
+                  value={display(selected[key], isLength)}
+                  onChange={handleSettingChange(key, min, max, isLength)}
+                />
+              </div>
+            ))}
+          </div>
+          <Button
+            variant="destructive"
+            size="sm"
+            className="w-full h-7 gap-1 text-xs"
+            onClick={() => onRemove(selected.id)}
+          >
+            <Trash2 className="h-3 w-3" />
+            Remove Fixture
+          </Button>
+        </div>
+      )}
+
+      {report.length > 0 && (
+        <div className="space-y-1">
+          <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+            <span>Court</span>
+            <span className="text-right">Min</span>
+            <span className="text-right">Avg</span>
+            <span className="text-right">Min/Avg</span>
+          </div>
+          <div className="space-y-0.5 max-h-40 overflow-y-auto">
+            {report.map((court) => (
+              <div key={court.courtId} className="grid grid-cols-[1fr_auto_auto_auto] gap-x-2 text-xs">
+                <span className="truncate">{courtName(court.courtId)}</span>
+                <span className="text-right font-mono">{court.min.toFixed(0)}</span>
+                <span className="text-right font-mono">{court.avg.toFixed(0)}</span>
+                <span className="text-right font-mono">{court.uniformity.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between pt-1">
+            <span className="text-xs text-muted-foreground">
+              {fixtures.length} fixture{fixtures.length !== 1 ? 's' : ''} · lux at floor level
+            </span>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onClear}>
+              Clear
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Check, Trash2 } from 'lucide-react';
+import { Measurement, getMeasurementSegments } from '@/lib/measurement';
+import { UnitSystem, formatDualLength } from '@/lib/units';
+
+interface MeasurementControlsProps {
+  measureMode: boolean;
+  measurements: Measurement[];
+  activeMeasurementId: string | null;
+  units: UnitSystem;
+  onMeasureModeChange: (measureMode: boolean) => void;
+  onFinish: () => void;
+  onRemove: (measurementId: string) => void;
+  onClear: () => void;
+}
+
+export function MeasurementControls({
+  measureMode,
+  measurements,
+  activeMeasurementId,
+  units,
+  onMeasureModeChange,
+  onFinish,
+  onRemove,
+  onClear,
+}: MeasurementControlsProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-foreground">
+          Measurements
+        </div>
+        {measurements.length > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={onClear}>
+            <Trash2 className="h-3 w-3" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="measure-mode" className="text-xs text-muted-foreground">
+          Measure in scene
+        </Label>
+        <Switch id="measure-mode" checked={measureMode} onCheckedChange={onMeasureModeChange} />
+      </div>
+
+      {measureMode && (
+        <div className="text-xs text-muted-foreground bg-muted/50 p-2 rounded-md">
+          Click points on the floor; they snap to court corners, line intersections and net posts.
+          Double-click or press Esc to finish a measurement.
+        </div>
+      )}
+
+      {measurements.map((measurement, i) => {
+        const segments = getMeasurementSegments(measurement.points);
+        const total = segments.length > 0 ? segments[segments.length - 1].cumulative : 0;
+        const isActive = measurement.id === activeMeasurementId;
+
+        return (
+          <div key={measurement.id} className="rounded-md border border-border p-2 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-xs font-medium">
+                Measurement {i + 1}
+                {isActive && <span className="ml-1 text-muted-foreground">(in progress)</span>}
+              </div>
+              <div className="flex gap-1">
+                {isActive && (
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onFinish} title="Finish measurement">
+                    <Check className="h-3 w-3" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => onRemove(measurement.id)}
+                  title="Delete measurement"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+            {segments.length > 1 && segments.map((segment, j) => (
+              <div key={j} className="flex justify-between text-[11px] text-muted-foreground font-mono">
+                <span>Segment {j + 1}</span>
+                <span>{formatDualLength(segment.length, units)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between text-xs font-mono">
+              <span>Total</span>
+              <span>{segments.length > 0 ? formatDualLength(total, units) : '—'}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
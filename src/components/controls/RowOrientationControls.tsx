@@ -0,0 +1,46 @@
+import { Button } from '@/components/ui/button';
+import { RotateCw } from 'lucide-react';
+import { CourtRotation } from '@/types/facility';
+
+interface RowOrientationControlsProps {
+  rows: number;
+  rowRotations: CourtRotation[];
+  onChange: (rowRotations: CourtRotation[]) => void;
+}
+
+export function RowOrientationControls({ rows, rowRotations, onChange }: RowOrientationControlsProps) {
+  const handleRotate = (rowIndex: number) => {
+    const newRotations = Array.from({ length: rows }, (_, idx) => rowRotations[idx] ?? 0);
+    newRotations[rowIndex] = newRotations[rowIndex] === 90 ? 0 : 90;
+    onChange(newRotations);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-medium text-foreground">
+        Row Orientation
+      </div>
+      <div className="space-y-2">
+        {Array.from({ length: rows }, (_, idx) => (
+          <div key={idx} className="flex items-center gap-3">
+            <span className="text-xs text-muted-foreground w-14">
+              Row {idx + 1}:
+            </span>
+            <span className="flex-1 text-xs font-mono text-foreground">
+              {(rowRotations[idx] ?? 0) === 90 ? 'Sideways (90°)' : 'Lengthwise (0°)'}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={() => handleRotate(idx)}
+            >
+              <RotateCw className="h-3 w-3" />
+              Rotate
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Download, LayoutTemplate as TemplateIcon, Save, Trash2, Upload } from 'lucide-react';
+import { defaultFacilityLayout } from '@/stores/facilityStore';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BUILT_IN_TEMPLATES,
+  LayoutTemplate,
+  parseTemplatesJson,
+  renderTemplatesJson,
+} from '@/lib/layoutTemplates';
+import { getCourtFootprint, getCourtPlacements } from '@/lib/courtLayout';
+import { getAmenityFootprint } from '@/lib/amenities';
+import { getSceneBounds } from '@/lib/building';
+import { downloadFile } from '@/lib/utils';
+
+interface TemplateLibraryProps {
+  userTemplates: LayoutTemplate[];
+  onApply: (template: LayoutTemplate) => void;
+  onSave: (name: string, description: string) => void;
+  onRemove: (templateId: string) => void;
+  onImport: (templates: LayoutTemplate[]) => void;
+}
+
+function TemplateThumbnail({ template }: { template: LayoutTemplate }) {
+  const { placements, amenityRects, building, bounds } = useMemo(() => {
+    const layout = { ...defaultFacilityLayout, ...template.layout };
+    const placements = getCourtPlacements(layout.config, layout.spacing);
+    const amenityRects = layout.amenities.map(getAmenityFootprint);
+    return {
+      placements,
+      amenityRects,
+      building: layout.building,
+      bounds: getSceneBounds(placements, layout.building, amenityRects),
+    };
+  }, [template]);
+  const pad = Math.max(bounds.width, bounds.length) * 0.05;
+
+  return (
+    <svg
+      viewBox={`${bounds.minX - pad} ${bounds.minZ - pad} ${bounds.width + pad * 2} ${bounds.length + pad * 2}`}
+      className="w-16 h-12 shrink-0 rounded bg-muted"
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {building && (
+        <polygon
+          points={building.footprint.map((p) => `${p.x},${p.z}`).join(' ')}
+          fill="hsl(var(--background))"
+          stroke="hsl(var(--border))"
+          strokeWidth={Math.max(bounds.width, bounds.length) / 60}
+        />
+      )}
+      {placements.map((placement) => {
+        const rect = getCourtFootprint(placement);
+        return (
+          <rect
+            key={placement.id}
+            x={rect.minX}
+            y={rect.minZ}
+            width={rect.maxX - rect.minX}
+            height={rect.maxZ - rect.minZ}
+            fill="#2563eb"
+          />
+        );
+      })}
+      {amenityRects.map((rect, i) => (
+        <rect
+          key={i}
+          x={rect.minX}
+          y={rect.minZ}
+          width={rect.maxX - rect.minX}
+          height={rect.maxZ - rect.minZ}
+          fill="#7c3aed"
+        />
+      ))}
+    </svg>
+  );
+}
+
+interface TemplateRowProps {
+  template: LayoutTemplate;
+  onApply: (template: LayoutTemplate) => void;
+  onRemove?: (templateId: string) => void;
+}
+
+function TemplateRow({ template, onApply, onRemove }: TemplateRowProps) {
+  return (
+    <div className="flex items-center gap-3 rounded-md border border-border p-2">
+      <TemplateThumbnail template={template} />
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium truncate">{template.name}</div>
+        {template.description && (
+          <div className="text-xs text-muted-foreground line-clamp-2">{template.description}</div>
+        )}
+      </div>
+      {onRemove && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0"
+          onClick={() => onRemove(template.id)}
+          title="Delete template"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+      <Button variant="secondary" size="sm" className="h-7 text-xs shrink-0" onClick={() => onApply(template)}>
+        Apply
+      </Button>
+    </div>
+  );
+}
+
+export function TemplateLibrary({ userTemplates, onApply, onSave, onRemove, onImport }: TemplateLibraryProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const { toast } = useToast();
+
+  const handleApply = useCallback((template: LayoutTemplate) => {
+    onApply(template);
+    setOpen(false);
+  }, [onApply]);
+
+  const handleSave = useCallback(() => {
+    if (!name.trim()) return;
+    onSave(name.trim(), description.trim());
+    setName('');
+    setDescription('');
+  }, [name, description, onSave]);
+
+  const handleExport = useCallback(() => {
+    downloadFile(renderTemplatesJson(userTemplates), 'layout-templates.json', 'application/json');
+  }, [userTemplates]);
+
+  const handleImport = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (ev) => {
+        const templates = parseTemplatesJson(ev.target?.result as string);
+        if (!templates) {
+          toast({ description: 'That file is not a layout template export', variant: 'destructive', duration: 3000 });
+          return;
+        }
+        onImport(templates);
+        toast({ description: `Imported ${templates.length} template${templates.length !== 1 ? 's' : ''}`, duration: 3000 });
+      };
+      reader.readAsText(file);
+    };
+    input.click();
+  }, [onImport, toast]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full h-8 gap-2 text-xs">
+          <TemplateIcon className="h-3 w-3" />
+          Layout Templates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Layout templates</DialogTitle>
+          <DialogDescription>
+            Applying a template replaces the current layout. Scheduling and robot settings are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {BUILT_IN_TEMPLATES.map((template) => (
+            <TemplateRow key={template.id} template={template} onApply={handleApply} />
+          ))}
+
+          <div className="pt-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            My templates
+          </div>
+          {userTemplates.length === 0 ? (
+            <div className="text-xs text-muted-foreground bg-muted/50 p-3 rounded-md">
+              Save the current layout below to reuse it later.
+            </div>
+          ) : (
+            userTemplates.map((template) => (
+              <TemplateRow key={template.id} template={template} onApply={handleApply} onRemove={onRemove} />
+            ))
+          )}
+        </div>
+
+        <Separator />
+
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <Label htmlFor="template-name" className="text-sm">Save current layout</Label>
+          <Input
+            id="template-name"
+            placeholder="Template name"
+            className="h-8 text-sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            placeholder="Description (optional)"
+            className="h-8 text-sm"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" className="flex-1 h-8 gap-1 text-xs" disabled={!name.trim()}>
+              <Save className="h-3 w-3" />
+              Save Template
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 gap-1 text-xs"
+              disabled={userTemplates.length === 0}
+              onClick={handleExport}
+            >
+              <Download className="h-3 w-3" />
+              Export
+            </Button>
+            <Button type="button" variant="outline" size="sm" className="h-8 gap-1 text-xs" onClick={handleImport}>
+              <Upload className="h-3 w-3" />
+              Import
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
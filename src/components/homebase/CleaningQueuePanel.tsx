@@ -1,8 +1,10 @@
 import { useSimulationStore } from '@/stores/simulationStore';
 import { formatTime } from '@/types/facility';
+import { useCourtNamer } from '@/hooks/useCourtNamer';
 
 export function CleaningQueuePanel() {
   const { cleaningQueue, currentTime } = useSimulationStore();
+  const courtName = useCourtNamer();
 
   if (cleaningQueue.length === 0) {
     return (
@@ -25,8 +27,6 @@ export function CleaningQueuePanel() {
       <div className="space-y-1 max-h-32 overflow-y-auto">
         {cleaningQueue.map((job, index) => {
           const waitTime = Math.round(currentTime - job.createdAt);
-          const courtLabel = job.courtId.split('-').slice(1).map(n => parseInt(n) + 1).join('-');
-          
           return (
             <div
               key={job.id}
@@ -36,7 +36,7 @@ export function CleaningQueuePanel() {
             >
               <div className="flex items-center gap-2">
                 <span className="text-muted-foreground w-4">#{index + 1}</span>
-                <span>Court {courtLabel}</span>
+                <span>{courtName(job.courtId)}</span>
                 {job.priority === 'high' && (
                   <span className="text-[10px] px-1 py-0.5 bg-orange-500/20 text-orange-500 rounded">
                     Priority
@@ -1,13 +1,29 @@
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { SimulationControls } from './SimulationControls';
+import { SimulationTimeline } from './SimulationTimeline';
 import { SchedulingPanel } from './SchedulingPanel';
 import { ManualControlPanel } from './ManualControlPanel';
 import { RobotStatusPanel } from './RobotStatusPanel';
+import { RobotSettingsPanel } from './RobotSettingsPanel';
 import { CleaningQueuePanel } from './CleaningQueuePanel';
 import { NotificationPanel } from './NotificationPanel';
+import { MeasurementControls } from '@/components/controls/MeasurementControls';
+import { useMeasurementStore } from '@/stores/measurementStore';
+import { usePreferencesStore } from '@/stores/preferencesStore';
 
 export function HomebasePanel() {
+  const {
+    measureMode,
+    measurements,
+    activeMeasurementId,
+    setMeasureMode,
+    finishMeasurement,
+    removeMeasurement,
+    clearMeasurements,
+  } = useMeasurementStore();
+  const units = usePreferencesStore((state) => state.units);
+
   return (
     <div className="h-full flex flex-col bg-background border-r border-border">
       <div className="p-4 border-b border-border">
@@ -15,8 +31,9 @@ export function HomebasePanel() {
         <p className="text-sm text-muted-foreground">Facility Management</p>
       </div>
 
-      <div className="p-4 border-b border-border">
+      <div className="p-4 border-b border-border space-y-3">
         <SimulationControls />
+        <SimulationTimeline />
       </div>
 
       <ScrollArea className="flex-1">
@@ -27,6 +44,10 @@ export function HomebasePanel() {
           
           <RobotStatusPanel />
           
+          <Separator />
+
+          <RobotSettingsPanel />
+
           <Separator />
           
           <CleaningQueuePanel />
@@ -35,6 +56,19 @@ export function HomebasePanel() {
           
           <SchedulingPanel />
           
+          <Separator />
+
+          <MeasurementControls
+            measureMode={measureMode}
+            measurements={measurements}
+            activeMeasurementId={activeMeasurementId}
+            units={units}
+            onMeasureModeChange={setMeasureMode}
+            onFinish={finishMeasurement}
+            onRemove={removeMeasurement}
+            onClear={clearMeasurements}
+          />
+
           <Separator />
           
           <NotificationPanel />
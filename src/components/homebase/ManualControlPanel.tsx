@@ -5,6 +5,7 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { useSimulationStore } from '@/stores/simulationStore';
 import { getStatusLabel, getStatusColor } from '@/types/facility';
+import { useCourtNamer } from '@/hooks/useCourtNamer';
 
 export function ManualControlPanel() {
   const {
@@ -17,6 +18,7 @@ export function ManualControlPanel() {
     forceEndSession,
     setCourtOutOfService,
   } = useSimulationStore();
+  const courtName = useCourtNamer();
 
   const selectedCourts = Array.from(selectedCourtIds).map((id) => courts.get(id)).filter(Boolean);
   const hasSelection = selectedCourts.length > 0;
@@ -73,7 +75,7 @@ export function ManualControlPanel() {
                 key={court!.id}
                 className="flex items-center justify-between text-xs bg-muted/30 px-2 py-1 rounded"
               >
-                <span>Court {court!.row + 1}-{court!.col + 1}</span>
+                <span>{courtName(court!.id)}</span>
                 <span
                   className="px-1.5 py-0.5 rounded text-white text-[10px]"
                   style={{ backgroundColor: getStatusColor(court!.status) }}
@@ -0,0 +1,42 @@
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { useFacilityStore } from '@/stores/facilityStore';
+import { usePreferencesStore } from '@/stores/preferencesStore';
+import { formatSpeed } from '@/lib/units';
+
+type SpeedSetting = 'navigationSpeed' | 'cleaningSpeed';
+
+// Slider limits in m/s
+const SPEED_SETTINGS: { key: SpeedSetting; label: string; min: number; max: number }[] = [
+  { key: 'navigationSpeed', label: 'Travel Speed', min: 0.2, max: 2 },
+  { key: 'cleaningSpeed', label: 'Cleaning Speed', min: 0.1, max: 1 },
+];
+
+export function RobotSettingsPanel() {
+  const { robotSettings, setRobotSettings } = useFacilityStore();
+  const units = usePreferencesStore((state) => state.units);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-foreground">Robot Settings</h3>
+
+      {SPEED_SETTINGS.map(({ key, label, min, max }) => (
+        <div key={key} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">{label}</Label>
+            <span className="text-xs font-mono text-muted-foreground">
+              {formatSpeed(robotSettings[key], units)}
+            </span>
+          </div>
+          <Slider
+            value={[robotSettings[key]]}
+            min={min}
+            max={max}
+            step={0.05}
+            onValueChange={([v]) => setRobotSettings({ [key]: v })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useSimulationStore } from '@/stores/simulationStore';
+import { useCourtNamer } from '@/hooks/useCourtNamer';
 
 export function RobotStatusPanel() {
   const { robots } = useSimulationStore();
+  const courtName = useCourtNamer();
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -10,6 +12,7 @@ export function RobotStatusPanel() {
       case 'cleaning': return 'bg-purple-500';
       case 'returning': return 'bg-yellow-500';
       case 'charging': return 'bg-green-500';
+      case 'stuck': return 'bg-red-500';
       default: return 'bg-gray-400';
     }
   };
@@ -57,7 +60,7 @@ export function RobotStatusPanel() {
             {/* Target court */}
             {robot.targetCourtId && (
               <div className="text-[10px] text-muted-foreground">
-                Target: Court {robot.targetCourtId.split('-').slice(1).map(n => parseInt(n) + 1).join('-')}
+                Target: {courtName(robot.targetCourtId)}
               </div>
             )}
 
@@ -1,33 +1,44 @@
 import { useCallback } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Shuffle } from 'lucide-react';
 import { useFacilityStore } from '@/stores/facilityStore';
 import { useSimulationStore } from '@/stores/simulationStore';
+import { getCourtPlacements } from '@/lib/courtLayout';
+import { randomSeed } from '@/lib/random';
+import { formatDay, getDayIndex } from '@/lib/calendar';
 
 export function SchedulingPanel() {
-  const { config, schedulingSettings, setSchedulingSettings } = useFacilityStore();
-  const { generateSchedule, clearBookings, bookings, addNotification } = useSimulationStore();
-
-  const handleGenerate = useCallback(() => {
-    const rows = config.rows;
-    const cols = config.mode === 'even' ? config.cols : config.maxCols;
-    const rowLengths = config.mode === 'uneven' ? config.rowLengths : undefined;
+  const { config, spacing, schedulingSettings, setSchedulingSettings } = useFacilityStore();
+  const {
+    generateSchedule,
+    clearBookings,
+    bookings,
+    addNotification,
+    seed,
+    setSeed,
+    startDate,
+    currentTime,
+  } = useSimulationStore();
+  const day = getDayIndex(currentTime);
 
+  const handleGenerate = useCallback((days: number) => {
     generateSchedule({
-      rows,
-      cols,
-      rowLengths,
+      courtIds: getCourtPlacements(config, spacing).map((p) => p.id),
+      day,
+      days,
       startTime: schedulingSettings.operatingHoursStart,
       endTime: schedulingSettings.operatingHoursEnd,
       sessionDuration: schedulingSettings.sessionDuration,
       bufferTime: schedulingSettings.bufferTime,
       demandLevel: schedulingSettings.demandLevel,
     });
-  }, [config, schedulingSettings, generateSchedule]);
+  }, [config, spacing, schedulingSettings, generateSchedule, day]);
 
   const handleClear = useCallback(() => {
     clearBookings();
@@ -149,8 +160,43 @@ export function SchedulingPanel() {
       <Separator />
 
       <div className="space-y-2">
-        <Button onClick={handleGenerate} size="sm" className="w-full">
-          Generate Today's Schedule
+        <Label htmlFor="sim-seed" className="text-xs">Random Seed</Label>
+        <div className="flex gap-2">
+          <Input
+            id="sim-seed"
+            type="number"
+            min={0}
+            step={1}
+            className="h-8 text-xs font-mono"
+            value={seed}
+            onChange={(e) => {
+              const value = parseInt(e.target.value);
+              if (!Number.isNaN(value)) setSeed(value);
+            }}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => setSeed(randomSeed())}
+            title="New random seed"
+          >
+            <Shuffle className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          The same seed generates the same schedule, session wear and rallies.
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <Button onClick={() => handleGenerate(1)} size="sm" className="w-full">
+          Generate Schedule for {formatDay(startDate, day)}
+        </Button>
+        <Button onClick={() => handleGenerate(7)} variant="secondary" size="sm" className="w-full">
+          Generate Next 7 Days
         </Button>
         <Button onClick={handleClear} variant="outline" size="sm" className="w-full">
           Clear All Bookings
@@ -1,44 +1,145 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Play, Pause, FastForward } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Play, Pause, FastForward, SkipForward, ChevronsRight } from 'lucide-react';
 import { useSimulationStore } from '@/stores/simulationStore';
+import { useFacilityStore } from '@/stores/facilityStore';
+import { useSimulationEnvironment } from '@/hooks/useSimulation';
 import { formatTime } from '@/types/facility';
+import {
+  MINUTES_PER_DAY,
+  formatDay,
+  getDayDate,
+  getDayForDate,
+  getDayIndex,
+  getDayStart,
+  toIsoDate,
+} from '@/lib/calendar';
+
+// <input type="time"> works in "HH:MM"
+const toTimeValue = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+const fromTimeValue = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
 
 export function SimulationControls() {
-  const { currentTime, isPlaying, speed, togglePlaying, setSpeed } = useSimulationStore();
+  const {
+    startDate,
+    currentTime,
+    isPlaying,
+    speed,
+    togglePlaying,
+    setSpeed,
+    runToNextEvent,
+    runUntil,
+  } = useSimulationStore();
+  const { operatingHoursStart, operatingHoursEnd } = useFacilityStore((state) => state.schedulingSettings);
+  const environment = useSimulationEnvironment();
+  const [runToTime, setRunToTime] = useState(operatingHoursEnd);
+
+  const day = getDayIndex(currentTime);
+  const dayStart = getDayStart(day);
+  // Closing time, or midnight once the facility has closed for the day
+  const endOfDay = currentTime < dayStart + operatingHoursEnd ? dayStart + operatingHoursEnd : dayStart + MINUTES_PER_DAY;
+
+  // Picking a later date simulates through to that day's opening time
+  const handleDateChange = (isoDate: string) => {
+    if (!isoDate) return;
+    const target = getDayStart(getDayForDate(startDate, isoDate)) + operatingHoursStart;
+    if (target > currentTime) runUntil(target, environment);
+  };
 
   return (
-    <div className="flex items-center gap-3 bg-muted/50 px-3 py-2 rounded-lg">
-      <div className="font-mono text-lg font-bold text-foreground min-w-[90px]">
-        {formatTime(Math.floor(currentTime))}
+    <div className="space-y-2">
+      <div className="flex items-center gap-3 bg-muted/50 px-3 py-2 rounded-lg">
+        <div className="min-w-[90px]">
+          <div className="text-xs text-muted-foreground">{formatDay(startDate, day)}</div>
+          <div className="font-mono text-lg font-bold text-foreground">
+            {formatTime(Math.floor(currentTime))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant={isPlaying ? "default" : "secondary"}
+            size="icon"
+            className="h-8 w-8"
+            onClick={togglePlaying}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+
+          <div className="flex gap-0.5 ml-1">
+            {([1, 4, 10] as const).map((s) => (
+              <Button
+                key={s}
+                variant={speed === s ? "default" : "ghost"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setSpeed(s)}
+              >
+                {s}×
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className={`text-xs px-2 py-1 rounded ${isPlaying ? 'bg-green-500/20 text-green-500' : 'bg-muted text-muted-foreground'}`}>
+          {isPlaying ? 'Running' : 'Paused'}
+        </div>
       </div>
-      
-      <div className="flex items-center gap-1">
+
+      {/* Event-driven jumps: the clock skips straight from one event to the next */}
+      <div className="flex flex-wrap items-center gap-1">
+        <Input
+          type="date"
+          className="h-7 w-[130px] text-xs"
+          value={toIsoDate(getDayDate(startDate, day))}
+          min={toIsoDate(getDayDate(startDate, day))}
+          onChange={(e) => handleDateChange(e.target.value)}
+          title="Run the simulation to opening time on this date"
+        />
         <Button
-          variant={isPlaying ? "default" : "secondary"}
-          size="icon"
-          className="h-8 w-8"
-          onClick={togglePlaying}
+          variant="secondary"
+          size="sm"
+          className="h-7 gap-1 px-2 text-xs"
+          onClick={() => runToNextEvent(environment)}
+          title="Jump to the next booking, robot or charging event"
         >
-          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          <SkipForward className="h-3 w-3" />
+          Next event
+        </Button>
+        <Input
+          type="time"
+          className="h-7 w-[96px] text-xs"
+          value={toTimeValue(runToTime)}
+          onChange={(e) => e.target.value && setRunToTime(fromTimeValue(e.target.value))}
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          className="h-7 gap-1 px-2 text-xs"
+          onClick={() => runUntil(dayStart + runToTime, environment)}
+          disabled={dayStart + runToTime <= currentTime}
+          title="Run the simulation to this time today"
+        >
+          <FastForward className="h-3 w-3" />
+          Run to
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="h-7 gap-1 px-2 text-xs"
+          onClick={() => runUntil(endOfDay, environment)}
+          disabled={currentTime >= endOfDay}
+          title={`Run to ${formatTime(endOfDay)}`}
+        >
+          <ChevronsRight className="h-3 w-3" />
+          End of day
         </Button>
-        
-        <div className="flex gap-0.5 ml-1">
-          {([1, 4, 10] as const).map((s) => (
-            <Button
-              key={s}
-              variant={speed === s ? "default" : "ghost"}
-              size="sm"
-              className="h-7 px-2 text-xs"
-              onClick={() => setSpeed(s)}
-            >
-              {s}×
-            </Button>
-          ))}
-        </div>
-      </div>
-
-      <div className={`text-xs px-2 py-1 rounded ${isPlaying ? 'bg-green-500/20 text-green-500' : 'bg-muted text-muted-foreground'}`}>
-        {isPlaying ? 'Running' : 'Paused'}
       </div>
     </div>
   );
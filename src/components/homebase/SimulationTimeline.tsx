@@ -0,0 +1,128 @@
+import { PointerEvent, useMemo, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { useSimulationStore } from '@/stores/simulationStore';
+import { useFacilityStore } from '@/stores/facilityStore';
+import { useSimulationEnvironment } from '@/hooks/useSimulation';
+import { getDayIndex, getDayStart, getMinuteOfDay } from '@/lib/calendar';
+import { getBookingDensity, getEarliestSeekTime } from '@/lib/timeline';
+import { formatTime } from '@/types/facility';
+
+const BUCKET_MINUTES = 30;
+const MIN_SPEED = 0.5;
+const MAX_SPEED = 600;
+
+/**
+ * Scrubber over the current day's operating hours with booking density.
+ * Dragging previews a time and seeks there on release: forward by simulating,
+ * backward by restoring the nearest earlier snapshot and re-simulating.
+ */
+export function SimulationTimeline() {
+  const { currentTime, bookings, courts, timeline, speed, setSpeed, seek } = useSimulationStore();
+  const { operatingHoursStart, operatingHoursEnd } = useFacilityStore((state) => state.schedulingSettings);
+  const environment = useSimulationEnvironment();
+  const barRef = useRef<HTMLDivElement>(null);
+  const [dragTime, setDragTime] = useState<number | null>(null);
+
+  // Operating hours, stretched to include the clock when it is outside them
+  const dayStart = getDayStart(getDayIndex(currentTime));
+  const minuteOfDay = getMinuteOfDay(currentTime);
+  const start = dayStart + Math.min(operatingHoursStart, Math.floor(minuteOfDay));
+  const end = dayStart + Math.max(operatingHoursEnd, Math.ceil(minuteOfDay));
+  const span = Math.max(1, end - start);
+
+  const density = useMemo(
+    () => getBookingDensity(bookings, start, end, courts.size, BUCKET_MINUTES),
+    [bookings, start, end, courts.size]
+  );
+
+  const earliest = getEarliestSeekTime(timeline, currentTime);
+  const percent = (time: number) => `${(Math.min(end, Math.max(start, time)) - start) / span * 100}%`;
+
+  const timeAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return currentTime;
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    // Older snapshots have been dropped, so the drag stops at the oldest one kept
+    return Math.max(earliest, Math.round(start + fraction * span));
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragTime(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragTime !== null) setDragTime(timeAt(e.clientX));
+  };
+
+  const handlePointerUp = () => {
+    if (dragTime === null) return;
+    seek(dragTime, environment);
+    setDragTime(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div
+        ref={barRef}
+        className="relative h-8 rounded-md bg-muted/50 overflow-hidden cursor-pointer select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDragTime(null)}
+      >
+        {/* Booking density */}
+        {density.map((value, i) => (
+          <div
+            key={i}
+            className="absolute bottom-0 bg-blue-500/40"
+            style={{
+              left: percent(start + i * BUCKET_MINUTES),
+              width: `${(Math.min(BUCKET_MINUTES, end - start - i * BUCKET_MINUTES) / span) * 100}%`,
+              height: `${value * 100}%`,
+            }}
+          />
+        ))}
+
+        {/* No snapshots before this point, so the timeline cannot rewind into it */}
+        {earliest > start && (
+          <div
+            className="absolute inset-y-0 left-0 bg-background/60 border-r border-dashed border-muted-foreground"
+            style={{ width: percent(earliest) }}
+            title={`Can't rewind past ${formatTime(Math.floor(earliest))}`}
+          />
+        )}
+
+        <div className="absolute inset-y-0 w-0.5 bg-primary" style={{ left: percent(currentTime) }} />
+        {dragTime !== null && (
+          <div className="absolute inset-y-0 w-0.5 bg-orange-500" style={{ left: percent(dragTime) }} />
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+        <span>{formatTime(start)}</span>
+        {dragTime !== null ? (
+          <span className="font-mono text-orange-500">{formatTime(dragTime)}</span>
+        ) : (
+          <label className="flex items-center gap-1">
+            Speed
+            <Input
+              type="number"
+              min={MIN_SPEED}
+              max={MAX_SPEED}
+              step={0.5}
+              className="h-6 w-16 px-1 text-[10px]"
+              value={speed}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!Number.isNaN(value)) setSpeed(Math.min(MAX_SPEED, Math.max(MIN_SPEED, value)));
+              }}
+            />
+            ×
+          </label>
+        )}
+        <span>{formatTime(end)}</span>
+      </div>
+    </div>
+  );
+}
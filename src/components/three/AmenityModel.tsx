@@ -0,0 +1,28 @@
+import { Amenity } from '@/types/facility';
+import { getCourtRotationRadians } from '@/lib/courtLayout';
+import { AMENITY_PARTS } from '@/lib/sceneAssets';
+
+interface AmenityModelProps {
+  amenity: Amenity;
+}
+
+export function AmenityModel({ amenity }: AmenityModelProps) {
+  return (
+    <group
+      position={[amenity.x, 0, amenity.z]}
+      rotation={[0, getCourtRotationRadians(amenity.rotation), 0]}
+    >
+      {AMENITY_PARTS[amenity.type].map((part) => (
+        <mesh
+          key={part.name}
+          geometry={part.geometry}
+          material={part.material}
+          position={part.position}
+          rotation={part.rotation}
+          castShadow
+          receiveShadow
+        />
+      ))}
+    </group>
+  );
+}
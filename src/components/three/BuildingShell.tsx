@@ -0,0 +1,138 @@
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import { BuildingEnvelope, Point2D } from '@/types/facility';
+import { getWallSegments, splitWallAtDoors, getDoorPlacements, segmentLength } from '@/lib/building';
+
+interface BuildingShellProps {
+  building: BuildingEnvelope;
+}
+
+// Door frame dimensions
+const DOOR_HEIGHT = 2.1;
+const DOOR_FRAME_SIZE = 0.08;
+
+// Shared materials - created once
+const sharedMaterials = {
+  floor: new THREE.MeshStandardMaterial({ color: '#374151', roughness: 0.9 }),
+  wall: new THREE.MeshStandardMaterial({
+    color: '#cbd5e1',
+    roughness: 0.8,
+    transparent: true,
+    opacity: 0.35,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  }),
+  interiorWall: new THREE.MeshStandardMaterial({
+    color: '#94a3b8',
+    roughness: 0.8,
+    transparent: true,
+    opacity: 0.5,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+  }),
+  column: new THREE.MeshStandardMaterial({ color: '#9ca3af', roughness: 0.6, metalness: 0.1 }),
+  doorFrame: new THREE.MeshStandardMaterial({ color: '#f59e0b', roughness: 0.5 }),
+};
+
+const unitBox = new THREE.BoxGeometry(1, 1, 1);
+
+interface WallPiece {
+  key: string;
+  center: Point2D;
+  length: number;
+  angle: number;
+  isPerimeter: boolean;
+}
+
+/**
+ * Building envelope: floor polygon, perimeter and interior walls with door openings, and columns.
+ * Walls are translucent so courts stay visible from the orbit camera.
+ */
+export function BuildingShell({ building }: BuildingShellProps) {
+  // Floor polygon - shape is drawn in XY and rotated flat, so Z maps to -Y
+  const floorGeometry = useMemo(() => {
+    const shape = new THREE.Shape(building.footprint.map((p) => new THREE.Vector2(p.x, -p.z)));
+    return new THREE.ShapeGeometry(shape);
+  }, [building.footprint]);
+
+  const wallPieces = useMemo(() => {
+    const pieces: WallPiece[] = [];
+    getWallSegments(building).forEach((wall) => {
+      splitWallAtDoors(wall, building.doors).forEach((piece, i) => {
+        const length = segmentLength(piece.start, piece.end);
+        if (length < 0.01) return;
+        pieces.push({
+          key: `${wall.id}-${i}`,
+          center: { x: (piece.start.x + piece.end.x) / 2, z: (piece.start.z + piece.end.z) / 2 },
+          length,
+          angle: Math.atan2(piece.end.z - piece.start.z, piece.end.x - piece.start.x),
+          isPerimeter: wall.isPerimeter,
+        });
+      });
+    });
+    return pieces;
+  }, [building]);
+
+  const doors = useMemo(() => getDoorPlacements(building), [building]);
+
+  return (
+    <group>
+      {/* Floor */}
+      <mesh
+        geometry={floorGeometry}
+        material={sharedMaterials.floor}
+        rotation={[-Math.PI / 2, 0, 0]}
+        position={[0, -0.015, 0]}
+        receiveShadow
+      />
+
+      {/* Walls */}
+      {wallPieces.map((piece) => (
+        <mesh
+          key={piece.key}
+          geometry={unitBox}
+          material={piece.isPerimeter ? sharedMaterials.wall : sharedMaterials.interiorWall}
+          position={[piece.center.x, building.wallHeight / 2, piece.center.z]}
+          rotation={[0, -piece.angle, 0]}
+          scale={[piece.length, building.wallHeight, building.wallThickness]}
+        />
+      ))}
+
+      {/* Door frames */}
+      {doors.map(({ door, center, angle }) => (
+        <group key={door.id} position={[center.x, 0, center.z]} rotation={[0, -angle, 0]}>
+          <mesh
+            geometry={unitBox}
+            material={sharedMaterials.doorFrame}
+            position={[-door.width / 2, DOOR_HEIGHT / 2, 0]}
+            scale={[DOOR_FRAME_SIZE, DOOR_HEIGHT, building.wallThickness + 0.02]}
+          />
+          <mesh
+            geometry={unitBox}
+            material={sharedMaterials.doorFrame}
+            position={[door.width / 2, DOOR_HEIGHT / 2, 0]}
+            scale={[DOOR_FRAME_SIZE, DOOR_HEIGHT, building.wallThickness + 0.02]}
+          />
+          <mesh
+            geometry={unitBox}
+            material={sharedMaterials.doorFrame}
+            position={[0, DOOR_HEIGHT, 0]}
+            scale={[door.width + DOOR_FRAME_SIZE, DOOR_FRAME_SIZE, building.wallThickness + 0.02]}
+          />
+        </group>
+      ))}
+
+      {/* Columns */}
+      {building.columns.map((column) => (
+        <mesh
+          key={column.id}
+          geometry={unitBox}
+          material={sharedMaterials.column}
+          position={[column.x, building.wallHeight / 2, column.z]}
+          scale={[column.size, building.wallHeight, column.size]}
+          castShadow
+        />
+      ))}
+    </group>
+  );
+}
@@ -0,0 +1,44 @@
+import * as THREE from 'three';
+import { ComplianceViolation } from '@/lib/compliance';
+
+interface ComplianceOverlayProps {
+  violations: ComplianceViolation[];
+}
+
+// Shared geometry/material - each zone is a scaled unit plane
+const zoneGeometry = new THREE.PlaneGeometry(1, 1);
+const zoneMaterial = new THREE.MeshBasicMaterial({
+  color: '#f59e0b',
+  transparent: true,
+  opacity: 0.45,
+  depthWrite: false,
+  side: THREE.DoubleSide,
+});
+
+// Zones thinner than this are widened so touching edges remain visible
+const MIN_ZONE_SIZE = 0.1;
+
+/**
+ * Floor highlights for compliance violations (blocked run-off, short gaps between courts)
+ */
+export function ComplianceOverlay({ violations }: ComplianceOverlayProps) {
+  return (
+    <group>
+      {violations.map((violation, i) => {
+        const { zone } = violation;
+        const width = Math.max(MIN_ZONE_SIZE, zone.maxX - zone.minX);
+        const length = Math.max(MIN_ZONE_SIZE, zone.maxZ - zone.minZ);
+        return (
+          <mesh
+            key={`${violation.ruleId}-${i}`}
+            geometry={zoneGeometry}
+            material={zoneMaterial}
+            position={[(zone.minX + zone.maxX) / 2, 0.04, (zone.minZ + zone.maxZ) / 2]}
+            rotation={[-Math.PI / 2, 0, 0]}
+            scale={[width, length, 1]}
+          />
+        );
+      })}
+    </group>
+  );
+}
@@ -1,19 +1,15 @@
-import { useMemo } from 'react';
 import { Html } from '@react-three/drei';
 import { CourtState, getStatusLabel, getStatusColor } from '@/types/facility';
 
 interface CourtStatusLabelProps {
   courtState: CourtState;
+  label: string; // from the facility's court naming scheme
   position: { x: number; z: number };
 }
 
-export function CourtStatusLabel({ courtState, position }: CourtStatusLabelProps) {
+export function CourtStatusLabel({ courtState, label, position }: CourtStatusLabelProps) {
   const statusColor = getStatusColor(courtState.status);
   const statusLabel = getStatusLabel(courtState.status);
-  
-  const courtLabel = useMemo(() => {
-    return `${courtState.row + 1}-${courtState.col + 1}`;
-  }, [courtState.row, courtState.col]);
 
   return (
     <Html
@@ -24,7 +20,7 @@ export function CourtStatusLabel({ courtState, position }: CourtStatusLabelProps
     >
       <div className="flex flex-col items-center gap-1 select-none">
         <div className="bg-background/90 backdrop-blur-sm px-2 py-1 rounded-md border border-border shadow-lg">
-          <div className="text-xs font-bold text-foreground">Court {courtLabel}</div>
+          <div className="text-xs font-bold text-foreground">{label}</div>
         </div>
         <div
           className="px-2 py-0.5 rounded-full text-[10px] font-medium text-white"
@@ -0,0 +1,84 @@
+import { useCallback } from 'react';
+import * as THREE from 'three';
+import { AmenityModel } from './AmenityModel';
+import { Amenity, AmenityType, AMENITY_CATALOG } from '@/types/facility';
+import { getCourtRotationRadians } from '@/lib/courtLayout';
+import { AMENITY_TYPES } from '@/lib/amenities';
+import { useGroundDrag } from '@/hooks/useGroundDrag';
+
+interface DraggableAmenityProps {
+  amenity: Amenity;
+  isSelected: boolean;
+  hasConflict: boolean;
+  onSelect: (amenityId: string) => void;
+  onMove: (amenityId: string, x: number, z: number) => void;
+  onDragStateChange: (dragging: boolean) => void;
+}
+
+// Outline and pointer target per amenity type, sized from the catalog footprint
+const sharedGeometries = Object.fromEntries(
+  AMENITY_TYPES.map((type) => {
+    const { width, depth, height } = AMENITY_CATALOG[type];
+    return [type, {
+      outline: new THREE.BoxGeometry(width + 0.2, 0.04, depth + 0.2),
+      clickTarget: new THREE.BoxGeometry(width, height, depth),
+    }];
+  })
+) as Record<AmenityType, { outline: THREE.BoxGeometry; clickTarget: THREE.BoxGeometry }>;
+
+const pooledMaterials = {
+  selected: new THREE.MeshBasicMaterial({ color: '#60a5fa', transparent: true, opacity: 0.8 }),
+  conflict: new THREE.MeshBasicMaterial({ color: '#ef4444', transparent: true, opacity: 0.85 }),
+  clickTarget: new THREE.MeshBasicMaterial({ transparent: true, opacity: 0 }),
+};
+
+export function DraggableAmenity({
+  amenity,
+  isSelected,
+  hasConflict,
+  onSelect,
+  onMove,
+  onDragStateChange,
+}: DraggableAmenityProps) {
+  const dragHandlers = useGroundDrag({ id: amenity.id, x: amenity.x, z: amenity.z, onSelect, onMove, onDragStateChange });
+
+  const handlePointerOver = useCallback(() => {
+    document.body.style.cursor = 'grab';
+  }, []);
+
+  const handlePointerOut = useCallback(() => {
+    document.body.style.cursor = 'auto';
+  }, []);
+
+  const geometries = sharedGeometries[amenity.type];
+  const outlineMaterial = hasConflict ? pooledMaterials.conflict
+    : isSelected ? pooledMaterials.selected
+    : null;
+
+  return (
+    <>
+      <AmenityModel amenity={amenity} />
+
+      <group
+        position={[amenity.x, 0, amenity.z]}
+        rotation={[0, getCourtRotationRadians(amenity.rotation), 0]}
+      >
+        {/* Invisible pointer target */}
+        <mesh
+          {...dragHandlers}
+          onPointerOver={handlePointerOver}
+          onPointerOut={handlePointerOut}
+          visible={false}
+          geometry={geometries.clickTarget}
+          material={pooledMaterials.clickTarget}
+          position={[0, AMENITY_CATALOG[amenity.type].height / 2, 0]}
+        />
+
+        {/* Selection / run-off conflict outline */}
+        {outlineMaterial && (
+          <mesh geometry={geometries.outline} material={outlineMaterial} position={[0, 0.01, 0]} />
+        )}
+      </group>
+    </>
+  );
+}
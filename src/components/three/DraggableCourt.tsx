@@ -0,0 +1,110 @@
+import { useCallback, useMemo } from 'react';
+import * as THREE from 'three';
+import { PickleballCourt } from './PickleballCourt';
+import { CourtPlacement, CourtOverrides, OverlaySport, SurfaceType, COURT_WIDTH, COURT_LENGTH } from '@/types/facility';
+import { getCourtRotationRadians } from '@/lib/courtLayout';
+import { getCourtLineOverlays, getCourtSurface } from '@/lib/courtAttributes';
+import { useGroundDrag } from '@/hooks/useGroundDrag';
+
+interface DraggableCourtProps {
+  placement: CourtPlacement;
+  surfaceType: SurfaceType;
+  overrides?: CourtOverrides;
+  showNet: boolean;
+  showLines: boolean;
+  lineOverlays: OverlaySport[]; // facility-wide overlays; per-court overrides take precedence
+  draggable: boolean;
+  isSelected: boolean;
+  hasConflict: boolean;
+  hasWarning?: boolean;
+  onSelect: (courtId: string) => void;
+  onMove: (courtId: string, x: number, z: number) => void;
+  onDragStateChange: (dragging: boolean) => void;
+}
+
+// Shared geometries - created once, reused by all courts
+const sharedGeometries = {
+  outline: new THREE.BoxGeometry(COURT_WIDTH + 0.3, 0.04, COURT_LENGTH + 0.3),
+  clickTarget: new THREE.BoxGeometry(COURT_WIDTH, 0.3, COURT_LENGTH),
+};
+
+// Pooled materials
+const pooledMaterials = {
+  selected: new THREE.MeshBasicMaterial({ color: '#60a5fa', transparent: true, opacity: 0.8 }),
+  conflict: new THREE.MeshBasicMaterial({ color: '#ef4444', transparent: true, opacity: 0.85 }),
+  warning: new THREE.MeshBasicMaterial({ color: '#f59e0b', transparent: true, opacity: 0.8 }),
+  clickTarget: new THREE.MeshBasicMaterial({ transparent: true, opacity: 0 }),
+};
+
+export function DraggableCourt({
+  placement,
+  surfaceType,
+  overrides,
+  showNet,
+  showLines,
+  lineOverlays,
+  draggable,
+  isSelected,
+  hasConflict,
+  hasWarning = false,
+  onSelect,
+  onMove,
+  onDragStateChange,
+}: DraggableCourtProps) {
+  const dragHandlers = useGroundDrag({
+    id: placement.id,
+    x: placement.x,
+    z: placement.z,
+    draggable,
+    onSelect,
+    onMove,
+    onDragStateChange,
+  });
+
+  const surface = useMemo(() => getCourtSurface(surfaceType, overrides), [surfaceType, overrides]);
+  const courtLineOverlays = getCourtLineOverlays(lineOverlays, overrides);
+
+  const handlePointerOver = useCallback(() => {
+    document.body.style.cursor = draggable ? 'grab' : 'pointer';
+  }, [draggable]);
+
+  const handlePointerOut = useCallback(() => {
+    document.body.style.cursor = 'auto';
+  }, []);
+
+  const outlineMaterial = hasConflict ? pooledMaterials.conflict
+    : isSelected ? pooledMaterials.selected
+    : hasWarning ? pooledMaterials.warning
+    : null;
+
+  return (
+    <group
+      position={[placement.x, 0, placement.z]}
+      rotation={[0, getCourtRotationRadians(placement.rotation), 0]}
+    >
+      {/* Invisible pointer target */}
+      <mesh
+        {...dragHandlers}
+        onPointerOver={handlePointerOver}
+        onPointerOut={handlePointerOut}
+        visible={false}
+        geometry={sharedGeometries.clickTarget}
+        material={pooledMaterials.clickTarget}
+      />
+
+      <PickleballCourt
+        surfaceType={surface.surfaceType}
+        surfaceColor={surface.color}
+        kitchenColor={surface.kitchenColor}
+        showNet={showNet}
+        showLines={showLines}
+        lineOverlays={courtLineOverlays}
+      />
+
+      {/* Selection / conflict / compliance outline */}
+      {outlineMaterial && (
+        <mesh geometry={sharedGeometries.outline} material={outlineMaterial} position={[0, -0.02, 0]} />
+      )}
+    </group>
+  );
+}
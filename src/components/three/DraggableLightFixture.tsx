@@ -0,0 +1,87 @@
+import { useCallback } from 'react';
+import * as THREE from 'three';
+import { LightFixture } from '@/types/facility';
+import { useGroundDrag } from '@/hooks/useGroundDrag';
+
+interface DraggableLightFixtureProps {
+  fixture: LightFixture;
+  isSelected: boolean;
+  draggable?: boolean;
+  onSelect: (fixtureId: string) => void;
+  onMove: (fixtureId: string, x: number, z: number) => void;
+  onDragStateChange: (dragging: boolean) => void;
+}
+
+// Shared geometries - the beam is a unit cone scaled to each fixture
+const sharedGeometries = {
+  housing: new THREE.CylinderGeometry(0.3, 0.3, 0.12, 16),
+  lens: new THREE.CircleGeometry(0.26, 16),
+  beam: new THREE.ConeGeometry(1, 1, 32, 1, true),
+};
+
+const pooledMaterials = {
+  housing: new THREE.MeshStandardMaterial({ color: '#4b5563', roughness: 0.4, metalness: 0.6 }),
+  lens: new THREE.MeshBasicMaterial({ color: '#fef9c3' }),
+  lensSelected: new THREE.MeshBasicMaterial({ color: '#60a5fa' }),
+  beam: new THREE.MeshBasicMaterial({ color: '#fde68a', transparent: true, opacity: 0.12, side: THREE.DoubleSide, depthWrite: false }),
+};
+
+export function DraggableLightFixture({
+  fixture,
+  isSelected,
+  draggable = true,
+  onSelect,
+  onMove,
+  onDragStateChange,
+}: DraggableLightFixtureProps) {
+  const dragHandlers = useGroundDrag({
+    id: fixture.id,
+    x: fixture.x,
+    z: fixture.z,
+    draggable,
+    onSelect,
+    onMove,
+    onDragStateChange,
+  });
+
+  const handlePointerOver = useCallback(() => {
+    document.body.style.cursor = draggable ? 'grab' : 'pointer';
+  }, [draggable]);
+
+  const handlePointerOut = useCallback(() => {
+    document.body.style.cursor = 'auto';
+  }, []);
+
+  // Radius of the beam where it meets the floor
+  const beamRadius = fixture.height * Math.tan((Math.min(170, fixture.beamAngle) * Math.PI) / 360);
+
+  return (
+    <group position={[fixture.x, 0, fixture.z]}>
+      <mesh
+        {...dragHandlers}
+        onPointerOver={handlePointerOver}
+        onPointerOut={handlePointerOut}
+        geometry={sharedGeometries.housing}
+        material={pooledMaterials.housing}
+        position={[0, fixture.height + 0.06, 0]}
+      />
+      <mesh
+        geometry={sharedGeometries.lens}
+        material={isSelected ? pooledMaterials.lensSelected : pooledMaterials.lens}
+        position={[0, fixture.height - 0.001, 0]}
+        rotation={[Math.PI / 2, 0, 0]}
+      />
+
+      {/* Beam footprint, shown while the fixture is selected */}
+      {isSelected && (
+        <mesh
+          geometry={sharedGeometries.beam}
+          material={pooledMaterials.beam}
+          position={[0, fixture.height / 2, 0]}
+          scale={[beamRadius, fixture.height, beamRadius]}
+          raycast={() => null}
+        />
+      )}
+    </group>
+  );
+}
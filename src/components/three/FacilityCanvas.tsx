@@ -1,49 +1,132 @@
-import { useMemo } from 'react';
+import { useMemo, useState, useCallback } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { PickleballCourt } from './PickleballCourt';
-import { useFacilityStore } from '@/stores/facilityStore';
-import { COURT_WIDTH, COURT_LENGTH } from '@/types/facility';
-
-function FacilityScene() {
-  const { config, surfaceType, spacing, showNet, showLines } = useFacilityStore();
-
-  // Calculate court positions
-  const courtPositions = useMemo(() => {
-    const positions: Array<{ x: number; z: number; key: string }> = [];
-    const rows = config.rows;
-    const courtWidthWithSpacing = COURT_WIDTH + spacing;
-    const courtLengthWithSpacing = COURT_LENGTH + spacing;
-
-    for (let row = 0; row < rows; row++) {
-      const cols = config.mode === 'even' ? config.cols : config.rowLengths[row] ?? config.maxCols;
-      for (let col = 0; col < cols; col++) {
-        const x = col * courtWidthWithSpacing + COURT_WIDTH / 2;
-        const z = row * courtLengthWithSpacing + COURT_LENGTH / 2;
-        positions.push({ x, z, key: `${row}-${col}` });
-      }
-    }
-    return positions;
-  }, [config, spacing]);
+import { DraggableCourt } from './DraggableCourt';
+import { AmenityModel } from './AmenityModel';
+import { DraggableAmenity } from './DraggableAmenity';
+import { DraggableLightFixture } from './DraggableLightFixture';
+import { IlluminanceHeatmap } from './IlluminanceHeatmap';
+import { BuildingShell } from './BuildingShell';
+import { ComplianceOverlay } from './ComplianceOverlay';
+import { PlanViewToggle, SceneControls } from './SceneControls';
+import { MeasureTool, MeasureToggle } from './MeasureTool';
+import { FacilityLayout, useFacilityStore } from '@/stores/facilityStore';
+import { getCourtPlacements, findLayoutConflicts } from '@/lib/courtLayout';
+import { findBuildingIssues, getSceneBounds } from '@/lib/building';
+import { evaluateCompliance } from '@/lib/compliance';
+import { findAmenityIssues, getAmenityFootprint, getRunOff } from '@/lib/amenities';
+import { computeLightingReport } from '@/lib/lighting';
+import { COMPLIANCE_RULE_SETS } from '@/types/compliance';
+
+interface FacilityCanvasProps {
+  // Render this layout read-only instead of the editable facility
+  layout?: FacilityLayout;
+}
+
+interface FacilitySceneProps extends FacilityCanvasProps {
+  planView: boolean;
+}
+
+// Selection handler used in read-only views
+const ignoreSelect = () => {};
+
+function FacilityScene({ layout, planView }: FacilitySceneProps) {
+  const store = useFacilityStore();
+  const readOnly = layout !== undefined;
+  const {
+    config,
+    surfaceType,
+    spacing,
+    showNet,
+    showLines,
+    lineOverlays,
+    courtOverrides,
+    amenities,
+    building,
+    complianceRuleSetId,
+    lightFixtures,
+  } = layout ?? store;
+  const {
+    updateCourtPlacement,
+    updateAmenity,
+    updateLightFixture,
+  } = store;
+  const selectedCourtId = readOnly ? null : store.selectedCourtId;
+  const selectedAmenityId = readOnly ? null : store.selectedAmenityId;
+  const selectedFixtureId = readOnly ? null : store.selectedFixtureId;
+  const setSelectedCourtId = readOnly ? ignoreSelect : store.setSelectedCourtId;
+  const setSelectedAmenityId = readOnly ? ignoreSelect : store.setSelectedAmenityId;
+  const setSelectedFixtureId = readOnly ? ignoreSelect : store.setSelectedFixtureId;
+  const showIlluminance = !readOnly && store.showIlluminance;
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Court placements shared with Homebase and the pathfinder
+  const placements = useMemo(() => getCourtPlacements(config, spacing), [config, spacing]);
+
+  // Courts involved in overlaps, spacing violations or building collisions
+  const conflictedCourtIds = useMemo(() => {
+    const ids = new Set<string>();
+    findLayoutConflicts(placements, spacing).forEach((c) => c.courtIds.forEach((id) => ids.add(id)));
+    findBuildingIssues(placements, building, courtOverrides).forEach((issue) => ids.add(issue.courtId));
+    return ids;
+  }, [placements, spacing, building, courtOverrides]);
+
+  // Compliance violations for the selected rule set
+  const ruleSet = complianceRuleSetId ? COMPLIANCE_RULE_SETS[complianceRuleSetId] : null;
+  const complianceViolations = useMemo(() => {
+    return ruleSet ? evaluateCompliance(placements, building, ruleSet) : [];
+  }, [placements, building, ruleSet]);
+
+  // Amenities sitting on a court or inside its run-off
+  const conflictedAmenityIds = useMemo(() => {
+    return new Set(findAmenityIssues(placements, amenities, getRunOff(ruleSet)).map((issue) => issue.amenityId));
+  }, [placements, amenities, ruleSet]);
+
+  // Illuminance grids, only computed while the heatmap is shown
+  const lightingReport = useMemo(() => {
+    return showIlluminance ? computeLightingReport(placements, lightFixtures) : [];
+  }, [showIlluminance, placements, lightFixtures]);
+
+  const nonCompliantCourtIds = useMemo(() => {
+    return new Set(complianceViolations.flatMap((v) => v.courtIds));
+  }, [complianceViolations]);
+
+  // Scene extent, framed by the plan view
+  const sceneBounds = useMemo(
+    () => getSceneBounds(placements, building, amenities.map(getAmenityFootprint)),
+    [placements, building, amenities]
+  );
 
   // Calculate bounds for ground plane
   const bounds = useMemo(() => {
-    const rows = config.rows;
-    const maxCols = config.mode === 'even' ? config.cols : Math.max(...config.rowLengths, config.maxCols);
-    const width = maxCols * (COURT_WIDTH + spacing) - spacing + 4;
-    const length = rows * (COURT_LENGTH + spacing) - spacing + 4;
-    const centerX = (maxCols * (COURT_WIDTH + spacing) - spacing) / 2;
-    const centerZ = (rows * (COURT_LENGTH + spacing) - spacing) / 2;
-    return { width, length, centerX, centerZ };
-  }, [config, spacing]);
+    return {
+      width: sceneBounds.width + 4,
+      length: sceneBounds.length + 4,
+      centerX: sceneBounds.centerX,
+      centerZ: sceneBounds.centerZ,
+    };
+  }, [sceneBounds]);
 
   // Camera target
   const target = useMemo(() => {
     return new THREE.Vector3(bounds.centerX, 0, bounds.centerZ);
   }, [bounds]);
 
-  if (config.rows === 0 || (config.mode === 'even' && config.cols === 0)) {
+  const isFreeform = config.mode === 'freeform' && !readOnly;
+
+  const handleMove = useCallback((courtId: string, x: number, z: number) => {
+    updateCourtPlacement(courtId, { x, z });
+  }, [updateCourtPlacement]);
+
+  const handleAmenityMove = useCallback((amenityId: string, x: number, z: number) => {
+    updateAmenity(amenityId, { x, z });
+  }, [updateAmenity]);
+
+  const handleFixtureMove = useCallback((fixtureId: string, x: number, z: number) => {
+    updateLightFixture(fixtureId, { x, z });
+  }, [updateLightFixture]);
+
+  if (placements.length === 0) {
     return null;
   }
 
@@ -65,12 +148,14 @@ function FacilityScene() {
       />
       <directionalLight position={[-30, 50, -30]} intensity={0.3} />
 
-      {/* Controls */}
-      <OrbitControls
+      {/* Controls - disabled while a court is being dragged */}
+      <SceneControls
+        planView={planView}
         target={target}
-        minDistance={5}
-        maxDistance={200}
-        maxPolarAngle={Math.PI / 2 - 0.1}
+        bounds={sceneBounds}
+        placements={placements}
+        building={building}
+        enabled={!isDragging}
       />
 
       {/* Ground plane */}
@@ -78,33 +163,90 @@ function FacilityScene() {
         rotation={[-Math.PI / 2, 0, 0]}
         position={[bounds.centerX, -0.02, bounds.centerZ]}
         receiveShadow
+        onPointerDown={() => {
+          setSelectedCourtId(null);
+          setSelectedAmenityId(null);
+          setSelectedFixtureId(null);
+        }}
       >
         <planeGeometry args={[bounds.width, bounds.length]} />
         <meshStandardMaterial color="#1f2937" roughness={0.9} />
       </mesh>
 
+      {/* Building envelope */}
+      {building && <BuildingShell building={building} />}
+
+      {/* Compliance highlights */}
+      <ComplianceOverlay violations={complianceViolations} />
+
       {/* Courts */}
-      {courtPositions.map(({ x, z, key }) => (
-        <group key={key} position={[x, 0, z]}>
-          <PickleballCourt
-            surfaceType={surfaceType}
-            showNet={showNet}
-            showLines={showLines}
-          />
-        </group>
+      {placements.map((placement) => (
+        <DraggableCourt
+          key={placement.id}
+          placement={placement}
+          surfaceType={surfaceType}
+          overrides={courtOverrides[placement.id]}
+          showNet={showNet}
+          showLines={showLines}
+          lineOverlays={lineOverlays}
+          draggable={isFreeform}
+          isSelected={selectedCourtId === placement.id}
+          hasConflict={conflictedCourtIds.has(placement.id)}
+          hasWarning={nonCompliantCourtIds.has(placement.id)}
+          onSelect={setSelectedCourtId}
+          onMove={handleMove}
+          onDragStateChange={setIsDragging}
+        />
       ))}
+
+      {/* Amenities - always movable in Build mode */}
+      {amenities.map((amenity) => readOnly ? (
+        <AmenityModel key={amenity.id} amenity={amenity} />
+      ) : (
+        <DraggableAmenity
+          key={amenity.id}
+          amenity={amenity}
+          isSelected={selectedAmenityId === amenity.id}
+          hasConflict={conflictedAmenityIds.has(amenity.id)}
+          onSelect={setSelectedAmenityId}
+          onMove={handleAmenityMove}
+          onDragStateChange={setIsDragging}
+        />
+      ))}
+
+      {/* Overhead light fixtures */}
+      {lightFixtures.map((fixture) => (
+        <DraggableLightFixture
+          key={fixture.id}
+          fixture={fixture}
+          isSelected={selectedFixtureId === fixture.id}
+          draggable={!readOnly}
+          onSelect={setSelectedFixtureId}
+          onMove={handleFixtureMove}
+          onDragStateChange={setIsDragging}
+        />
+      ))}
+
+      {/* Computed illuminance heatmap */}
+      {lightingReport.map((illuminance, i) => (
+        <IlluminanceHeatmap key={illuminance.courtId} placement={placements[i]} illuminance={illuminance} />
+      ))}
+
+      {/* Distance measurements */}
+      {!readOnly && <MeasureTool placements={placements} />}
     </>
   );
 }
 
-export function FacilityCanvas() {
-  const { config, spacing } = useFacilityStore();
+export function FacilityCanvas({ layout }: FacilityCanvasProps) {
+  const store = useFacilityStore();
+  const { config, spacing, building } = layout ?? store;
+  const [planView, setPlanView] = useState(false);
 
   const initialCameraPosition = useMemo(() => {
-    const rows = config.rows;
-    const cols = config.mode === 'even' ? config.cols : config.maxCols;
-    const facilityWidth = cols * (COURT_WIDTH + spacing);
-    const facilityLength = rows * (COURT_LENGTH + spacing);
+    const layout = getSceneBounds(getCourtPlacements(config, spacing), building);
+    const facilityWidth = layout.maxX + spacing;
+    const facilityLength = layout.maxZ + spacing;
     const maxDim = Math.max(facilityWidth, facilityLength);
     const distance = maxDim * 1.2;
 
@@ -113,10 +255,14 @@ export function FacilityCanvas() {
       distance * 0.8,
       facilityLength / 2 + distance * 0.6,
     ] as [number, number, number];
-  }, [config, spacing]);
+  }, [config, spacing, building]);
 
   return (
-    <div className="w-full h-full bg-muted">
+    <div className="relative w-full h-full bg-muted">
+      <div className="absolute top-3 right-3 z-10 flex gap-2">
+        {!layout && <MeasureToggle />}
+        <PlanViewToggle planView={planView} onChange={setPlanView} />
+      </div>
       <Canvas
         shadows
         camera={{
@@ -126,7 +272,7 @@ export function FacilityCanvas() {
           position: initialCameraPosition,
         }}
       >
-        <FacilityScene />
+        <FacilityScene layout={layout} planView={planView} />
       </Canvas>
     </div>
   );
@@ -5,21 +5,23 @@
  import { PickleballBall } from './PickleballBall';
  import { Scoreboard3D } from './Scoreboard3D';
  import { AnimatedPlayer } from './AnimatedPlayer';
+ import { CourtFrame } from '@/types/game';
  
  interface GameSessionProps {
    courtId: string;
-   courtPosition: { x: number; z: number };
+   court: CourtFrame;
+   seed: number;
    isActive: boolean;
  }
  
- export function GameSession({ courtId, courtPosition, isActive }: GameSessionProps) {
+ export function GameSession({ courtId, court, seed, isActive }: GameSessionProps) {
    const { initializeGame, updateGame, endGame, getGame } = useGameStore();
    const tier = usePerformanceStore(state => state.tier);
    
    // Initialize game when court becomes active
    useEffect(() => {
      if (isActive) {
-       initializeGame(courtId, courtPosition);
+       initializeGame(courtId, court, seed);
      } else {
        endGame(courtId);
      }
@@ -27,7 +29,7 @@
      return () => {
        endGame(courtId);
      };
-   }, [isActive, courtId, courtPosition.x, courtPosition.z]);
+   }, [isActive, courtId, court.x, court.z, court.rotation, seed]);
    
    // Update game physics
    useFrame((_, delta) => {
@@ -58,7 +60,7 @@
        ))}
        
        {/* Scoreboard */}
-       <Scoreboard3D gameState={game} courtPosition={courtPosition} />
+       <Scoreboard3D gameState={game} courtPosition={court} />
      </group>
    );
  }
\ No newline at end of file
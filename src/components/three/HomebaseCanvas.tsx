@@ -1,19 +1,26 @@
-import { useMemo, useCallback } from 'react';
+import { useMemo, useCallback, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { useFrame } from '@react-three/fiber';
-import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
 import { SelectableCourt } from './SelectableCourt';
 import { CourtStatusLabel } from './CourtStatusLabel';
 import { CleaningRobotCC1 } from './CleaningRobotCC1';
 import { RobotDock } from './RobotDock';
+import { AmenityModel } from './AmenityModel';
+import { BuildingShell } from './BuildingShell';
 import { GameSession } from './GameSession';
+import { PlanViewToggle, SceneControls } from './SceneControls';
+import { MeasureTool, MeasureToggle } from './MeasureTool';
 import { useSimulationStore } from '@/stores/simulationStore';
 import { useFacilityStore } from '@/stores/facilityStore';
+import { useCourtNamer } from '@/hooks/useCourtNamer';
 import { usePerformanceStore } from '@/stores/performanceStore';
 import { useSimulation } from '@/hooks/useSimulation';
-import { useRobotController } from '@/hooks/useRobotController';
-import { COURT_WIDTH, COURT_LENGTH, Booking } from '@/types/facility';
+import { Booking } from '@/types/facility';
+import { getCourtPlacements } from '@/lib/courtLayout';
+import { getSceneBounds } from '@/lib/building';
+import { getAmenityFootprint } from '@/lib/amenities';
+import { deriveSeed } from '@/lib/random';
 
 // Performance tracking component
 function PerformanceTracker() {
@@ -27,9 +34,20 @@ function PerformanceTracker() {
   return null;
 }
 
-function HomebaseScene() {
-  const { config, surfaceType, spacing, showNet, showLines } = useFacilityStore();
+function HomebaseScene({ planView }: { planView: boolean }) {
+  const {
+    config,
+    surfaceType,
+    spacing,
+    showNet,
+    showLines,
+    lineOverlays,
+    building,
+    courtOverrides,
+    amenities,
+  } = useFacilityStore();
   const { tier, config: perfConfig } = usePerformanceStore();
+  const courtName = useCourtNamer();
   const { 
     courts, 
     bookings, 
@@ -38,31 +56,15 @@ function HomebaseScene() {
     dockPosition,
     selectCourt,
     multiSelectMode,
+    seed,
+    robotMotion,
   } = useSimulationStore();
 
   // Initialize simulation
   useSimulation();
   
-  // Robot controller for pathfinding
-  const { getRobotRotation } = useRobotController();
-
-  // Calculate court positions
-  const courtPositions = useMemo(() => {
-    const positions: Array<{ x: number; z: number; id: string; row: number; col: number }> = [];
-    const rows = config.rows;
-    const courtWidthWithSpacing = COURT_WIDTH + spacing;
-    const courtLengthWithSpacing = COURT_LENGTH + spacing;
-
-    for (let row = 0; row < rows; row++) {
-      const cols = config.mode === 'even' ? config.cols : config.rowLengths[row] ?? config.maxCols;
-      for (let col = 0; col < cols; col++) {
-        const x = col * courtWidthWithSpacing + COURT_WIDTH / 2;
-        const z = row * courtLengthWithSpacing + COURT_LENGTH / 2;
-        positions.push({ x, z, id: `court-${row}-${col}`, row, col });
-      }
-    }
-    return positions;
-  }, [config, spacing]);
+  // Court placements shared with Build mode and the pathfinder
+  const courtPositions = useMemo(() => getCourtPlacements(config, spacing), [config, spacing]);
 
   // Get active bookings for each court
   const activeBookingsByCourtId = useMemo(() => {
@@ -99,17 +101,21 @@ function HomebaseScene() {
     return new THREE.Vector3(avgX, 0, avgZ);
   }, [courtPositions]);
 
+  // Scene extent, framed by the plan view
+  const sceneBounds = useMemo(
+    () => getSceneBounds(courtPositions, building, amenities.map(getAmenityFootprint)),
+    [courtPositions, building, amenities]
+  );
+
   // Calculate ground plane size
   const groundSize = useMemo(() => {
-    const rows = config.rows;
-    const maxCols = config.mode === 'even' ? config.cols : Math.max(...config.rowLengths, config.maxCols);
     return {
-      width: maxCols * (COURT_WIDTH + spacing) + 6,
-      length: rows * (COURT_LENGTH + spacing) + 6,
-      centerX: (maxCols * (COURT_WIDTH + spacing) - spacing) / 2,
-      centerZ: (rows * (COURT_LENGTH + spacing) - spacing) / 2,
+      width: sceneBounds.width + spacing + 6,
+      length: sceneBounds.length + spacing + 6,
+      centerX: sceneBounds.centerX,
+      centerZ: sceneBounds.centerZ,
     };
-  }, [config, spacing]);
+  }, [sceneBounds, spacing]);
 
   // Check if robot is at dock
   const robotAtDock = useMemo(() => {
@@ -145,11 +151,12 @@ function HomebaseScene() {
       <PerformanceTracker />
 
       {/* Controls */}
-      <OrbitControls
+      <SceneControls
+        planView={planView}
         target={cameraTarget}
-        minDistance={5}
-        maxDistance={200}
-        maxPolarAngle={Math.PI / 2 - 0.1}
+        bounds={sceneBounds}
+        placements={courtPositions}
+        building={building}
       />
 
       {/* Ground plane */}
@@ -162,32 +169,45 @@ function HomebaseScene() {
         <meshStandardMaterial color="#1f2937" roughness={0.9} />
       </mesh>
 
+      {/* Building envelope */}
+      {building && <BuildingShell building={building} />}
+
+      {/* Amenities */}
+      {amenities.map((amenity) => (
+        <AmenityModel key={amenity.id} amenity={amenity} />
+      ))}
+
       {/* Robot dock */}
       <RobotDock position={dockPosition} hasRobot={robotAtDock} />
 
       {/* Courts */}
-      {courtPositions.map(({ x, z, id }) => {
+      {courtPositions.map(({ x, z, id, rotation }) => {
         const courtState = courts.get(id);
         if (!courtState) return null;
+        const activeBooking = activeBookingsByCourtId.get(id);
 
         return (
           <group key={id}>
             <SelectableCourt
               courtState={courtState}
               surfaceType={surfaceType}
+              overrides={courtOverrides[id]}
               showNet={showNet}
               showLines={showLines}
+              lineOverlays={lineOverlays}
               position={{ x, z }}
+              rotation={rotation}
               isSelected={selectedCourtIds.has(id)}
               onSelect={handleCourtSelect}
             />
-            <CourtStatusLabel courtState={courtState} position={{ x, z }} />
+            <CourtStatusLabel courtState={courtState} label={courtName(id)} position={{ x, z }} />
             
-            {/* Game session for active courts */}
-            {activeBookingsByCourtId.has(id) && (
+            {/* Game session for active courts, seeded per booking so runs replay */}
+            {activeBooking && (
               <GameSession
                 courtId={id}
-                courtPosition={{ x, z }}
+                court={{ x, z, rotation }}
+                seed={deriveSeed(seed, `${id}@${activeBooking.startTime}`)}
                 isActive={true}
               />
             )}
@@ -200,25 +220,28 @@ function HomebaseScene() {
         <CleaningRobotCC1
           key={robot.id}
           position={robot.position}
-          rotation={getRobotRotation(robot.id)}
+          rotation={robotMotion.get(robot.id)?.rotation ?? 0}
           status={robot.status}
           battery={robot.battery}
         />
       ))}
+
+      {/* Distance measurements */}
+      <MeasureTool placements={courtPositions} />
     </>
   );
 }
 
 export function HomebaseCanvas() {
-  const { config, spacing } = useFacilityStore();
+  const { config, spacing, building } = useFacilityStore();
   const { config: perfConfig } = usePerformanceStore();
+  const [planView, setPlanView] = useState(false);
   
   // Calculate initial camera position
   const initialCameraPosition = useMemo(() => {
-    const rows = config.rows;
-    const cols = config.mode === 'even' ? config.cols : config.maxCols;
-    const facilityWidth = cols * (COURT_WIDTH + spacing);
-    const facilityLength = rows * (COURT_LENGTH + spacing);
+    const layout = getSceneBounds(getCourtPlacements(config, spacing), building);
+    const facilityWidth = layout.maxX + spacing;
+    const facilityLength = layout.maxZ + spacing;
     const maxDim = Math.max(facilityWidth, facilityLength);
     const distance = maxDim * 1.5;
     
@@ -227,10 +250,14 @@ export function HomebaseCanvas() {
       distance * 0.6,
       facilityLength / 2 + distance * 0.4,
     ] as [number, number, number];
-  }, [config, spacing]);
+  }, [config, spacing, building]);
 
   return (
-    <div className="w-full h-full bg-muted">
+    <div className="relative w-full h-full bg-muted">
+      <div className="absolute top-3 right-3 z-10 flex gap-2">
+        <MeasureToggle />
+        <PlanViewToggle planView={planView} onChange={setPlanView} />
+      </div>
       <Canvas
         shadows={perfConfig.shadows}
         dpr={perfConfig.pixelRatio}
@@ -245,7 +272,7 @@ export function HomebaseCanvas() {
           position: initialCameraPosition,
         }}
       >
-        <HomebaseScene />
+        <HomebaseScene planView={planView} />
       </Canvas>
     </div>
   );
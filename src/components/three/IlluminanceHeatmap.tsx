@@ -0,0 +1,53 @@
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { CourtPlacement, COURT_WIDTH, COURT_LENGTH } from '@/types/facility';
+import { getCourtRotationRadians } from '@/lib/courtLayout';
+import { CourtIlluminance, getHeatmapColor } from '@/lib/lighting';
+
+interface IlluminanceHeatmapProps {
+  placement: CourtPlacement;
+  illuminance: CourtIlluminance;
+}
+
+const heatmapGeometry = new THREE.PlaneGeometry(COURT_WIDTH, COURT_LENGTH);
+
+/**
+ * Computed lux over a court's playing surface, drawn as an unlit color overlay
+ * so it is unaffected by the scene's own lights
+ */
+export function IlluminanceHeatmap({ placement, illuminance }: IlluminanceHeatmapProps) {
+  const texture = useMemo(() => {
+    const { cols, rows, values } = illuminance;
+    const data = new Uint8Array(cols * rows * 4);
+    values.forEach((lux, i) => {
+      // Texture rows run from the plane's bottom edge, which faces the court's +Z baseline
+      const row = rows - 1 - Math.floor(i / cols);
+      const offset = (row * cols + (i % cols)) * 4;
+      const [r, g, b] = getHeatmapColor(lux);
+      data.set([r, g, b, 255], offset);
+    });
+    const map = new THREE.DataTexture(data, cols, rows, THREE.RGBAFormat);
+    map.magFilter = THREE.LinearFilter;
+    map.colorSpace = THREE.SRGBColorSpace;
+    map.needsUpdate = true;
+    return map;
+  }, [illuminance]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return (
+    <group
+      position={[placement.x, 0, placement.z]}
+      rotation={[0, getCourtRotationRadians(placement.rotation), 0]}
+    >
+      <mesh
+        geometry={heatmapGeometry}
+        position={[0, 0.025, 0]}
+        rotation={[-Math.PI / 2, 0, 0]}
+        raycast={() => null}
+      >
+        <meshBasicMaterial map={texture} transparent opacity={0.75} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+}
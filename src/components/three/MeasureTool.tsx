@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { Html, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { Button } from '@/components/ui/button';
+import { Ruler } from 'lucide-react';
+import { CourtPlacement, Point2D } from '@/types/facility';
+import { useMeasurementStore } from '@/stores/measurementStore';
+import { usePreferencesStore } from '@/stores/preferencesStore';
+import {
+  Measurement,
+  SnapTarget,
+  findSnapTarget,
+  getMeasurementSegments,
+  getSnapTargets,
+} from '@/lib/measurement';
+import { UnitSystem, formatDualLength } from '@/lib/units';
+
+interface MeasureToolProps {
+  placements: CourtPlacement[];
+}
+
+const MEASURE_COLOR = '#f472b6';
+const SNAP_COLOR = '#22d3ee';
+
+// Measurements float just above the court lines
+const MEASURE_Y = 0.06;
+
+// Pointer travel (pixels) above which a press counts as an orbit drag, not a click
+const CLICK_TOLERANCE = 4;
+
+const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const groundPoint = new THREE.Vector3();
+const markerGeometry = new THREE.SphereGeometry(0.08, 12, 8);
+
+// Every ray that reaches the floor hits the capture mesh first, so while measuring
+// clicks never select or drag the courts and objects underneath
+function captureRaycast(this: THREE.Mesh, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+  if (!raycaster.ray.intersectPlane(groundPlane, groundPoint)) return;
+  intersects.push({ distance: 0, point: groundPoint.clone(), object: this });
+}
+
+const toVector = (p: Point2D) => [p.x, MEASURE_Y, p.z] as [number, number, number];
+
+function DistanceLabel({ position, text, bold }: { position: Point2D; text: string; bold?: boolean }) {
+  return (
+    <Html position={toVector(position)} center style={{ pointerEvents: 'none' }}>
+      <div
+        className={`bg-background/90 px-1 rounded text-[10px] font-mono whitespace-nowrap select-none ${bold ? 'font-bold' : ''}`}
+        style={{ color: MEASURE_COLOR }}
+      >
+        {text}
+      </div>
+    </Html>
+  );
+}
+
+function MeasurementPath({ measurement, units }: { measurement: Measurement; units: UnitSystem }) {
+  const segments = useMemo(() => getMeasurementSegments(measurement.points), [measurement.points]);
+  const last = segments[segments.length - 1];
+
+  return (
+    <group>
+      {measurement.points.length >= 2 && (
+        <Line points={measurement.points.map(toVector)} color={MEASURE_COLOR} lineWidth={2} />
+      )}
+      {measurement.points.map((point, i) => (
+        <mesh key={i} geometry={markerGeometry} position={toVector(point)}>
+          <meshBasicMaterial color={MEASURE_COLOR} />
+        </mesh>
+      ))}
+      {segments.map((segment, i) => (
+        <DistanceLabel
+          key={i}
+          position={{ x: (segment.start.x + segment.end.x) / 2, z: (segment.start.z + segment.end.z) / 2 }}
+          text={formatDualLength(segment.length, units)}
+        />
+      ))}
+      {segments.length > 1 && (
+        <DistanceLabel position={last.end} text={`Σ ${formatDualLength(last.cumulative, units)}`} bold />
+      )}
+    </group>
+  );
+}
+
+/**
+ * Distance measurements drawn on the floor. While measure mode is on, clicks on
+ * the ground or court surfaces add points to the active measurement, snapping to
+ * court corners, line intersections and net posts. Double-click or Escape ends
+ * the measurement; Escape again leaves measure mode.
+ */
+export function MeasureTool({ placements }: MeasureToolProps) {
+  const {
+    measureMode,
+    measurements,
+    activeMeasurementId,
+    setMeasureMode,
+    addPoint,
+    finishMeasurement,
+  } = useMeasurementStore();
+  const units = usePreferencesStore((state) => state.units);
+  const [hover, setHover] = useState<{ point: Point2D; snap: SnapTarget | null } | null>(null);
+  const pressPosition = useRef<{ x: number; y: number } | null>(null);
+
+  const snapTargets = useMemo(() => getSnapTargets(placements), [placements]);
+  const active = measurements.find((m) => m.id === activeMeasurementId);
+  const lastPoint = active?.points[active.points.length - 1];
+
+  const resolvePoint = useCallback((e: ThreeEvent<PointerEvent | MouseEvent>) => {
+    const point = { x: e.point.x, z: e.point.z };
+    const snap = findSnapTarget(point, snapTargets);
+    return { point: snap ? snap.point : point, snap };
+  }, [snapTargets]);
+
+  useEffect(() => {
+    if (!measureMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      if (useMeasurementStore.getState().activeMeasurementId) finishMeasurement();
+      else setMeasureMode(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [measureMode, finishMeasurement, setMeasureMode]);
+
+  useEffect(() => {
+    if (!measureMode) setHover(null);
+  }, [measureMode]);
+
+  const handlePointerDown = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    pressPosition.current = { x: e.nativeEvent.clientX, y: e.nativeEvent.clientY };
+  }, []);
+
+  const handlePointerUp = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const press = pressPosition.current;
+    pressPosition.current = null;
+    if (!press || Math.hypot(e.nativeEvent.clientX - press.x, e.nativeEvent.clientY - press.y) > CLICK_TOLERANCE) return;
+    addPoint(resolvePoint(e).point);
+  }, [addPoint, resolvePoint]);
+
+  const handlePointerMove = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    setHover(resolvePoint(e));
+  }, [resolvePoint]);
+
+  const handleDoubleClick = useCallback((e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    finishMeasurement();
+  }, [finishMeasurement]);
+
+  return (
+    <>
+      {measurements.map((measurement) => (
+        <MeasurementPath key={measurement.id} measurement={measurement} units={units} />
+      ))}
+
+      {measureMode && (
+        <>
+          <mesh
+            visible={false}
+            raycast={captureRaycast}
+            onPointerDown={handlePointerDown}
+            onPointerUp={handlePointerUp}
+            onPointerMove={handlePointerMove}
+            onDoubleClick={handleDoubleClick}
+            onPointerOver={() => { document.body.style.cursor = 'crosshair'; }}
+            onPointerOut={() => {
+              document.body.style.cursor = 'auto';
+              setHover(null);
+            }}
+          />
+
+          {/* Cursor marker and the segment it would add */}
+          {hover && (
+            <mesh geometry={markerGeometry} position={toVector(hover.point)} scale={hover.snap ? 1.6 : 1}>
+              <meshBasicMaterial color={hover.snap ? SNAP_COLOR : MEASURE_COLOR} />
+            </mesh>
+          )}
+          {hover && lastPoint && (
+            <>
+              <Line
+                points={[toVector(lastPoint), toVector(hover.point)]}
+                color={MEASURE_COLOR}
+                lineWidth={1.5}
+                dashed
+                dashSize={0.3}
+                gapSize={0.2}
+              />
+              <DistanceLabel
+                position={{ x: (lastPoint.x + hover.point.x) / 2, z: (lastPoint.z + hover.point.z) / 2 }}
+                text={formatDualLength(Math.hypot(hover.point.x - lastPoint.x, hover.point.z - lastPoint.z), units)}
+              />
+            </>
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
+/**
+ * Overlay button switching measure mode on and off
+ */
+export function MeasureToggle() {
+  const { measureMode, setMeasureMode } = useMeasurementStore();
+
+  return (
+    <Button
+      variant={measureMode ? 'default' : 'secondary'}
+      size="sm"
+      className="h-8 gap-2 text-xs shadow"
+      onClick={() => setMeasureMode(!measureMode)}
+    >
+      <Ruler className="h-4 w-4" />
+      {measureMode ? 'Measuring' : 'Measure'}
+    </Button>
+  );
+}
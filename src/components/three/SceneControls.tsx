@@ -0,0 +1,180 @@
+import { useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Html, Line, MapControls, OrbitControls, OrthographicCamera } from '@react-three/drei';
+import * as THREE from 'three';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { Button } from '@/components/ui/button';
+import { Box, Map as MapIcon } from 'lucide-react';
+import { BuildingEnvelope, CourtPlacement } from '@/types/facility';
+import { LayoutBounds } from '@/lib/courtLayout';
+import { DimensionKind, DimensionLine, computePlanDimensions, getScaleBarLength } from '@/lib/planDimensions';
+import { UnitSystem, formatLength, fromDisplay, toDisplay, unitLabel } from '@/lib/units';
+import { usePreferencesStore } from '@/stores/preferencesStore';
+
+interface SceneControlsProps {
+  planView: boolean;
+  target: THREE.Vector3; // default orbit target
+  bounds: LayoutBounds; // area framed by the plan view
+  placements: CourtPlacement[];
+  building: BuildingEnvelope | null;
+  enabled?: boolean; // false while an object is being dragged
+}
+
+const DIMENSION_COLORS: Record<DimensionKind, string> = {
+  footprint: '#f8fafc',
+  separation: '#facc15',
+  aisle: '#38bdf8',
+};
+
+// Length of the end ticks on dimension lines (meters)
+const TICK_SIZE = 0.3;
+
+// Plan view leaves this fraction of the canvas around the framed area
+const PLAN_MARGIN = 1.2;
+
+// Widest the scale bar may get (pixels)
+const SCALE_BAR_MAX_PX = 160;
+
+function DimensionAnnotation({ dimension, units }: { dimension: DimensionLine; units: UnitSystem }) {
+  const { start, end, length, kind } = dimension;
+  const color = DIMENSION_COLORS[kind];
+  // Unit normal to the line, for the end ticks
+  const nx = -(end.z - start.z) / length;
+  const nz = (end.x - start.x) / length;
+  const tick = (p: { x: number; z: number }) => [
+    [p.x - nx * TICK_SIZE, 0.05, p.z - nz * TICK_SIZE],
+    [p.x + nx * TICK_SIZE, 0.05, p.z + nz * TICK_SIZE],
+  ] as [number, number, number][];
+
+  return (
+    <group>
+      <Line points={[[start.x, 0.05, start.z], [end.x, 0.05, end.z]]} color={color} lineWidth={1.5} />
+      <Line points={tick(start)} color={color} lineWidth={1.5} />
+      <Line points={tick(end)} color={color} lineWidth={1.5} />
+      <Html
+        position={[(start.x + end.x) / 2, 0.05, (start.z + end.z) / 2]}
+        center
+        style={{ pointerEvents: 'none' }}
+      >
+        <div
+          className="bg-background/90 px-1 rounded text-[10px] font-mono whitespace-nowrap select-none"
+          style={{ color: kind === 'footprint' ? undefined : color }}
+        >
+          {formatLength(length, units)}
+        </div>
+      </Html>
+    </group>
+  );
+}
+
+function ScaleBar({ units }: { units: UnitSystem }) {
+  const camera = useThree((state) => state.camera);
+  const [zoom, setZoom] = useState(camera.zoom);
+
+  // Orthographic zoom is pixels per meter; only re-render when it changes
+  useFrame(() => {
+    if (camera.zoom !== zoom) setZoom(camera.zoom);
+  });
+
+  // Round length in the display unit, drawn at its size in meters
+  const length = getScaleBarLength(toDisplay(SCALE_BAR_MAX_PX / zoom, 'length', units));
+
+  return (
+    <Html fullscreen style={{ pointerEvents: 'none' }}>
+      <div className="absolute bottom-4 left-4 select-none">
+        <div className="h-1.5 border-x-2 border-b-2 border-foreground" style={{ width: fromDisplay(length, 'length', units) * zoom }} />
+        <div className="mt-0.5 text-[10px] font-mono text-foreground">{length} {unitLabel('length', units)}</div>
+      </div>
+    </Html>
+  );
+}
+
+function PlanView({ bounds, placements, building, enabled }: Omit<SceneControlsProps, 'planView' | 'target'>) {
+  const size = useThree((state) => state.size);
+  const units = usePreferencesStore((state) => state.units);
+  const dimensions = useMemo(() => computePlanDimensions(placements, building), [placements, building]);
+  const center = useMemo(() => new THREE.Vector3(bounds.centerX, 0, bounds.centerZ), [bounds]);
+  // Fit the whole scene, with the footprint dimensions just outside it
+  const zoom = Math.min(
+    size.width / ((bounds.width + 4) * PLAN_MARGIN),
+    size.height / ((bounds.length + 4) * PLAN_MARGIN)
+  );
+
+  return (
+    <>
+      <OrthographicCamera
+        makeDefault
+        position={[bounds.centerX, 100, bounds.centerZ]}
+        zoom={zoom}
+        near={0.1}
+        far={1000}
+      />
+      <MapControls
+        makeDefault
+        target={center}
+        enabled={enabled}
+        enableRotate={false}
+        screenSpacePanning
+        minZoom={1}
+        maxZoom={200}
+      />
+      {dimensions.map((dimension, i) => (
+        <DimensionAnnotation key={i} dimension={dimension} units={units} />
+      ))}
+      <ScaleBar units={units} />
+    </>
+  );
+}
+
+/**
+ * Camera controls shared by the Build and Homebase scenes: a perspective orbit
+ * view, or a top-down orthographic plan view with dimensions and a scale bar.
+ * The perspective camera is left untouched while the plan view is shown, and
+ * its orbit target is kept, so switching back restores the previous view.
+ */
+export function SceneControls({ planView, target, enabled = true, ...planProps }: SceneControlsProps) {
+  const orbitRef = useRef<OrbitControlsImpl>(null);
+  // Last orbit target the user moved to, valid while the default target is unchanged
+  const savedTarget = useRef<{ base: THREE.Vector3; value: THREE.Vector3 } | null>(null);
+  const orbitTarget = savedTarget.current?.base === target ? savedTarget.current.value : target;
+
+  if (planView) {
+    return <PlanView {...planProps} enabled={enabled} />;
+  }
+
+  return (
+    <OrbitControls
+      ref={orbitRef}
+      target={orbitTarget}
+      enabled={enabled}
+      minDistance={5}
+      maxDistance={200}
+      maxPolarAngle={Math.PI / 2 - 0.1}
+      onEnd={() => {
+        if (orbitRef.current) savedTarget.current = { base: target, value: orbitRef.current.target.clone() };
+      }}
+    />
+  );
+}
+
+interface PlanViewToggleProps {
+  planView: boolean;
+  onChange: (planView: boolean) => void;
+}
+
+/**
+ * Overlay button switching a canvas between the 3D and plan views
+ */
+export function PlanViewToggle({ planView, onChange }: PlanViewToggleProps) {
+  return (
+    <Button
+      variant="secondary"
+      size="sm"
+      className="h-8 gap-2 text-xs shadow"
+      onClick={() => onChange(!planView)}
+    >
+      {planView ? <Box className="h-4 w-4" /> : <MapIcon className="h-4 w-4" />}
+      {planView ? '3D View' : 'Plan View'}
+    </Button>
+  );
+}
@@ -5,17 +5,25 @@ import { PickleballCourt } from './PickleballCourt';
 import {
   SurfaceType,
   CourtState,
+  CourtRotation,
+  CourtOverrides,
+  OverlaySport,
   COURT_WIDTH,
   COURT_LENGTH,
   getStatusColor,
 } from '@/types/facility';
+import { getCourtRotationRadians } from '@/lib/courtLayout';
+import { getCourtLineOverlays, getCourtSurface } from '@/lib/courtAttributes';
 
 interface SelectableCourtProps {
   courtState: CourtState;
   surfaceType: SurfaceType;
+  overrides?: CourtOverrides;
   showNet: boolean;
   showLines: boolean;
+  lineOverlays: OverlaySport[]; // facility-wide overlays; per-court overrides take precedence
   position: { x: number; z: number };
+  rotation?: CourtRotation;
   isSelected: boolean;
   onSelect: (courtId: string, shiftKey: boolean) => void;
 }
@@ -62,14 +70,20 @@ function getStatusRingMaterial(color: string, opacity: number): THREE.MeshBasicM
 export function SelectableCourt({
   courtState,
   surfaceType,
+  overrides,
   showNet,
   showLines,
+  lineOverlays,
   position,
+  rotation = 0,
   isSelected,
   onSelect,
 }: SelectableCourtProps) {
   const [isHovered, setIsHovered] = useState(false);
 
+  const surface = useMemo(() => getCourtSurface(surfaceType, overrides), [surfaceType, overrides]);
+  const courtLineOverlays = getCourtLineOverlays(lineOverlays, overrides);
+
   const handleClick = useCallback((e: ThreeEvent<MouseEvent>) => {
     e.stopPropagation();
     onSelect(courtState.id, e.shiftKey || e.ctrlKey || e.metaKey);
@@ -104,7 +118,7 @@ export function SelectableCourt({
   const statusRingMaterial = getStatusRingMaterial(statusColor, ringOpacity);
 
   return (
-    <group position={[position.x, 0, position.z]}>
+    <group position={[position.x, 0, position.z]} rotation={[0, getCourtRotationRadians(rotation), 0]}>
       {/* Invisible click target */}
       <mesh
         onClick={handleClick}
@@ -117,7 +131,14 @@ export function SelectableCourt({
       </mesh>
 
       {/* The court itself */}
-      <PickleballCourt surfaceType={surfaceType} showNet={showNet} showLines={showLines} />
+      <PickleballCourt
+        surfaceType={surface.surfaceType}
+        surfaceColor={surface.color}
+        kitchenColor={surface.kitchenColor}
+        showNet={showNet}
+        showLines={showLines}
+        lineOverlays={courtLineOverlays}
+      />
 
       {/* Dirty overlay */}
       {dirtyOverlayMaterial && (
@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import { useFacilityStore } from '@/stores/facilityStore';
+import { getCourtPlacements } from '@/lib/courtLayout';
+import { CourtNamer, createCourtNamer } from '@/lib/courtNaming';
+
+/**
+ * Court label resolver for the active facility, updated when the layout,
+ * naming scheme or custom names change
+ */
+export function useCourtNamer(): CourtNamer {
+  const config = useFacilityStore((s) => s.config);
+  const spacing = useFacilityStore((s) => s.spacing);
+  const courtNamingScheme = useFacilityStore((s) => s.courtNamingScheme);
+  const courtOverrides = useFacilityStore((s) => s.courtOverrides);
+
+  return useMemo(
+    () => createCourtNamer(getCourtPlacements(config, spacing), courtNamingScheme, courtOverrides),
+    [config, spacing, courtNamingScheme, courtOverrides]
+  );
+}
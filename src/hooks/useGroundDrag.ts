@@ -0,0 +1,60 @@
+import { useCallback, useRef } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { snapToGrid } from '@/lib/courtLayout';
+
+interface GroundDragOptions {
+  id: string;
+  x: number;
+  z: number;
+  draggable?: boolean;
+  onSelect: (id: string) => void;
+  onMove: (id: string, x: number, z: number) => void;
+  onDragStateChange: (dragging: boolean) => void;
+}
+
+// Ground plane used to project drag pointer rays
+const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const dragPoint = new THREE.Vector3();
+
+/**
+ * Pointer handlers that select an object on press and drag it across the floor,
+ * snapped to the placement grid. Shared by courts, amenities and light fixtures.
+ */
+export function useGroundDrag({ id, x, z, draggable = true, onSelect, onMove, onDragStateChange }: GroundDragOptions) {
+  // Offset between the object center and the grabbed point, set while dragging
+  const dragOffset = useRef<{ x: number; z: number } | null>(null);
+
+  const onPointerDown = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    onSelect(id);
+    if (!draggable) return;
+
+    if (!e.ray.intersectPlane(groundPlane, dragPoint)) return;
+    dragOffset.current = { x: x - dragPoint.x, z: z - dragPoint.z };
+    (e.target as Element).setPointerCapture(e.pointerId);
+    onDragStateChange(true);
+  }, [id, x, z, draggable, onSelect, onDragStateChange]);
+
+  const onPointerMove = useCallback((e: ThreeEvent<PointerEvent>) => {
+    if (!dragOffset.current) return;
+    e.stopPropagation();
+    if (!e.ray.intersectPlane(groundPlane, dragPoint)) return;
+
+    const nextX = snapToGrid(dragPoint.x + dragOffset.current.x);
+    const nextZ = snapToGrid(dragPoint.z + dragOffset.current.z);
+    if (nextX !== x || nextZ !== z) {
+      onMove(id, nextX, nextZ);
+    }
+  }, [id, x, z, onMove]);
+
+  const onPointerUp = useCallback((e: ThreeEvent<PointerEvent>) => {
+    if (!dragOffset.current) return;
+    e.stopPropagation();
+    dragOffset.current = null;
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    onDragStateChange(false);
+  }, [onDragStateChange]);
+
+  return { onPointerDown, onPointerMove, onPointerUp };
+}
@@ -1,36 +1,66 @@
-import { useEffect, useCallback } from 'react';
+import { useEffect, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { useSimulationStore } from '@/stores/simulationStore';
 import { useFacilityStore } from '@/stores/facilityStore';
+import { getCourtPlacements } from '@/lib/courtLayout';
+import { FacilityPathfinder } from '@/lib/pathfinding';
+import { SimulationEnvironment } from '@/lib/simulationEngine';
+import { useCourtNamer } from './useCourtNamer';
 
+/**
+ * Engine inputs for the active facility: pathfinder, robot settings, opening
+ * hours and court names
+ */
+export function useSimulationEnvironment(): SimulationEnvironment {
+  const { config, spacing, building, amenities, robotSettings, schedulingSettings } = useFacilityStore();
+  const { operatingHoursStart, operatingHoursEnd } = schedulingSettings;
+  const courtName = useCourtNamer();
+
+  const pathfinder = useMemo(
+    () => new FacilityPathfinder(getCourtPlacements(config, spacing), spacing, building, amenities),
+    [config, spacing, building, amenities]
+  );
+
+  return useMemo(
+    () => ({
+      pathfinder,
+      robotSettings,
+      operatingHours: { start: operatingHoursStart, end: operatingHoursEnd },
+      courtName,
+    }),
+    [pathfinder, robotSettings, operatingHoursStart, operatingHoursEnd, courtName]
+  );
+}
+
+/**
+ * Drive the simulation engine from the render loop. All booking, cleaning and
+ * robot logic lives in lib/simulationEngine; this only feeds it frame time.
+ */
 export function useSimulation() {
-  const { config } = useFacilityStore();
-  const { 
-    isPlaying, 
-    speed, 
-    tick, 
+  const { config, spacing } = useFacilityStore();
+  const {
+    isPlaying,
+    speed,
+    tick,
     initializeCourts,
     currentTime,
   } = useSimulationStore();
+  const environment = useSimulationEnvironment();
+
+  const placements = useMemo(() => getCourtPlacements(config, spacing), [config, spacing]);
 
-  // Initialize courts when config changes
+  // Initialize courts when the layout changes
   useEffect(() => {
-    const rows = config.rows;
-    if (config.mode === 'even') {
-      initializeCourts(rows, config.cols);
-    } else {
-      initializeCourts(rows, config.maxCols, config.rowLengths);
-    }
-  }, [config, initializeCourts]);
-
-  // Simulation tick driven by useFrame for smooth animation
+    initializeCourts(placements);
+  }, [placements, initializeCourts]);
+
   useFrame((_, delta) => {
     if (!isPlaying) return;
-    
+
     // Convert real seconds to simulated minutes
     // At 1x speed, 1 real second = 1 simulated minute
     const simulatedMinutes = delta * speed;
-    tick(simulatedMinutes);
+    tick(simulatedMinutes, environment);
   });
 
   return {
@@ -0,0 +1,89 @@
+import { Amenity, AmenityType, CourtPlacement, AMENITY_CATALOG } from '@/types/facility';
+import { COMPLIANCE_RULE_SETS, ComplianceRuleSet, PlayingAreaRule } from '@/types/compliance';
+import { getCourtFootprint, getLayoutBounds, Rect, rectsOverlap, snapToGrid } from './courtLayout';
+import { expandCourt, getPlayingAreaRunOff } from './compliance';
+
+export type AmenityIssueType = 'court_overlap' | 'run_off';
+
+export interface AmenityIssue {
+  type: AmenityIssueType;
+  amenityId: string;
+  courtId: string;
+}
+
+export interface RunOff {
+  side: number; // meters beyond the sidelines
+  end: number;  // meters beyond the baselines
+}
+
+export const AMENITY_TYPES = Object.keys(AMENITY_CATALOG) as AmenityType[];
+
+// Gap kept between the courts' run-off and newly added amenities
+const PLACEMENT_MARGIN = 0.5;
+
+const findPlayingAreaRule = (ruleSet: ComplianceRuleSet) =>
+  ruleSet.rules.find((rule): rule is PlayingAreaRule => rule.kind === 'playing_area');
+
+// Recreational run-off, used when no compliance rule set is selected
+export const DEFAULT_RUN_OFF: RunOff = getPlayingAreaRunOff(findPlayingAreaRule(COMPLIANCE_RULE_SETS.recreational)!);
+
+/**
+ * Run-off amenities must stay out of: the selected rule set's playing area, or the recreational default
+ */
+export function getRunOff(ruleSet: ComplianceRuleSet | null): RunOff {
+  const rule = ruleSet ? findPlayingAreaRule(ruleSet) : undefined;
+  return rule ? getPlayingAreaRunOff(rule) : DEFAULT_RUN_OFF;
+}
+
+/**
+ * Axis-aligned footprint of a placed amenity in world coordinates
+ */
+export function getAmenityFootprint(amenity: Pick<Amenity, 'type' | 'x' | 'z' | 'rotation'>): Rect {
+  const { width, depth } = AMENITY_CATALOG[amenity.type];
+  const halfX = (amenity.rotation === 90 ? depth : width) / 2;
+  const halfZ = (amenity.rotation === 90 ? width : depth) / 2;
+  return { minX: amenity.x - halfX, maxX: amenity.x + halfX, minZ: amenity.z - halfZ, maxZ: amenity.z + halfZ };
+}
+
+/**
+ * Create a new amenity along the left side of the layout, clear of the default
+ * run-off, stacked after any amenities already placed there
+ */
+export function createAmenity(type: AmenityType, amenities: Amenity[], placements: CourtPlacement[]): Amenity {
+  const bounds = getLayoutBounds(placements);
+  const { width, depth } = AMENITY_CATALOG[type];
+  const x = bounds.minX - DEFAULT_RUN_OFF.side - PLACEMENT_MARGIN - depth / 2;
+
+  const column = amenities.map(getAmenityFootprint).filter((rect) => rect.maxX <= bounds.minX);
+  const startZ = column.length > 0 ? Math.max(...column.map((rect) => rect.maxZ)) + PLACEMENT_MARGIN : bounds.minZ;
+
+  const usedIds = new Set(amenities.map((a) => a.id));
+  let n = amenities.length + 1;
+  while (usedIds.has(`amenity-${n}`)) n++;
+
+  return { id: `amenity-${n}`, type, x: snapToGrid(x), z: snapToGrid(startZ + width / 2), rotation: 90 };
+}
+
+/**
+ * Check amenities against the courts: sitting on a playing surface, or inside a court's run-off
+ */
+export function findAmenityIssues(
+  placements: CourtPlacement[],
+  amenities: Amenity[],
+  runOff: RunOff = DEFAULT_RUN_OFF
+): AmenityIssue[] {
+  const issues: AmenityIssue[] = [];
+
+  amenities.forEach((amenity) => {
+    const rect = getAmenityFootprint(amenity);
+    placements.forEach((placement) => {
+      if (rectsOverlap(rect, getCourtFootprint(placement))) {
+        issues.push({ type: 'court_overlap', amenityId: amenity.id, courtId: placement.id });
+      } else if (rectsOverlap(rect, expandCourt(placement, runOff.side, runOff.end))) {
+        issues.push({ type: 'run_off', amenityId: amenity.id, courtId: placement.id });
+      }
+    });
+  });
+
+  return issues;
+}
@@ -1,5 +1,7 @@
  import { BallState, ShotType, SHOT_CONFIGS, GRAVITY, BOUNCE_DAMPING, BALL_RADIUS } from '@/types/game';
- import { COURT_WIDTH, COURT_LENGTH, NET_HEIGHT_CENTER } from '@/types/facility';
+ import { COURT_WIDTH, COURT_LENGTH, NET_HEIGHT_CENTER, CourtPlacement } from '@/types/facility';
+ import { courtToWorld, worldToCourt } from './courtLayout';
+ import { Random } from './random';
  
  // Pre-allocated vectors for zero-GC updates
  const tempPos = { x: 0, y: 0, z: 0 };
@@ -17,13 +19,13 @@
   * Update ball physics for one frame
   * @param ball Current ball state
   * @param deltaSeconds Time delta in seconds
-  * @param courtCenterZ Center Z position of the court
+  * @param court Court the ball is in play on; the net spans its width at its center
   * @returns Updated physics result
   */
  export function updateBallPhysics(
    ball: BallState,
    deltaSeconds: number,
-   courtCenterZ: number
+   court: Pick<CourtPlacement, 'x' | 'z' | 'rotation'>
  ): BallPhysicsResult {
    // Apply gravity
    tempVel.x = ball.velocity.x;
@@ -50,30 +52,35 @@
      tempVel.z *= 0.85;
    }
    
-   // Net collision check (simplified - at court center Z)
-   const prevZ = ball.position.z;
-   const netZ = courtCenterZ;
+   // Net collision check in court-local space, where the net is the plane z = 0
+   const prevLocal = worldToCourt(court, ball.position);
+   const nextLocal = worldToCourt(court, tempPos);
    
    // Check if ball crossed net plane
-   if ((prevZ < netZ && tempPos.z >= netZ) || (prevZ > netZ && tempPos.z <= netZ)) {
+   if ((prevLocal.z < 0 && nextLocal.z >= 0) || (prevLocal.z > 0 && nextLocal.z <= 0)) {
      // Interpolate Y at net crossing
-     const t = (netZ - prevZ) / (tempPos.z - prevZ);
+     const t = -prevLocal.z / (nextLocal.z - prevLocal.z);
      const yAtNet = ball.position.y + (tempPos.y - ball.position.y) * t;
      
      if (yAtNet < NET_HEIGHT_CENTER) {
        hitNet = true;
-       // Bounce back
-       tempVel.z = -tempVel.z * 0.3;
-       tempPos.z = prevZ + tempVel.z * deltaSeconds;
+       // Bounce back: reverse and damp the velocity component across the net
+       const axes = { x: 0, z: 0, rotation: court.rotation };
+       const localVel = worldToCourt(axes, tempVel);
+       const bouncedVel = courtToWorld(axes, { x: localVel.x, z: -localVel.z * 0.3 });
+       tempVel.x = bouncedVel.x;
+       tempVel.z = bouncedVel.z;
+       tempPos.x = ball.position.x + tempVel.x * deltaSeconds;
+       tempPos.z = ball.position.z + tempVel.z * deltaSeconds;
      }
    }
    
    // Out of bounds check (simplified)
    const halfWidth = COURT_WIDTH / 2 + 0.5; // Add margin
    const halfLength = COURT_LENGTH / 2 + 0.5;
+   const local = worldToCourt(court, tempPos);
    
-   if (Math.abs(tempPos.x - courtCenterZ) > halfWidth || 
-       Math.abs(tempPos.z - courtCenterZ) > halfLength) {
+   if (Math.abs(local.x) > halfWidth || Math.abs(local.z) > halfLength) {
      outOfBounds = true;
    }
    
@@ -96,6 +103,7 @@
    toX: number,
    toZ: number,
    shotType: ShotType,
+   random: Random,
    startY: number = 1.0
  ): { x: number; y: number; z: number } {
    const config = SHOT_CONFIGS[shotType];
@@ -121,7 +129,7 @@
    const vy = Math.sqrt(2 * Math.abs(GRAVITY) * peakHeight);
    
    // Add variance
-   const variance = 1 + (Math.random() - 0.5) * config.variance * 2;
+   const variance = 1 + (random.next() - 0.5) * config.variance * 2;
    
    return {
      x: vx * variance,
@@ -0,0 +1,260 @@
+import {
+  CourtOverrides,
+  CourtPlacement,
+  OverlaySport,
+  SurfaceType,
+  SURFACE_MATERIALS,
+  SPORT_OVERLAYS,
+  COURT_WIDTH,
+  COURT_LENGTH,
+  KITCHEN_DEPTH,
+  FT_TO_M,
+} from '@/types/facility';
+import { PriceSheet } from '@/types/estimate';
+import { expandRect, getCourtFootprint, getLayoutBounds, Rect } from './courtLayout';
+import { getCourtLineOverlays, getCourtSurface } from './courtAttributes';
+import { OVERLAY_SPORTS, getSportLineLength } from './sportLines';
+import { toCsv } from './utils';
+import { UnitSystem } from './units';
+
+export type CourtLineType = 'sideline' | 'baseline' | 'nvz' | 'centerline';
+
+export interface SurfaceQuantity {
+  surfaceType: SurfaceType;
+  courtCount: number;
+  area: number; // square feet
+}
+
+export interface LineQuantity {
+  lineType: CourtLineType | OverlaySport;
+  label: string;
+  length: number; // linear feet
+}
+
+export interface BillOfMaterials {
+  courtCount: number;
+  surfaces: SurfaceQuantity[];
+  lines: LineQuantity[];
+  nets: number;
+  posts: number;
+  fencing: number;  // linear feet around the whole layout
+  dividers: number; // linear feet between neighbouring courts
+}
+
+export type CostCategory = 'Surface' | 'Lines' | 'Nets' | 'Fencing';
+
+// Units the price sheet is priced in; metric estimates show them as m² and m
+export type BillingUnit = 'sq ft' | 'lf';
+
+export interface CostLineItem {
+  id: string;
+  category: CostCategory;
+  description: string;
+  quantity: number;
+  unit: BillingUnit | 'm²' | 'm' | 'ea';
+  unitPrice: number;
+  total: number;
+}
+
+export interface CostEstimate {
+  items: CostLineItem[];
+  total: number;
+}
+
+const M_TO_FT = 1 / FT_TO_M;
+
+// Metric counterpart of each billing unit, and how many of it make one billing unit
+const METRIC_UNITS: Record<BillingUnit, { unit: 'm²' | 'm'; size: number }> = {
+  'sq ft': { unit: 'm²', size: FT_TO_M ** 2 },
+  lf: { unit: 'm', size: FT_TO_M },
+};
+
+// Courts whose facing edges are further apart than this get no divider between them
+export const MAX_DIVIDER_GAP = 3.5;
+
+// Painted line length per court, in meters, by line type (two of each)
+const LINE_LENGTHS: Record<CourtLineType, { label: string; length: number }> = {
+  sideline: { label: 'Sidelines', length: COURT_LENGTH * 2 },
+  baseline: { label: 'Baselines', length: COURT_WIDTH * 2 },
+  nvz: { label: 'Non-volley zone lines', length: COURT_WIDTH * 2 },
+  centerline: { label: 'Centerlines', length: (COURT_LENGTH / 2 - KITCHEN_DEPTH) * 2 },
+};
+
+/**
+ * Length of the edge two neighbouring footprints share (0 when they do not face each other)
+ */
+function facingLength(a: Rect, b: Rect): number {
+  const overlapX = Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX);
+  const overlapZ = Math.min(a.maxZ, b.maxZ) - Math.max(a.minZ, b.minZ);
+  if (overlapX > 0 && overlapZ <= 0 && -overlapZ <= MAX_DIVIDER_GAP) return overlapX;
+  if (overlapZ > 0 && overlapX <= 0 && -overlapX <= MAX_DIVIDER_GAP) return overlapZ;
+  return 0;
+}
+
+/**
+ * Quantities needed to build the layout. Surfaces are grouped by each court's
+ * effective surface type; perimeter fencing runs one court spacing outside the courts.
+ * Other-sport overlay lines are listed per sport after the pickleball lines.
+ */
+export function computeBillOfMaterials(
+  placements: CourtPlacement[],
+  defaultSurfaceType: SurfaceType,
+  courtOverrides: Record<string, CourtOverrides>,
+  spacing: number,
+  lineOverlays: OverlaySport[] = []
+): BillOfMaterials {
+  const courtCount = placements.length;
+  const courtArea = COURT_WIDTH * COURT_LENGTH * M_TO_FT * M_TO_FT;
+
+  const surfaceCounts = new Map<SurfaceType, number>();
+  placements.forEach((p) => {
+    const { surfaceType } = getCourtSurface(defaultSurfaceType, courtOverrides[p.id]);
+    surfaceCounts.set(surfaceType, (surfaceCounts.get(surfaceType) ?? 0) + 1);
+  });
+  const surfaces = (Object.keys(SURFACE_MATERIALS) as SurfaceType[])
+    .filter((type) => surfaceCounts.has(type))
+    .map((surfaceType) => ({
+      surfaceType,
+      courtCount: surfaceCounts.get(surfaceType),
+      area: surfaceCounts.get(surfaceType) * courtArea,
+    }));
+
+  const lines: LineQuantity[] = (Object.keys(LINE_LENGTHS) as CourtLineType[]).map((lineType) => ({
+    lineType,
+    label: LINE_LENGTHS[lineType].label,
+    length: LINE_LENGTHS[lineType].length * courtCount * M_TO_FT,
+  }));
+  OVERLAY_SPORTS.forEach((sport) => {
+    const courts = placements.filter((p) => getCourtLineOverlays(lineOverlays, courtOverrides[p.id]).includes(sport));
+    if (courts.length === 0) return;
+    lines.push({
+      lineType: sport,
+      label: `${SPORT_OVERLAYS[sport].name} lines`,
+      length: getSportLineLength(sport) * courts.length * M_TO_FT,
+    });
+  });
+
+  let fencing = 0;
+  if (courtCount > 0) {
+    const fence = expandRect(getLayoutBounds(placements), spacing);
+    fencing = 2 * (fence.maxX - fence.minX + fence.maxZ - fence.minZ) * M_TO_FT;
+  }
+
+  const footprints = placements.map((p) => getCourtFootprint(p));
+  let dividers = 0;
+  for (let i = 0; i < footprints.length; i++) {
+    for (let j = i + 1; j < footprints.length; j++) {
+      dividers += facingLength(footprints[i], footprints[j]) * M_TO_FT;
+    }
+  }
+
+  return { courtCount, surfaces, lines, nets: courtCount, posts: courtCount * 2, fencing, dividers };
+}
+
+/**
+ * Price a bill of materials. Zero-quantity rows are left out.
+ */
+export function estimateCost(bom: BillOfMaterials, prices: PriceSheet): CostEstimate {
+  const items: CostLineItem[] = [];
+  const add = (item: Omit<CostLineItem, 'total'>) => {
+    if (item.quantity <= 0) return;
+    items.push({ ...item, total: item.quantity * item.unitPrice });
+  };
+
+  bom.surfaces.forEach((s) =>
+    add({
+      id: `surface-${s.surfaceType}`,
+      category: 'Surface',
+      description: `${SURFACE_MATERIALS[s.surfaceType].name} (${s.courtCount} ${s.courtCount === 1 ? 'court' : 'courts'})`,
+      quantity: s.area,
+      unit: 'sq ft',
+      unitPrice: prices.surface[s.surfaceType],
+    })
+  );
+  bom.lines.forEach((l) =>
+    add({
+      id: `line-${l.lineType}`,
+      category: 'Lines',
+      description: l.label,
+      quantity: l.length,
+      unit: 'lf',
+      unitPrice: prices.linePaint,
+    })
+  );
+  add({ id: 'nets', category: 'Nets', description: 'Nets', quantity: bom.nets, unit: 'ea', unitPrice: prices.net });
+  add({ id: 'posts', category: 'Nets', description: 'Net posts', quantity: bom.posts, unit: 'ea', unitPrice: prices.post });
+  add({
+    id: 'fencing',
+    category: 'Fencing',
+    description: 'Perimeter fencing',
+    quantity: bom.fencing,
+    unit: 'lf',
+    unitPrice: prices.fencing,
+  });
+  add({
+    id: 'dividers',
+    category: 'Fencing',
+    description: 'Court dividers',
+    quantity: bom.dividers,
+    unit: 'lf',
+    unitPrice: prices.divider,
+  });
+
+  return { items, total: items.reduce((sum, item) => sum + item.total, 0) };
+}
+
+/**
+ * Billing unit label in the display system, e.g. "m²" for square feet in metric
+ */
+export function getBillingUnitLabel(unit: BillingUnit | 'ea', units: UnitSystem): string {
+  return units === 'metric' && unit !== 'ea' ? METRIC_UNITS[unit].unit : unit;
+}
+
+/**
+ * Price per billing unit converted to the display system
+ */
+export function toLocalUnitPrice(price: number, unit: BillingUnit | 'ea', units: UnitSystem): number {
+  return units === 'metric' && unit !== 'ea' ? price / METRIC_UNITS[unit].size : price;
+}
+
+/**
+ * Price typed in the display system converted back to the price sheet's unit
+ */
+export function fromLocalUnitPrice(price: number, unit: BillingUnit | 'ea', units: UnitSystem): number {
+  return units === 'metric' && unit !== 'ea' ? price * METRIC_UNITS[unit].size : price;
+}
+
+/**
+ * Express an estimate in the display system. Metric estimates list areas in m²
+ * and lengths in m with rescaled unit prices, so every total is unchanged.
+ */
+export function localizeCostEstimate(estimate: CostEstimate, units: UnitSystem): CostEstimate {
+  if (units === 'imperial') return estimate;
+  return {
+    ...estimate,
+    items: estimate.items.map((item) => {
+      if (item.unit !== 'sq ft' && item.unit !== 'lf') return item;
+      const { unit, size } = METRIC_UNITS[item.unit];
+      return { ...item, unit, quantity: item.quantity * size, unitPrice: item.unitPrice / size };
+    }),
+  };
+}
+
+/**
+ * CSV of the estimate, one row per line item plus a total row
+ */
+export function renderCostEstimateCsv(estimate: CostEstimate): string {
+  const rows: (string | number)[][] = [['Category', 'Item', 'Quantity', 'Unit', 'Unit Price', 'Total']];
+  estimate.items.forEach((item) => {
+    rows.push([
+      item.category,
+      item.description,
+      item.quantity.toFixed(item.unit === 'ea' ? 0 : 1),
+      item.unit,
+      item.unitPrice.toFixed(2),
+      item.total.toFixed(2),
+    ]);
+  });
+  rows.push(['Total', '', '', '', '', estimate.total.toFixed(2)]);
+  return toCsv(rows);
+}
@@ -0,0 +1,292 @@
+import {
+  BuildingEnvelope,
+  BuildingDoor,
+  CourtOverrides,
+  CourtPlacement,
+  Point2D,
+} from '@/types/facility';
+import { getCourtFootprint, getLayoutBounds, LayoutBounds, Rect, rectsOverlap } from './courtLayout';
+
+export interface WallSegment {
+  id: string;
+  start: Point2D;
+  end: Point2D;
+  isPerimeter: boolean;
+}
+
+export type BuildingIssueType = 'outside_envelope' | 'column_collision' | 'wall_collision';
+
+export interface BuildingIssue {
+  type: BuildingIssueType;
+  courtId: string;
+  obstacleId?: string; // column or wall ID
+}
+
+// Clearance kept between the court layout and the default envelope
+const DEFAULT_ENVELOPE_MARGIN = 3;
+
+const generateId = (prefix: string) => `${prefix}-${Math.random().toString(36).substr(2, 6)}`;
+
+/**
+ * Create a rectangular building around the current courts
+ */
+export function createDefaultBuilding(placements: CourtPlacement[]): BuildingEnvelope {
+  return {
+    footprint: fitFootprintToLayout(placements),
+    wallHeight: 6,
+    wallThickness: 0.3,
+    columns: [],
+    walls: [],
+    doors: [],
+  };
+}
+
+/**
+ * Rectangular footprint enclosing all courts plus a margin
+ */
+export function fitFootprintToLayout(placements: CourtPlacement[], margin: number = DEFAULT_ENVELOPE_MARGIN): Point2D[] {
+  const bounds = getLayoutBounds(placements);
+  const minX = bounds.minX - margin;
+  const maxX = bounds.maxX + margin;
+  const minZ = bounds.minZ - margin;
+  const maxZ = bounds.maxZ + margin;
+  return [
+    { x: minX, z: minZ },
+    { x: maxX, z: minZ },
+    { x: maxX, z: maxZ },
+    { x: minX, z: maxZ },
+  ];
+}
+
+export function createColumn(building: BuildingEnvelope): BuildingEnvelope['columns'][number] {
+  const bounds = getPolygonBounds(building.footprint);
+  return { id: generateId('column'), x: (bounds.minX + bounds.maxX) / 2, z: (bounds.minZ + bounds.maxZ) / 2, size: 0.5 };
+}
+
+export function createWall(building: BuildingEnvelope): BuildingEnvelope['walls'][number] {
+  const bounds = getPolygonBounds(building.footprint);
+  const z = (bounds.minZ + bounds.maxZ) / 2;
+  return { id: generateId('wall'), start: { x: bounds.minX, z }, end: { x: (bounds.minX + bounds.maxX) / 2, z } };
+}
+
+export function createDoor(wallId: string): BuildingDoor {
+  return { id: generateId('door'), wallId, offset: 1.5, width: 1.2 };
+}
+
+export function getPolygonBounds(polygon: Point2D[]): Rect {
+  return polygon.reduce(
+    (acc, p) => ({
+      minX: Math.min(acc.minX, p.x),
+      maxX: Math.max(acc.maxX, p.x),
+      minZ: Math.min(acc.minZ, p.z),
+      maxZ: Math.max(acc.maxZ, p.z),
+    }),
+    { minX: Infinity, maxX: -Infinity, minZ: Infinity, maxZ: -Infinity }
+  );
+}
+
+/**
+ * Even-odd ray casting point-in-polygon test
+ */
+export function pointInPolygon(point: Point2D, polygon: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.z > point.z) !== (b.z > point.z)) {
+      const xCross = ((b.x - a.x) * (point.z - a.z)) / (b.z - a.z) + a.x;
+      if (point.x < xCross) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a segment passes through the interior of a rectangle (Liang-Barsky clipping)
+ */
+export function segmentIntersectsRect(start: Point2D, end: Point2D, rect: Rect): boolean {
+  const dx = end.x - start.x;
+  const dz = end.z - start.z;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: Array<[number, number]> = [
+    [-dx, start.x - rect.minX],
+    [dx, rect.maxX - start.x],
+    [-dz, start.z - rect.minZ],
+    [dz, rect.maxZ - start.z],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q <= 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return false;
+      t0 = Math.max(t0, t);
+    } else {
+      if (t < t0) return false;
+      t1 = Math.min(t1, t);
+    }
+  }
+  return t1 - t0 > 1e-9;
+}
+
+export function rectInsidePolygon(rect: Rect, polygon: Point2D[]): boolean {
+  const corners: Point2D[] = [
+    { x: rect.minX, z: rect.minZ },
+    { x: rect.maxX, z: rect.minZ },
+    { x: rect.maxX, z: rect.maxZ },
+    { x: rect.minX, z: rect.maxZ },
+  ];
+  if (!corners.every((c) => pointInPolygon(c, polygon))) return false;
+  // Concave footprints (e.g. L-shapes) can cut through a rect whose corners are all inside
+  return getPolygonEdges(polygon).every(([a, b]) => !segmentIntersectsRect(a, b, rect));
+}
+
+export function getPolygonEdges(polygon: Point2D[]): Array<[Point2D, Point2D]> {
+  return polygon.map((p, i) => [p, polygon[(i + 1) % polygon.length]]);
+}
+
+export function getColumnRect(column: { x: number; z: number; size: number }): Rect {
+  const half = column.size / 2;
+  return { minX: column.x - half, maxX: column.x + half, minZ: column.z - half, maxZ: column.z + half };
+}
+
+/**
+ * All walls in the building: one segment per footprint edge plus interior walls
+ */
+export function getWallSegments(building: BuildingEnvelope): WallSegment[] {
+  const perimeter = getPolygonEdges(building.footprint).map(([start, end], i) => ({
+    id: `perimeter-${i}`,
+    start,
+    end,
+    isPerimeter: true,
+  }));
+  const interior = building.walls.map((w) => ({ id: w.id, start: w.start, end: w.end, isPerimeter: false }));
+  return [...perimeter, ...interior];
+}
+
+export function segmentLength(start: Point2D, end: Point2D): number {
+  return Math.sqrt((end.x - start.x) ** 2 + (end.z - start.z) ** 2);
+}
+
+/**
+ * Split a wall into solid pieces around its door openings
+ */
+export function splitWallAtDoors(wall: WallSegment, doors: BuildingDoor[]): Array<{ start: Point2D; end: Point2D }> {
+  const length = segmentLength(wall.start, wall.end);
+  if (length === 0) return [];
+
+  const openings = doors
+    .filter((d) => d.wallId === wall.id)
+    .map((d) => [Math.max(0, d.offset - d.width / 2), Math.min(length, d.offset + d.width / 2)] as [number, number])
+    .filter(([a, b]) => b > a)
+    .sort((a, b) => a[0] - b[0]);
+
+  const pointAt = (t: number): Point2D => ({
+    x: wall.start.x + ((wall.end.x - wall.start.x) * t) / length,
+    z: wall.start.z + ((wall.end.z - wall.start.z) * t) / length,
+  });
+
+  const pieces: Array<{ start: Point2D; end: Point2D }> = [];
+  let cursor = 0;
+  openings.forEach(([a, b]) => {
+    if (a > cursor) pieces.push({ start: pointAt(cursor), end: pointAt(a) });
+    cursor = Math.max(cursor, b);
+  });
+  if (cursor < length) pieces.push({ start: pointAt(cursor), end: pointAt(length) });
+  return pieces;
+}
+
+/**
+ * Door centers and directions in world coordinates, for rendering
+ */
+export function getDoorPlacements(building: BuildingEnvelope): Array<{ door: BuildingDoor; center: Point2D; angle: number }> {
+  const walls = new Map(getWallSegments(building).map((w) => [w.id, w]));
+  return building.doors.flatMap((door) => {
+    const wall = walls.get(door.wallId);
+    if (!wall) return [];
+    const length = segmentLength(wall.start, wall.end);
+    if (length === 0) return [];
+    const t = Math.min(length, Math.max(0, door.offset)) / length;
+    return [{
+      door,
+      center: {
+        x: wall.start.x + (wall.end.x - wall.start.x) * t,
+        z: wall.start.z + (wall.end.z - wall.start.z) * t,
+      },
+      angle: Math.atan2(wall.end.z - wall.start.z, wall.end.x - wall.start.x),
+    }];
+  });
+}
+
+/**
+ * Check courts against the building: outside the envelope, on a column, or crossed by an interior wall.
+ * Courts flagged outdoor in their overrides are allowed outside the envelope.
+ */
+export function findBuildingIssues(
+  placements: CourtPlacement[],
+  building: BuildingEnvelope | null,
+  courtOverrides: Record<string, CourtOverrides> = {}
+): BuildingIssue[] {
+  if (!building || building.footprint.length < 3) return [];
+
+  const issues: BuildingIssue[] = [];
+  const interiorWalls = getWallSegments(building).filter((w) => !w.isPerimeter);
+
+  placements.forEach((placement) => {
+    const rect = getCourtFootprint(placement);
+
+    const isOutdoor = courtOverrides[placement.id]?.indoor === false;
+    if (!isOutdoor && !rectInsidePolygon(rect, building.footprint)) {
+      issues.push({ type: 'outside_envelope', courtId: placement.id });
+    }
+
+    building.columns.forEach((column) => {
+      if (rectsOverlap(rect, getColumnRect(column))) {
+        issues.push({ type: 'column_collision', courtId: placement.id, obstacleId: column.id });
+      }
+    });
+
+    interiorWalls.forEach((wall) => {
+      const solidPieces = splitWallAtDoors(wall, building.doors);
+      if (solidPieces.some((piece) => segmentIntersectsRect(piece.start, piece.end, rect))) {
+        issues.push({ type: 'wall_collision', courtId: placement.id, obstacleId: wall.id });
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Bounds of everything on the floor: the courts, plus the building footprint and
+ * any amenity footprints when present
+ */
+export function getSceneBounds(
+  placements: CourtPlacement[],
+  building: BuildingEnvelope | null,
+  amenityFootprints: Rect[] = []
+): LayoutBounds {
+  const layout = getLayoutBounds(placements);
+  const rects: Rect[] = [...amenityFootprints];
+  if (building && building.footprint.length >= 3) rects.push(getPolygonBounds(building.footprint));
+  if (rects.length === 0) return layout;
+
+  if (placements.length > 0) rects.push(layout);
+  const minX = Math.min(...rects.map((r) => r.minX));
+  const maxX = Math.max(...rects.map((r) => r.maxX));
+  const minZ = Math.min(...rects.map((r) => r.minZ));
+  const maxZ = Math.max(...rects.map((r) => r.maxZ));
+  return {
+    minX,
+    maxX,
+    minZ,
+    maxZ,
+    width: maxX - minX,
+    length: maxZ - minZ,
+    centerX: (minX + maxX) / 2,
+    centerZ: (minZ + maxZ) / 2,
+  };
+}
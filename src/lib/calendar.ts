@@ -0,0 +1,86 @@
+import { formatTime } from '@/types/facility';
+
+/**
+ * Simulation clock. Times are absolute minutes since midnight of day 0, the
+ * run's start date, so they keep increasing across midnight; the day index and
+ * time of day are derived from them.
+ */
+export const MINUTES_PER_DAY = 24 * 60;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Daily opening window in minutes since midnight
+export interface OperatingHours {
+  start: number;
+  end: number;
+}
+
+export function getDayIndex(time: number): number {
+  return Math.floor(time / MINUTES_PER_DAY);
+}
+
+export function getDayStart(day: number): number {
+  return day * MINUTES_PER_DAY;
+}
+
+export function getMinuteOfDay(time: number): number {
+  return time - getDayStart(getDayIndex(time));
+}
+
+/**
+ * Local calendar date of a simulation day
+ */
+export function getDayDate(startDate: string, day: number): Date {
+  const [year, month, date] = startDate.split('-').map(Number);
+  return new Date(year, month - 1, date + day);
+}
+
+/**
+ * "YYYY-MM-DD" for a local date, the format date inputs use
+ */
+export function toIsoDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function todayIsoDate(): string {
+  return toIsoDate(new Date());
+}
+
+/**
+ * Simulation day index of a calendar date (negative before the start date)
+ */
+export function getDayForDate(startDate: string, isoDate: string): number {
+  // Rounded, as days around a daylight saving change are not exactly 24h long
+  return Math.round((getDayDate(isoDate, 0).getTime() - getDayDate(startDate, 0).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Short date label, e.g. "Mon, Oct 19"
+ */
+export function formatDay(startDate: string, day: number): string {
+  return getDayDate(startDate, day).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Date and time label, e.g. "Mon, Oct 19 8:00 AM"
+ */
+export function formatDateTime(startDate: string, time: number): string {
+  return `${formatDay(startDate, getDayIndex(time))} ${formatTime(Math.floor(getMinuteOfDay(time)))}`;
+}
+
+/**
+ * Whether the facility is open at a simulation time
+ */
+export function isOpen(time: number, hours: OperatingHours): boolean {
+  const minute = getMinuteOfDay(time);
+  return minute >= hours.start && minute < hours.end;
+}
+
+/**
+ * Closing time on the day of a simulation time
+ */
+export function getClosingTime(time: number, hours: OperatingHours): number {
+  return getDayStart(getDayIndex(time)) + hours.end;
+}
@@ -0,0 +1,258 @@
+import { BuildingEnvelope, CourtPlacement, COURT_WIDTH, COURT_LENGTH } from '@/types/facility';
+import {
+  ComplianceRule,
+  ComplianceRuleSet,
+  PlayingAreaRule,
+  CourtSeparationRule,
+  WallClearanceRule,
+} from '@/types/compliance';
+import { expandRect, getCourtFootprint, Rect, rectsOverlap } from './courtLayout';
+import {
+  getColumnRect,
+  getWallSegments,
+  rectInsidePolygon,
+  segmentIntersectsRect,
+  splitWallAtDoors,
+} from './building';
+import { CourtNamer, createCourtNamer } from './courtNaming';
+import { UnitSystem, formatLength } from './units';
+
+export interface ComplianceViolation {
+  ruleId: string;
+  ruleLabel: string;
+  courtIds: string[];
+  message: string;
+  zone: Rect; // floor region to highlight in the scene
+}
+
+function intersectRects(a: Rect, b: Rect): Rect {
+  return {
+    minX: Math.max(a.minX, b.minX),
+    maxX: Math.min(a.maxX, b.maxX),
+    minZ: Math.max(a.minZ, b.minZ),
+    maxZ: Math.min(a.maxZ, b.maxZ),
+  };
+}
+
+/**
+ * Run-off beyond the sidelines (`side`) and baselines (`end`) implied by a playing area rule
+ */
+export function getPlayingAreaRunOff(rule: PlayingAreaRule): { side: number; end: number } {
+  return {
+    side: Math.max(0, (rule.totalWidth - COURT_WIDTH) / 2),
+    end: Math.max(0, (rule.totalLength - COURT_LENGTH) / 2),
+  };
+}
+
+/**
+ * Expand a court footprint by side/end margins, honouring its rotation
+ */
+export function expandCourt(placement: CourtPlacement, side: number, end: number): Rect {
+  const rect = getCourtFootprint(placement);
+  return placement.rotation === 90 ? expandRect(rect, end, side) : expandRect(rect, side, end);
+}
+
+interface Obstruction {
+  label: string;
+  zone: Rect;
+}
+
+/**
+ * Building elements (envelope, columns, interior walls) that intrude into a zone
+ */
+function findBuildingObstructions(zone: Rect, building: BuildingEnvelope | null): Obstruction[] {
+  if (!building || building.footprint.length < 3) return [];
+  const obstructions: Obstruction[] = [];
+
+  if (!rectInsidePolygon(zone, building.footprint)) {
+    obstructions.push({ label: 'the building envelope', zone });
+  }
+
+  building.columns.forEach((column) => {
+    const columnRect = getColumnRect(column);
+    if (rectsOverlap(zone, columnRect)) {
+      obstructions.push({ label: 'a column', zone: intersectRects(zone, expandRect(columnRect, 0.3, 0.3)) });
+    }
+  });
+
+  const halfThickness = building.wallThickness / 2;
+  getWallSegments(building)
+    .filter((wall) => !wall.isPerimeter)
+    .forEach((wall) => {
+      splitWallAtDoors(wall, building.doors).forEach((piece) => {
+        if (!segmentIntersectsRect(piece.start, piece.end, zone)) return;
+        const wallRect = expandRect({
+          minX: Math.min(piece.start.x, piece.end.x),
+          maxX: Math.max(piece.start.x, piece.end.x),
+          minZ: Math.min(piece.start.z, piece.end.z),
+          maxZ: Math.max(piece.start.z, piece.end.z),
+        }, halfThickness, halfThickness);
+        obstructions.push({ label: 'an interior wall', zone: intersectRects(zone, wallRect) });
+      });
+    });
+
+  return obstructions;
+}
+
+function checkPlayingArea(
+  rule: PlayingAreaRule,
+  placements: CourtPlacement[],
+  building: BuildingEnvelope | null,
+  courtName: CourtNamer
+): ComplianceViolation[] {
+  const { side, end } = getPlayingAreaRunOff(rule);
+  const violations: ComplianceViolation[] = [];
+
+  placements.forEach((placement) => {
+    const area = expandCourt(placement, side, end);
+    const label = courtName(placement.id);
+
+    placements.forEach((other) => {
+      if (other.id === placement.id) return;
+      const otherRect = getCourtFootprint(other);
+      if (!rectsOverlap(area, otherRect)) return;
+      violations.push({
+        ruleId: rule.id,
+        ruleLabel: rule.label,
+        courtIds: [placement.id, other.id],
+        message: `${label} run-off overlaps ${courtName(other.id)}`,
+        zone: intersectRects(area, otherRect),
+      });
+    });
+
+    findBuildingObstructions(area, building).forEach((obstruction) => {
+      violations.push({
+        ruleId: rule.id,
+        ruleLabel: rule.label,
+        courtIds: [placement.id],
+        message: `${label} run-off is blocked by ${obstruction.label}`,
+        zone: obstruction.zone,
+      });
+    });
+  });
+
+  return violations;
+}
+
+function checkCourtSeparation(
+  rule: CourtSeparationRule,
+  placements: CourtPlacement[],
+  courtName: CourtNamer,
+  units: UnitSystem
+): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+
+  // Edge facing a neighbour along an axis: rotation 0 courts show sidelines along X
+  const requiredAlong = (placement: CourtPlacement, axis: 'x' | 'z') => {
+    const facesSideline = (axis === 'x') === (placement.rotation === 0);
+    return facesSideline ? rule.side : rule.end;
+  };
+
+  for (let i = 0; i < placements.length; i++) {
+    for (let j = i + 1; j < placements.length; j++) {
+      const a = placements[i];
+      const b = placements[j];
+      const ra = getCourtFootprint(a);
+      const rb = getCourtFootprint(b);
+      const overlapX = Math.min(ra.maxX, rb.maxX) - Math.max(ra.minX, rb.minX);
+      const overlapZ = Math.min(ra.maxZ, rb.maxZ) - Math.max(ra.minZ, rb.minZ);
+      const labels = `${courtName(a.id)} and ${courtName(b.id)}`;
+
+      if (overlapX > 0 && overlapZ > 0) {
+        violations.push({
+          ruleId: rule.id,
+          ruleLabel: rule.label,
+          courtIds: [a.id, b.id],
+          message: `${labels} overlap`,
+          zone: intersectRects(ra, rb),
+        });
+        continue;
+      }
+
+      // Only courts whose edges face each other are checked; diagonal neighbours are skipped
+      let axis: 'x' | 'z' | null = null;
+      if (overlapZ > 0) axis = 'x';
+      else if (overlapX > 0) axis = 'z';
+      if (!axis) continue;
+
+      const gap = axis === 'x' ? -overlapX : -overlapZ;
+      const required = Math.max(requiredAlong(a, axis), requiredAlong(b, axis));
+      if (gap >= required - 1e-6) continue;
+
+      const zone: Rect = axis === 'x'
+        ? {
+          minX: Math.min(ra.maxX, rb.maxX),
+          maxX: Math.max(ra.minX, rb.minX),
+          minZ: Math.max(ra.minZ, rb.minZ),
+          maxZ: Math.min(ra.maxZ, rb.maxZ),
+        }
+        : {
+          minX: Math.max(ra.minX, rb.minX),
+          maxX: Math.min(ra.maxX, rb.maxX),
+          minZ: Math.min(ra.maxZ, rb.maxZ),
+          maxZ: Math.max(ra.minZ, rb.minZ),
+        };
+
+      violations.push({
+        ruleId: rule.id,
+        ruleLabel: rule.label,
+        courtIds: [a.id, b.id],
+        message: `${labels} are ${formatLength(gap, units)} apart (need ${formatLength(required, units)})`,
+        zone,
+      });
+    }
+  }
+
+  return violations;
+}
+
+function checkWallClearance(
+  rule: WallClearanceRule,
+  placements: CourtPlacement[],
+  building: BuildingEnvelope | null,
+  courtName: CourtNamer,
+  units: UnitSystem
+): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  placements.forEach((placement) => {
+    const zone = expandRect(getCourtFootprint(placement), rule.distance, rule.distance);
+    findBuildingObstructions(zone, building).forEach((obstruction) => {
+      violations.push({
+        ruleId: rule.id,
+        ruleLabel: rule.label,
+        courtIds: [placement.id],
+        message: `${courtName(placement.id)} is within ${formatLength(rule.distance, units)} of ${obstruction.label}`,
+        zone: obstruction.zone,
+      });
+    });
+  });
+  return violations;
+}
+
+function evaluateRule(
+  rule: ComplianceRule,
+  placements: CourtPlacement[],
+  building: BuildingEnvelope | null,
+  courtName: CourtNamer,
+  units: UnitSystem
+): ComplianceViolation[] {
+  switch (rule.kind) {
+    case 'playing_area': return checkPlayingArea(rule, placements, building, courtName);
+    case 'court_separation': return checkCourtSeparation(rule, placements, courtName, units);
+    case 'wall_clearance': return checkWallClearance(rule, placements, building, courtName, units);
+  }
+}
+
+/**
+ * Evaluate a layout against every rule in a rule set. Messages name courts with
+ * `courtName` and give distances in `units`.
+ */
+export function evaluateCompliance(
+  placements: CourtPlacement[],
+  building: BuildingEnvelope | null,
+  ruleSet: ComplianceRuleSet,
+  courtName: CourtNamer = createCourtNamer(placements),
+  units: UnitSystem = 'metric'
+): ComplianceViolation[] {
+  return ruleSet.rules.flatMap((rule) => evaluateRule(rule, placements, building, courtName, units));
+}
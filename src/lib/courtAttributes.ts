@@ -0,0 +1,52 @@
+import { CourtOverrides, OverlaySport, SurfaceType, SURFACE_MATERIALS } from '@/types/facility';
+
+// Effective surface of a single court after applying its overrides
+export interface CourtSurface {
+  surfaceType: SurfaceType;
+  name: string;
+  color: string;
+  kitchenColor: string | null; // null = same as the playing surface
+  roughness: number;
+  metalness: number;
+  indoor: boolean;
+}
+
+/**
+ * Resolve a court's surface from the facility default and its overrides.
+ * Anything reading SURFACE_MATERIALS for a specific court should go through this.
+ */
+export function getCourtSurface(defaultSurfaceType: SurfaceType, overrides?: CourtOverrides): CourtSurface {
+  const surfaceType = overrides?.surfaceType ?? defaultSurfaceType;
+  const material = SURFACE_MATERIALS[surfaceType];
+  return {
+    surfaceType,
+    name: material.name,
+    color: overrides?.surfaceColor ?? material.color,
+    kitchenColor: overrides?.kitchenColor ?? null,
+    roughness: material.roughness,
+    metalness: material.metalness,
+    indoor: overrides?.indoor ?? true,
+  };
+}
+
+/**
+ * Other-sport line sets painted on a court: its own selection, else the facility-wide one
+ */
+export function getCourtLineOverlays(defaultOverlays: OverlaySport[], overrides?: CourtOverrides): OverlaySport[] {
+  return overrides?.lineOverlays ?? defaultOverlays;
+}
+
+/**
+ * Merge updates into a court's overrides, dropping fields set back to undefined.
+ * Returns null when nothing is overridden any more.
+ */
+export function mergeCourtOverrides(
+  current: CourtOverrides | undefined,
+  updates: Partial<CourtOverrides>
+): CourtOverrides | null {
+  const merged: CourtOverrides = { ...current, ...updates };
+  (Object.keys(merged) as (keyof CourtOverrides)[]).forEach((key) => {
+    if (merged[key] === undefined || merged[key] === '') delete merged[key];
+  });
+  return Object.keys(merged).length > 0 ? merged : null;
+}
@@ -0,0 +1,279 @@
+import {
+  EvenConfig,
+  UnevenConfig,
+  FacilityConfig,
+  FreeformConfig,
+  CourtPlacement,
+  CourtRotation,
+  Point2D,
+  COURT_WIDTH,
+  COURT_LENGTH,
+  getCourtId,
+} from '@/types/facility';
+
+export interface Rect {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export interface LayoutBounds extends Rect {
+  width: number;
+  length: number;
+  centerX: number;
+  centerZ: number;
+}
+
+export type LayoutConflictType = 'overlap' | 'spacing';
+
+// A free-form layout collapsed to a grid. Packing can give courts new
+// row/col IDs, so each old ID maps to the ID it ends up with.
+export interface GridConversion {
+  config: EvenConfig | UnevenConfig;
+  courtIdMap: Record<string, string>;
+}
+
+export interface LayoutConflict {
+  type: LayoutConflictType;
+  courtIds: [string, string];
+  gap: number; // meters between footprints, 0 when overlapping
+}
+
+// Snap increment used when dragging courts in free-form mode
+export const PLACEMENT_SNAP = 0.1;
+
+/**
+ * Get the footprint size of a court for a given rotation.
+ * `width` is the extent along X, `length` the extent along Z.
+ */
+export function getCourtDimensions(rotation: CourtRotation): { width: number; length: number } {
+  return rotation === 90
+    ? { width: COURT_LENGTH, length: COURT_WIDTH }
+    : { width: COURT_WIDTH, length: COURT_LENGTH };
+}
+
+/**
+ * Rotation of a court around the Y axis in radians
+ */
+export function getCourtRotationRadians(rotation: CourtRotation): number {
+  return rotation === 90 ? Math.PI / 2 : 0;
+}
+
+/**
+ * Map court-local coordinates (X across the court, Z along it) to world coordinates,
+ * matching the group rotation applied to PickleballCourt in the 3D scene
+ */
+export function courtToWorld(placement: Pick<CourtPlacement, 'x' | 'z' | 'rotation'>, local: Point2D): Point2D {
+  const angle = getCourtRotationRadians(placement.rotation);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: placement.x + local.x * cos + local.z * sin,
+    z: placement.z - local.x * sin + local.z * cos,
+  };
+}
+
+/**
+ * Inverse of `courtToWorld`: world coordinates to court-local coordinates
+ */
+export function worldToCourt(placement: Pick<CourtPlacement, 'x' | 'z' | 'rotation'>, world: Point2D): Point2D {
+  const angle = getCourtRotationRadians(placement.rotation);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = world.x - placement.x;
+  const dz = world.z - placement.z;
+  return {
+    x: dx * cos - dz * sin,
+    z: dx * sin + dz * cos,
+  };
+}
+
+/**
+ * Axis-aligned footprint of a placed court in world coordinates
+ */
+export function getCourtFootprint(placement: Pick<CourtPlacement, 'x' | 'z' | 'rotation'>): Rect {
+  const { width, length } = getCourtDimensions(placement.rotation);
+  return {
+    minX: placement.x - width / 2,
+    maxX: placement.x + width / 2,
+    minZ: placement.z - length / 2,
+    maxZ: placement.z + length / 2,
+  };
+}
+
+/**
+ * Resolve every court in the facility to a concrete world placement.
+ * Grid modes compute positions from row/col and spacing; free-form mode
+ * returns the stored placements as-is. This is the single source of court
+ * positions for both the Build and Homebase scenes and the robot pathfinder.
+ * Grid rows are stacked along Z by their own depth, so rotated rows take less room.
+ */
+export function getCourtPlacements(config: FacilityConfig, spacing: number): CourtPlacement[] {
+  if (config.mode === 'freeform') {
+    return config.courts;
+  }
+
+  const placements: CourtPlacement[] = [];
+  let rowStartZ = 0;
+
+  for (let row = 0; row < config.rows; row++) {
+    const cols = config.mode === 'even' ? config.cols : config.rowLengths[row] ?? config.maxCols;
+    const rotation = getRowRotation(config, row);
+    const { width, length } = getCourtDimensions(rotation);
+    for (let col = 0; col < cols; col++) {
+      placements.push({
+        id: getCourtId(row, col),
+        row,
+        col,
+        x: col * (width + spacing) + width / 2,
+        z: rowStartZ + length / 2,
+        rotation,
+      });
+    }
+    rowStartZ += length + spacing;
+  }
+  return placements;
+}
+
+/**
+ * Orientation of a grid row
+ */
+export function getRowRotation(config: EvenConfig | UnevenConfig, row: number): CourtRotation {
+  return config.rowRotations?.[row] ?? 0;
+}
+
+/**
+ * Bounding box around all court footprints. Empty layouts yield a zero-size box at the origin.
+ */
+export function getLayoutBounds(placements: CourtPlacement[]): LayoutBounds {
+  if (placements.length === 0) {
+    return { minX: 0, maxX: 0, minZ: 0, maxZ: 0, width: 0, length: 0, centerX: 0, centerZ: 0 };
+  }
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minZ = Infinity;
+  let maxZ = -Infinity;
+  placements.forEach((p) => {
+    const rect = getCourtFootprint(p);
+    minX = Math.min(minX, rect.minX);
+    maxX = Math.max(maxX, rect.maxX);
+    minZ = Math.min(minZ, rect.minZ);
+    maxZ = Math.max(maxZ, rect.maxZ);
+  });
+
+  return {
+    minX,
+    maxX,
+    minZ,
+    maxZ,
+    width: maxX - minX,
+    length: maxZ - minZ,
+    centerX: (minX + maxX) / 2,
+    centerZ: (minZ + maxZ) / 2,
+  };
+}
+
+/**
+ * Shortest distance between two axis-aligned rectangles (0 when they touch or overlap)
+ */
+export function rectGap(a: Rect, b: Rect): number {
+  const dx = Math.max(0, a.minX - b.maxX, b.minX - a.maxX);
+  const dz = Math.max(0, a.minZ - b.maxZ, b.minZ - a.maxZ);
+  return Math.sqrt(dx * dx + dz * dz);
+}
+
+/**
+ * Grow a rectangle by `x` on both X sides and `z` on both Z sides
+ */
+export function expandRect(rect: Rect, x: number, z: number = x): Rect {
+  return { minX: rect.minX - x, maxX: rect.maxX + x, minZ: rect.minZ - z, maxZ: rect.maxZ + z };
+}
+
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+  return a.minX < b.maxX && b.minX < a.maxX && a.minZ < b.maxZ && b.minZ < a.maxZ;
+}
+
+/**
+ * Find pairs of courts that overlap or sit closer together than the required spacing.
+ */
+export function findLayoutConflicts(placements: CourtPlacement[], spacing: number): LayoutConflict[] {
+  const conflicts: LayoutConflict[] = [];
+  const rects = placements.map(getCourtFootprint);
+  // Tolerance so courts placed exactly `spacing` apart are not flagged by float error
+  const epsilon = 1e-6;
+
+  for (let i = 0; i < placements.length; i++) {
+    for (let j = i + 1; j < placements.length; j++) {
+      const courtIds: [string, string] = [placements[i].id, placements[j].id];
+      if (rectsOverlap(rects[i], rects[j])) {
+        conflicts.push({ type: 'overlap', courtIds, gap: 0 });
+        continue;
+      }
+      const gap = rectGap(rects[i], rects[j]);
+      if (gap < spacing - epsilon) {
+        conflicts.push({ type: 'spacing', courtIds, gap });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Convert any config into a free-form config, keeping court IDs and positions.
+ */
+export function toFreeformConfig(config: FacilityConfig, spacing: number): FreeformConfig {
+  return {
+    mode: 'freeform',
+    courts: getCourtPlacements(config, spacing).map((p) => ({ ...p })),
+  };
+}
+
+/**
+ * Collapse a free-form layout back into a grid with the same number of courts.
+ * Layouts that still fill their row/col indices keep that grid; otherwise courts are
+ * packed, in row/col order, into a near-square grid whose last row may be shorter.
+ * Rows whose courts are all rotated keep their rotation.
+ */
+export function toGridConfig(config: FreeformConfig): GridConversion {
+  const courts = [...config.courts].sort((a, b) => a.row - b.row || a.col - b.col);
+  const gridRows = courts.reduce((max, c) => Math.max(max, c.row + 1), 0);
+  const gridCols = courts.reduce((max, c) => Math.max(max, c.col + 1), 0);
+  const isFullGrid =
+    courts.length === gridRows * gridCols &&
+    courts.every((c, i) => c.row === Math.floor(i / gridCols) && c.col === i % gridCols);
+
+  const cols = isFullGrid ? gridCols : Math.ceil(Math.sqrt(courts.length));
+  const rows = isFullGrid ? gridRows : Math.ceil(courts.length / Math.max(1, cols));
+  const rowRotations = Array.from({ length: rows }, (_, row): CourtRotation => {
+    const rowCourts = courts.slice(row * cols, (row + 1) * cols);
+    return rowCourts.length > 0 && rowCourts.every((c) => c.rotation === 90) ? 90 : 0;
+  });
+  const rotations = rowRotations.includes(90) ? { rowRotations } : {};
+  const courtIdMap = Object.fromEntries(
+    courts.map((c, i) => [c.id, getCourtId(Math.floor(i / cols), i % cols)])
+  );
+
+  if (rows * cols === courts.length) {
+    return { config: { mode: 'even', rows, cols, ...rotations }, courtIdMap };
+  }
+  const rowLengths = Array.from({ length: rows }, (_, row) => Math.min(cols, courts.length - row * cols));
+  return { config: { mode: 'uneven', rows, maxCols: cols, rowLengths, ...rotations }, courtIdMap };
+}
+
+/**
+ * Create a new free-form court placed to the right of the existing layout.
+ * New courts get their own row index so their IDs never collide with grid-derived ones.
+ */
+export function createFreeformCourt(config: FreeformConfig, spacing: number): CourtPlacement {
+  const row = config.courts.reduce((max, c) => Math.max(max, c.row + 1), 0);
+  const bounds = getLayoutBounds(config.courts);
+  const x = config.courts.length === 0 ? COURT_WIDTH / 2 : bounds.maxX + spacing + COURT_WIDTH / 2;
+  const z = config.courts.length === 0 ? COURT_LENGTH / 2 : bounds.minZ + COURT_LENGTH / 2;
+  return { id: getCourtId(row, 0), row, col: 0, x, z, rotation: 0 };
+}
+
+export function snapToGrid(value: number, snap: number = PLACEMENT_SNAP): number {
+  return Math.round(value / snap) * snap;
+}
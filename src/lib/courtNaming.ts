@@ -0,0 +1,54 @@
+import { CourtNamingScheme, CourtOverrides, CourtPlacement, parseCourtId } from '@/types/facility';
+
+// Resolves a court ID to the label shown in the UI, notifications and exports
+export type CourtNamer = (courtId: string) => string;
+
+type CourtPosition = Pick<CourtPlacement, 'id' | 'row' | 'col'>;
+
+/**
+ * Row letters A..Z, then AA, AB, ... like spreadsheet columns
+ */
+export function getRowLetter(row: number): string {
+  let letters = '';
+  let n = row;
+  do {
+    letters = String.fromCharCode(65 + (n % 26)) + letters;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return letters;
+}
+
+/**
+ * 1-based court numbers in snake order: left to right on the first row,
+ * right to left on the next, and so on
+ */
+export function getSequentialNumbers(courts: CourtPosition[]): Map<string, number> {
+  const ordered = [...courts].sort((a, b) => {
+    if (a.row !== b.row) return a.row - b.row;
+    return a.row % 2 === 0 ? a.col - b.col : b.col - a.col;
+  });
+  return new Map(ordered.map((court, i) => [court.id, i + 1]));
+}
+
+/**
+ * Build a namer for the given courts. A court's custom name (from its
+ * overrides) always wins over the scheme.
+ */
+export function createCourtNamer(
+  courts: CourtPosition[],
+  scheme: CourtNamingScheme = 'grid',
+  courtOverrides: Record<string, CourtOverrides> = {}
+): CourtNamer {
+  const sequence = scheme === 'sequential' ? getSequentialNumbers(courts) : null;
+
+  return (courtId) => {
+    const custom = courtOverrides[courtId]?.name;
+    if (custom) return custom;
+
+    const { row, col } = parseCourtId(courtId);
+    if (Number.isNaN(row) || Number.isNaN(col)) return courtId;
+    if (scheme === 'letter-row') return `Court ${getRowLetter(row)}${col + 1}`;
+    if (sequence?.has(courtId)) return `Court ${sequence.get(courtId)}`;
+    return `Court ${row + 1}-${col + 1}`;
+  };
+}
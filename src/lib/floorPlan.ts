@@ -0,0 +1,491 @@
+import {
+  Amenity,
+  BuildingEnvelope,
+  CourtNamingScheme,
+  CourtOverrides,
+  CourtPlacement,
+  OverlaySport,
+  Point2D,
+  SPORT_OVERLAYS,
+  AMENITY_CATALOG,
+  COURT_WIDTH,
+  COURT_LENGTH,
+  KITCHEN_DEPTH,
+  LINE_WIDTH,
+  NET_POST_OFFSET,
+  DOCK_WIDTH,
+  DOCK_DEPTH,
+} from '@/types/facility';
+import { courtToWorld, getCourtFootprint, getLayoutBounds, Rect } from './courtLayout';
+import { getColumnRect, getPolygonBounds, getWallSegments, splitWallAtDoors } from './building';
+import { getCourtLineOverlays } from './courtAttributes';
+import { createCourtNamer } from './courtNaming';
+import { SPORT_LINE_SEGMENTS } from './sportLines';
+import { getAmenityFootprint } from './amenities';
+import { UnitSystem, formatLength } from './units';
+
+export type PlanLayer =
+  | 'BUILDING'
+  | 'COURTS'
+  | 'LINES'
+  | 'BADMINTON'
+  | 'VOLLEYBALL'
+  | 'TENNIS'
+  | 'NETS'
+  | 'DOCK'
+  | 'AMENITIES'
+  | 'DIMENSIONS'
+  | 'TEXT';
+
+export type PlanEntity =
+  | { type: 'polyline'; layer: PlanLayer; points: Point2D[]; closed: boolean; width?: number }
+  | { type: 'line'; layer: PlanLayer; start: Point2D; end: Point2D; width?: number }
+  | { type: 'text'; layer: PlanLayer; position: Point2D; text: string; height: number };
+
+export interface FloorPlan {
+  bounds: Rect;
+  entities: PlanEntity[];
+}
+
+export interface FloorPlanInput {
+  placements: CourtPlacement[];
+  building: BuildingEnvelope | null;
+  dockPosition: Point2D | null;
+  courtOverrides?: Record<string, CourtOverrides>;
+  lineOverlays?: OverlaySport[]; // facility-wide other-sport lines
+  courtNamingScheme?: CourtNamingScheme;
+  amenities?: Amenity[];
+  units?: UnitSystem; // for dimension labels; the drawing itself is always in meters
+}
+
+export const PLAN_LAYERS: PlanLayer[] = [
+  'BUILDING',
+  'COURTS',
+  'LINES',
+  'BADMINTON',
+  'VOLLEYBALL',
+  'TENNIS',
+  'NETS',
+  'DOCK',
+  'AMENITIES',
+  'DIMENSIONS',
+  'TEXT',
+];
+
+const OVERLAY_LAYERS: Record<OverlaySport, PlanLayer> = {
+  badminton: 'BADMINTON',
+  volleyball: 'VOLLEYBALL',
+  tennis: 'TENNIS',
+};
+
+// DXF ACI colors per layer
+const LAYER_COLORS: Record<PlanLayer, number> = {
+  BUILDING: 8,
+  COURTS: 5,
+  LINES: 7,
+  BADMINTON: 50,
+  VOLLEYBALL: 30,
+  TENNIS: 94,
+  NETS: 1,
+  DOCK: 3,
+  AMENITIES: 6,
+  DIMENSIONS: 2,
+  TEXT: 7,
+};
+
+const SVG_LAYER_COLORS: Record<PlanLayer, string> = {
+  BUILDING: '#6b7280',
+  COURTS: '#2563eb',
+  LINES: '#111827',
+  BADMINTON: SPORT_OVERLAYS.badminton.color,
+  VOLLEYBALL: SPORT_OVERLAYS.volleyball.color,
+  TENNIS: SPORT_OVERLAYS.tennis.color,
+  NETS: '#dc2626',
+  DOCK: '#16a34a',
+  AMENITIES: '#7c3aed',
+  DIMENSIONS: '#b45309',
+  TEXT: '#111827',
+};
+
+const TEXT_HEIGHT = 0.5;
+const DIMENSION_TEXT_HEIGHT = 0.35;
+const DIMENSION_OFFSET = 1.5; // overall dimensions sit this far outside the drawing
+const TICK_SIZE = 0.2;
+
+/**
+ * Court surface, painted lines (centered on the same offsets PickleballCourt uses) and net
+ */
+function courtEntities(placement: CourtPlacement): PlanEntity[] {
+  const halfWidth = COURT_WIDTH / 2;
+  const halfLength = COURT_LENGTH / 2;
+  const w = (x: number, z: number) => courtToWorld(placement, { x, z });
+  const paint = (a: Point2D, b: Point2D): PlanEntity => ({ type: 'line', layer: 'LINES', start: a, end: b, width: LINE_WIDTH });
+
+  const sideX = halfWidth - LINE_WIDTH / 2;
+  const baseZ = halfLength - LINE_WIDTH / 2;
+  return [
+    {
+      type: 'polyline',
+      layer: 'COURTS',
+      closed: true,
+      points: [w(-halfWidth, -halfLength), w(halfWidth, -halfLength), w(halfWidth, halfLength), w(-halfWidth, halfLength)],
+    },
+    // Sidelines and baselines
+    paint(w(-sideX, -halfLength), w(-sideX, halfLength)),
+    paint(w(sideX, -halfLength), w(sideX, halfLength)),
+    paint(w(-halfWidth, -baseZ), w(halfWidth, -baseZ)),
+    paint(w(-halfWidth, baseZ), w(halfWidth, baseZ)),
+    // Non-volley zone (kitchen) lines
+    paint(w(-halfWidth, -KITCHEN_DEPTH), w(halfWidth, -KITCHEN_DEPTH)),
+    paint(w(-halfWidth, KITCHEN_DEPTH), w(halfWidth, KITCHEN_DEPTH)),
+    // Centerlines
+    paint(w(0, -halfLength), w(0, -KITCHEN_DEPTH)),
+    paint(w(0, KITCHEN_DEPTH), w(0, halfLength)),
+    // Net between the posts
+    { type: 'line', layer: 'NETS', start: w(-halfWidth - NET_POST_OFFSET, 0), end: w(halfWidth + NET_POST_OFFSET, 0) },
+  ];
+}
+
+/**
+ * Other-sport lines painted on a court, one layer per sport
+ */
+function overlayEntities(placement: CourtPlacement, sports: OverlaySport[]): PlanEntity[] {
+  return sports.flatMap((sport) =>
+    SPORT_LINE_SEGMENTS[sport].map((segment): PlanEntity => ({
+      type: 'line',
+      layer: OVERLAY_LAYERS[sport],
+      start: courtToWorld(placement, segment.start),
+      end: courtToWorld(placement, segment.end),
+      width: SPORT_OVERLAYS[sport].lineWidth,
+    }))
+  );
+}
+
+function dimension(start: Point2D, end: Point2D, offset: Point2D, units: UnitSystem): PlanEntity[] {
+  const a = { x: start.x + offset.x, z: start.z + offset.z };
+  const b = { x: end.x + offset.x, z: end.z + offset.z };
+  const length = Math.hypot(end.x - start.x, end.z - start.z);
+  const dx = (end.x - start.x) / length;
+  const dz = (end.z - start.z) / length;
+  // Perpendicular to the measured direction
+  const tick = { x: -dz * TICK_SIZE, z: dx * TICK_SIZE };
+
+  return [
+    { type: 'line', layer: 'DIMENSIONS', start: a, end: b },
+    { type: 'line', layer: 'DIMENSIONS', start: { x: a.x - tick.x, z: a.z - tick.z }, end: { x: a.x + tick.x, z: a.z + tick.z } },
+    { type: 'line', layer: 'DIMENSIONS', start: { x: b.x - tick.x, z: b.z - tick.z }, end: { x: b.x + tick.x, z: b.z + tick.z } },
+    {
+      type: 'text',
+      layer: 'DIMENSIONS',
+      position: { x: (a.x + b.x) / 2 + tick.x * 1.5, z: (a.z + b.z) / 2 + tick.z * 1.5 },
+      text: formatLength(length, units),
+      height: DIMENSION_TEXT_HEIGHT,
+    },
+  ];
+}
+
+/**
+ * Dimension the aisle from each court to its nearest facing neighbour on +X and +Z
+ */
+function aisleDimensions(placements: CourtPlacement[], units: UnitSystem): PlanEntity[] {
+  const rects = placements.map(getCourtFootprint);
+  const entities: PlanEntity[] = [];
+
+  rects.forEach((rect, i) => {
+    let nearestX: { gap: number; other: Rect } | null = null;
+    let nearestZ: { gap: number; other: Rect } | null = null;
+
+    rects.forEach((other, j) => {
+      if (i === j) return;
+      const overlapZ = Math.min(rect.maxZ, other.maxZ) - Math.max(rect.minZ, other.minZ);
+      const overlapX = Math.min(rect.maxX, other.maxX) - Math.max(rect.minX, other.minX);
+      const gapX = other.minX - rect.maxX;
+      const gapZ = other.minZ - rect.maxZ;
+      if (overlapZ > 0 && gapX > 0 && (!nearestX || gapX < nearestX.gap)) nearestX = { gap: gapX, other };
+      if (overlapX > 0 && gapZ > 0 && (!nearestZ || gapZ < nearestZ.gap)) nearestZ = { gap: gapZ, other };
+    });
+
+    if (nearestX) {
+      const z = (Math.max(rect.minZ, nearestX.other.minZ) + Math.min(rect.maxZ, nearestX.other.maxZ)) / 2;
+      entities.push(...dimension({ x: rect.maxX, z }, { x: nearestX.other.minX, z }, { x: 0, z: 0 }, units));
+    }
+    if (nearestZ) {
+      const x = (Math.max(rect.minX, nearestZ.other.minX) + Math.min(rect.maxX, nearestZ.other.maxX)) / 2;
+      entities.push(...dimension({ x, z: rect.maxZ }, { x, z: nearestZ.other.minZ }, { x: 0, z: 0 }, units));
+    }
+  });
+
+  return entities;
+}
+
+function buildingEntities(building: BuildingEnvelope): PlanEntity[] {
+  const entities: PlanEntity[] = [
+    { type: 'polyline', layer: 'BUILDING', closed: true, points: building.footprint, width: building.wallThickness },
+  ];
+
+  getWallSegments(building)
+    .filter((wall) => !wall.isPerimeter)
+    .forEach((wall) => {
+      splitWallAtDoors(wall, building.doors).forEach((piece) => {
+        entities.push({ type: 'line', layer: 'BUILDING', start: piece.start, end: piece.end, width: building.wallThickness });
+      });
+    });
+
+  building.columns.forEach((column) => {
+    const r = getColumnRect(column);
+    entities.push({
+      type: 'polyline',
+      layer: 'BUILDING',
+      closed: true,
+      points: [{ x: r.minX, z: r.minZ }, { x: r.maxX, z: r.minZ }, { x: r.maxX, z: r.maxZ }, { x: r.minX, z: r.maxZ }],
+    });
+  });
+
+  return entities;
+}
+
+/**
+ * Build a top-down drawing of the facility in world meters (X right, Z down)
+ */
+export function createFloorPlan({
+  placements,
+  building,
+  dockPosition,
+  courtOverrides,
+  lineOverlays = [],
+  courtNamingScheme = 'grid',
+  amenities = [],
+  units = 'metric',
+}: FloorPlanInput): FloorPlan {
+  const entities: PlanEntity[] = [];
+  const courtName = createCourtNamer(placements, courtNamingScheme, courtOverrides);
+
+  if (building && building.footprint.length >= 3) {
+    entities.push(...buildingEntities(building));
+  }
+
+  placements.forEach((placement) => {
+    entities.push(...courtEntities(placement));
+    entities.push(...overlayEntities(placement, getCourtLineOverlays(lineOverlays, courtOverrides?.[placement.id])));
+    entities.push({
+      type: 'text',
+      layer: 'TEXT',
+      position: courtToWorld(placement, { x: 0, z: -COURT_LENGTH / 4 }),
+      text: courtName(placement.id),
+      height: TEXT_HEIGHT,
+    });
+  });
+
+  if (dockPosition) {
+    const hw = DOCK_WIDTH / 2;
+    const hd = DOCK_DEPTH / 2;
+    entities.push(
+      {
+        type: 'polyline',
+        layer: 'DOCK',
+        closed: true,
+        points: [
+          { x: dockPosition.x - hw, z: dockPosition.z - hd },
+          { x: dockPosition.x + hw, z: dockPosition.z - hd },
+          { x: dockPosition.x + hw, z: dockPosition.z + hd },
+          { x: dockPosition.x - hw, z: dockPosition.z + hd },
+        ],
+      },
+      { type: 'text', layer: 'DOCK', position: dockPosition, text: 'DOCK', height: DIMENSION_TEXT_HEIGHT }
+    );
+  }
+
+  amenities.forEach((amenity) => {
+    const rect = getAmenityFootprint(amenity);
+    entities.push(
+      {
+        type: 'polyline',
+        layer: 'AMENITIES',
+        closed: true,
+        points: [
+          { x: rect.minX, z: rect.minZ },
+          { x: rect.maxX, z: rect.minZ },
+          { x: rect.maxX, z: rect.maxZ },
+          { x: rect.minX, z: rect.maxZ },
+        ],
+      },
+      {
+        type: 'text',
+        layer: 'AMENITIES',
+        position: { x: amenity.x, z: amenity.z },
+        text: AMENITY_CATALOG[amenity.type].name,
+        height: DIMENSION_TEXT_HEIGHT,
+      }
+    );
+  });
+
+  entities.push(...aisleDimensions(placements, units));
+
+  // Overall footprint: the building when there is one, otherwise the courts
+  const extent = building && building.footprint.length >= 3
+    ? getPolygonBounds(building.footprint)
+    : getLayoutBounds(placements);
+  entities.push(
+    ...dimension({ x: extent.minX, z: extent.minZ }, { x: extent.maxX, z: extent.minZ }, { x: 0, z: -DIMENSION_OFFSET }, units),
+    ...dimension({ x: extent.minX, z: extent.maxZ }, { x: extent.minX, z: extent.minZ }, { x: -DIMENSION_OFFSET, z: 0 }, units)
+  );
+
+  return { bounds: getPlanBounds(entities), entities };
+}
+
+function getPlanBounds(entities: PlanEntity[]): Rect {
+  const points = entities.flatMap((e) => {
+    if (e.type === 'polyline') return e.points;
+    if (e.type === 'line') return [e.start, e.end];
+    return [e.position];
+  });
+  if (points.length === 0) return { minX: 0, maxX: 0, minZ: 0, maxZ: 0 };
+  return getPolygonBounds(points);
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const n = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Render a floor plan as SVG at 1:100 (1 m = 10 mm on paper)
+ */
+export function renderFloorPlanSvg(plan: FloorPlan): string {
+  const margin = 2;
+  const minX = plan.bounds.minX - margin;
+  const minZ = plan.bounds.minZ - margin;
+  const width = plan.bounds.maxX - plan.bounds.minX + margin * 2;
+  const height = plan.bounds.maxZ - plan.bounds.minZ + margin * 2;
+  const hairline = 0.03;
+
+  const groups = PLAN_LAYERS.map((layer) => {
+    const color = SVG_LAYER_COLORS[layer];
+    const body = plan.entities.filter((e) => e.layer === layer).map((e) => {
+      switch (e.type) {
+        case 'polyline': {
+          const points = e.points.map((p) => `${n(p.x)},${n(p.z)}`).join(' ');
+          const tag = e.closed ? 'polygon' : 'polyline';
+          return `<${tag} points="${points}" fill="none" stroke="${color}" stroke-width="${n(e.width ?? hairline)}"/>`;
+        }
+        case 'line':
+          return `<line x1="${n(e.start.x)}" y1="${n(e.start.z)}" x2="${n(e.end.x)}" y2="${n(e.end.z)}" stroke="${color}" stroke-width="${n(e.width ?? hairline)}"/>`;
+        case 'text':
+          return `<text x="${n(e.position.x)}" y="${n(e.position.z)}" font-size="${e.height}" fill="${color}" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif">${escapeXml(e.text)}</text>`;
+      }
+    });
+    return `  <g id="${layer.toLowerCase()}">\n${body.map((line) => `    ${line}`).join('\n')}\n  </g>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${n(width * 10)}mm" height="${n(height * 10)}mm" viewBox="${n(minX)} ${n(minZ)} ${n(width)} ${n(height)}">`,
+    `  <rect x="${n(minX)}" y="${n(minZ)}" width="${n(width)}" height="${n(height)}" fill="#ffffff"/>`,
+    ...groups,
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render a floor plan as AutoCAD R12 ASCII DXF in meters. Plan Z maps to
+ * DXF -Y so the drawing reads the same way up as the SVG.
+ */
+export function renderFloorPlanDxf(plan: FloorPlan): string {
+  const out: Array<string | number> = [];
+  const code = (group: number, value: string | number) => out.push(group, value);
+  const point = (p: Point2D, xCode = 10) => {
+    code(xCode, n(p.x));
+    code(xCode + 10, n(-p.z));
+    code(xCode + 20, 0);
+  };
+
+  code(0, 'SECTION');
+  code(2, 'HEADER');
+  code(9, '$ACADVER');
+  code(1, 'AC1009');
+  code(0, 'ENDSEC');
+
+  code(0, 'SECTION');
+  code(2, 'TABLES');
+  code(0, 'TABLE');
+  code(2, 'LAYER');
+  code(70, PLAN_LAYERS.length);
+  PLAN_LAYERS.forEach((layer) => {
+    code(0, 'LAYER');
+    code(2, layer);
+    code(70, 0);
+    code(62, LAYER_COLORS[layer]);
+    code(6, 'CONTINUOUS');
+  });
+  code(0, 'ENDTAB');
+  code(0, 'ENDSEC');
+
+  code(0, 'SECTION');
+  code(2, 'ENTITIES');
+  plan.entities.forEach((e) => {
+    switch (e.type) {
+      case 'line':
+        if (e.width) {
+          // LINE has no width in R12; use a two-vertex wide polyline for painted lines and walls
+          code(0, 'POLYLINE');
+          code(8, e.layer);
+          code(66, 1);
+          point({ x: 0, z: 0 });
+          code(70, 0);
+          code(40, n(e.width));
+          code(41, n(e.width));
+          [e.start, e.end].forEach((p) => {
+            code(0, 'VERTEX');
+            code(8, e.layer);
+            point(p);
+          });
+          code(0, 'SEQEND');
+          code(8, e.layer);
+        } else {
+          code(0, 'LINE');
+          code(8, e.layer);
+          point(e.start);
+          point(e.end, 11);
+        }
+        break;
+      case 'polyline':
+        code(0, 'POLYLINE');
+        code(8, e.layer);
+        code(66, 1);
+        point({ x: 0, z: 0 });
+        code(70, e.closed ? 1 : 0);
+        if (e.width) {
+          code(40, n(e.width));
+          code(41, n(e.width));
+        }
+        e.points.forEach((p) => {
+          code(0, 'VERTEX');
+          code(8, e.layer);
+          point(p);
+        });
+        code(0, 'SEQEND');
+        code(8, e.layer);
+        break;
+      case 'text':
+        code(0, 'TEXT');
+        code(8, e.layer);
+        point(e.position);
+        code(40, e.height);
+        code(1, e.text);
+        // Middle-center alignment uses the second alignment point
+        code(72, 1);
+        point(e.position, 11);
+        code(73, 2);
+        break;
+    }
+  });
+  code(0, 'ENDSEC');
+  code(0, 'EOF');
+
+  const lines: string[] = [];
+  for (let i = 0; i < out.length; i += 2) {
+    lines.push(String(out[i]).padStart(3, ' '), String(out[i + 1]));
+  }
+  return lines.join('\n') + '\n';
+}
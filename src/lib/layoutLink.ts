@@ -0,0 +1,185 @@
+import type { FacilityLayout } from '@/stores/facilityStore';
+import { AMENITY_CATALOG, COURT_NAMING_SCHEMES, SPORT_OVERLAYS, SURFACE_MATERIALS } from '@/types/facility';
+
+// The part of a facility layout carried by share links. Scheduling and robot
+// settings stay with the local facility.
+export type SharedLayout = Pick<
+  FacilityLayout,
+  | 'config'
+  | 'surfaceType'
+  | 'spacing'
+  | 'showNet'
+  | 'showLines'
+  | 'lineOverlays'
+  | 'courtOverrides'
+  | 'courtNamingScheme'
+  | 'amenities'
+  | 'lightFixtures'
+  | 'building'
+  | 'complianceRuleSetId'
+>;
+
+export const SHARED_LAYOUT_KEYS: (keyof SharedLayout)[] = [
+  'config',
+  'surfaceType',
+  'spacing',
+  'showNet',
+  'showLines',
+  'lineOverlays',
+  'courtOverrides',
+  'courtNamingScheme',
+  'amenities',
+  'lightFixtures',
+  'building',
+  'complianceRuleSetId',
+];
+
+// Bumped whenever the encoded shape changes incompatibly
+const LINK_VERSION = 1;
+
+// Route that renders a shared layout read-only
+export const VIEW_ROUTE = '/view';
+
+// Search parameter that asks Build mode to import a shared layout
+export const IMPORT_PARAM = 'layout';
+
+const isEmpty = (value: unknown) =>
+  value === null ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && value !== null && Object.keys(value).length === 0);
+
+// Millimeter precision is plenty for positions and keeps links short
+const roundNumbers = (_key: string, value: unknown) =>
+  typeof value === 'number' ? Math.round(value * 1000) / 1000 : value;
+
+const toBase64Url = (text: string): string => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+/**
+ * Encode a layout as a URL-safe string. Empty lists, empty override maps and
+ * null values are left out; they fall back to the defaults when loaded.
+ */
+export function encodeLayout(layout: SharedLayout): string {
+  const payload: Record<string, unknown> = { v: LINK_VERSION };
+  SHARED_LAYOUT_KEYS.forEach((key) => {
+    if (!isEmpty(layout[key])) payload[key] = layout[key];
+  });
+  return toBase64Url(JSON.stringify(payload, roundNumbers));
+}
+
+/**
+ * Decode a string produced by `encodeLayout`. Returns null for malformed links
+ * or links from an incompatible version. Missing fields are left for the caller
+ * to fill from defaults.
+ */
+export function decodeLayout(encoded: string): Partial<SharedLayout> | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return null;
+  }
+  if (typeof payload !== 'object' || payload === null) return null;
+
+  const data = payload as Record<string, unknown>;
+  if (data.v !== LINK_VERSION) return null;
+  return pickSharedLayout(data);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isCount = (value: unknown) => isNumber(value) && Number.isInteger(value) && value >= 0;
+
+const isRotation = (value: unknown) => value === 0 || value === 90;
+
+const isArrayOf = (value: unknown, check: (item: unknown) => boolean) => Array.isArray(value) && value.every(check);
+
+const isPoint = (value: unknown) => isRecord(value) && isNumber(value.x) && isNumber(value.z);
+
+// Objects with a string id and the listed numeric fields
+const hasIdAndNumbers = (value: unknown, keys: string[]): value is Record<string, unknown> =>
+  isRecord(value) && typeof value.id === 'string' && keys.every((key) => isNumber(value[key]));
+
+function isValidConfig(config: unknown): boolean {
+  if (!isRecord(config)) return false;
+  const rotations = config.rowRotations === undefined || isArrayOf(config.rowRotations, isRotation);
+  switch (config.mode) {
+    case 'even':
+      return isCount(config.rows) && isCount(config.cols) && rotations;
+    case 'uneven':
+      return isCount(config.rows) && isCount(config.maxCols) && isArrayOf(config.rowLengths, isCount) && rotations;
+    case 'freeform':
+      return isArrayOf(
+        config.courts,
+        (court) => hasIdAndNumbers(court, ['row', 'col', 'x', 'z']) && isRotation(court.rotation)
+      );
+    default:
+      return false;
+  }
+}
+
+function isValidBuilding(building: unknown): boolean {
+  if (building === null) return true;
+  return (
+    isRecord(building) &&
+    isArrayOf(building.footprint, isPoint) &&
+    isNumber(building.wallHeight) &&
+    isNumber(building.wallThickness) &&
+    isArrayOf(building.columns, (c) => hasIdAndNumbers(c, ['x', 'z', 'size'])) &&
+    isArrayOf(building.walls, (w) => isRecord(w) && typeof w.id === 'string' && isPoint(w.start) && isPoint(w.end)) &&
+    isArrayOf(building.doors, (d) => hasIdAndNumbers(d, ['offset', 'width']) && typeof d.wallId === 'string')
+  );
+}
+
+// Shape checks for each shared field, so a bad link or file cannot crash the scene
+const FIELD_VALIDATORS: Record<keyof SharedLayout, (value: unknown) => boolean> = {
+  config: isValidConfig,
+  surfaceType: (value) => typeof value === 'string' && value in SURFACE_MATERIALS,
+  spacing: (value) => isNumber(value) && value >= 0,
+  showNet: (value) => typeof value === 'boolean',
+  showLines: (value) => typeof value === 'boolean',
+  lineOverlays: (value) => isArrayOf(value, (sport) => typeof sport === 'string' && sport in SPORT_OVERLAYS),
+  courtOverrides: (value) => isRecord(value) && Object.values(value).every(isRecord),
+  courtNamingScheme: (value) => typeof value === 'string' && value in COURT_NAMING_SCHEMES,
+  amenities: (value) =>
+    isArrayOf(
+      value,
+      (a) => hasIdAndNumbers(a, ['x', 'z']) && isRotation(a.rotation) && typeof a.type === 'string' && a.type in AMENITY_CATALOG
+    ),
+  lightFixtures: (value) => isArrayOf(value, (f) => hasIdAndNumbers(f, ['x', 'z', 'height', 'lumens', 'beamAngle'])),
+  building: isValidBuilding,
+  complianceRuleSetId: (value) => value === null || typeof value === 'string',
+};
+
+/**
+ * Keep only the shared layout fields of parsed JSON. Returns null unless it has
+ * a court config in a known mode and every field present has the right shape.
+ */
+export function pickSharedLayout(data: Record<string, unknown>): Partial<SharedLayout> | null {
+  if (!isValidConfig(data.config)) return null;
+  const keys = SHARED_LAYOUT_KEYS.filter((key) => key in data);
+  if (!keys.every((key) => FIELD_VALIDATORS[key](data[key]))) return null;
+
+  return Object.fromEntries(keys.map((key) => [key, data[key]])) as Partial<SharedLayout>;
+}
+
+/**
+ * Absolute link to the read-only viewer for a layout
+ */
+export function getShareUrl(layout: SharedLayout, origin: string): string {
+  return `${origin}${VIEW_ROUTE}/${encodeLayout(layout)}`;
+}
@@ -0,0 +1,262 @@
+import {
+  BuildingEnvelope,
+  CourtPlacement,
+  CourtRotation,
+  FacilityConfig,
+  Point2D,
+  getCourtId,
+} from '@/types/facility';
+import { expandRect, getCourtDimensions, getCourtFootprint, Rect, rectsOverlap } from './courtLayout';
+import {
+  getColumnRect,
+  getDoorPlacements,
+  getPolygonBounds,
+  getWallSegments,
+  rectInsidePolygon,
+  segmentIntersectsRect,
+  splitWallAtDoors,
+} from './building';
+
+export interface OptimizerOptions {
+  width: number;   // meters, ignored when a building envelope is given
+  length: number;  // meters, ignored when a building envelope is given
+  building: BuildingEnvelope | null;
+  minSpacing: number;
+  maxSpacing: number;
+  spacingStep: number;
+  clearance: number; // distance kept between courts and walls/columns
+  maxResults?: number;
+}
+
+export interface LayoutCandidate {
+  id: string;
+  label: string;
+  config: FacilityConfig;
+  spacing: number;
+  placements: CourtPlacement[];
+  courtCount: number;
+  aisleWidth: number;      // gap between neighbouring courts
+  walkingDistance: number; // average aisle distance from the entrance to each court
+  utilization: number;     // court area / usable floor area
+}
+
+// Usable floor plus everything that blocks a court
+interface OptimizerSpace {
+  footprint: Point2D[];
+  bounds: Rect;
+  obstacles: Rect[];
+  wallPieces: Array<{ start: Point2D; end: Point2D }>;
+  entrance: Point2D;
+  area: number;
+}
+
+const EPSILON = 1e-6;
+const DEFAULT_MAX_RESULTS = 8;
+
+function polygonArea(polygon: Point2D[]): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    area += a.x * b.z - b.x * a.z;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Describe the floor to fill. Without a building the space is a width x length
+ * rectangle whose inner (clearance-inset) corner sits at the grid origin, so
+ * rotation-0 results line up with regular grid configs.
+ */
+function createSpace(options: OptimizerOptions): OptimizerSpace {
+  const { building, clearance } = options;
+
+  if (building && building.footprint.length >= 3) {
+    const bounds = getPolygonBounds(building.footprint);
+    const perimeterDoor = getDoorPlacements(building).find((d) => d.door.wallId.startsWith('perimeter-'));
+    return {
+      footprint: building.footprint,
+      bounds,
+      obstacles: building.columns.map(getColumnRect),
+      wallPieces: getWallSegments(building)
+        .filter((wall) => !wall.isPerimeter)
+        .flatMap((wall) => splitWallAtDoors(wall, building.doors)),
+      entrance: perimeterDoor ? perimeterDoor.center : { x: bounds.minX, z: (bounds.minZ + bounds.maxZ) / 2 },
+      area: polygonArea(building.footprint),
+    };
+  }
+
+  const bounds = {
+    minX: -clearance,
+    maxX: options.width - clearance,
+    minZ: -clearance,
+    maxZ: options.length - clearance,
+  };
+  return {
+    footprint: [
+      { x: bounds.minX, z: bounds.minZ },
+      { x: bounds.maxX, z: bounds.minZ },
+      { x: bounds.maxX, z: bounds.maxZ },
+      { x: bounds.minX, z: bounds.maxZ },
+    ],
+    bounds,
+    obstacles: [],
+    wallPieces: [],
+    entrance: { x: bounds.minX, z: (bounds.minZ + bounds.maxZ) / 2 },
+    area: options.width * options.length,
+  };
+}
+
+function courtFits(placement: CourtPlacement, space: OptimizerSpace, clearance: number): boolean {
+  // Shrink by EPSILON so courts sitting exactly at the clearance line still count as inside
+  const rect = expandRect(getCourtFootprint(placement), clearance - EPSILON);
+  if (!rectInsidePolygon(rect, space.footprint)) return false;
+  if (space.obstacles.some((obstacle) => rectsOverlap(rect, obstacle))) return false;
+  return !space.wallPieces.some((piece) => segmentIntersectsRect(piece.start, piece.end, rect));
+}
+
+/**
+ * Express rotation-0 placements anchored at the origin as an even/uneven grid
+ * when every row is a contiguous run starting at column 0; null otherwise.
+ */
+function toGridLayout(placements: CourtPlacement[], anchor: Point2D): FacilityConfig | null {
+  if (placements.length === 0) return null;
+  if (Math.abs(anchor.x) > EPSILON || Math.abs(anchor.z) > EPSILON) return null;
+  if (placements.some((p) => p.rotation !== 0)) return null;
+
+  const rows = placements.reduce((max, p) => Math.max(max, p.row + 1), 0);
+  const rowLengths = Array(rows).fill(0);
+  placements.forEach((p) => { rowLengths[p.row] = Math.max(rowLengths[p.row], p.col + 1); });
+  const contiguous = rowLengths.every((length, row) =>
+    placements.filter((p) => p.row === row).length === length
+  );
+  if (!contiguous) return null;
+
+  const maxCols = Math.max(...rowLengths);
+  if (rowLengths.every((length) => length === maxCols)) {
+    return { mode: 'even', rows, cols: maxCols };
+  }
+  return { mode: 'uneven', rows, maxCols, rowLengths };
+}
+
+function describeLayout(rowsByRotation: Record<CourtRotation, number>, placements: CourtPlacement[]): string {
+  const cols = (rotation: CourtRotation) =>
+    placements.filter((p) => p.rotation === rotation).reduce((max, p) => Math.max(max, p.col + 1), 0);
+
+  if (rowsByRotation[90] === 0) return `${cols(0)} × ${rowsByRotation[0]} grid`;
+  if (rowsByRotation[0] === 0) return `${cols(90)} × ${rowsByRotation[90]} rotated`;
+  return `${rowsByRotation[0]} row${rowsByRotation[0] !== 1 ? 's' : ''} + ${rowsByRotation[90]} rotated`;
+}
+
+/**
+ * Lay out `rows0` rows of standard courts, then fill the remaining depth with
+ * rows of rotated courts. Courts that hit walls or obstacles are dropped.
+ */
+function buildCandidate(
+  space: OptimizerSpace,
+  spacing: number,
+  rows0: number,
+  clearance: number
+): LayoutCandidate | null {
+  const anchor = { x: space.bounds.minX + clearance, z: space.bounds.minZ + clearance };
+  const usableWidth = space.bounds.maxX - clearance - anchor.x;
+  const usableLength = space.bounds.maxZ - clearance - anchor.z;
+  const placements: CourtPlacement[] = [];
+  const rowsByRotation: Record<CourtRotation, number> = { 0: 0, 90: 0 };
+
+  let z = anchor.z;
+  let row = 0;
+  const addRow = (rotation: CourtRotation) => {
+    const { width, length } = getCourtDimensions(rotation);
+    const cols = Math.floor((usableWidth + spacing + EPSILON) / (width + spacing));
+    let rowHasCourts = false;
+    for (let col = 0; col < cols; col++) {
+      const placement: CourtPlacement = {
+        id: getCourtId(row, col),
+        row,
+        col,
+        x: anchor.x + col * (width + spacing) + width / 2,
+        z: z + length / 2,
+        rotation,
+      };
+      if (courtFits(placement, space, clearance)) {
+        placements.push(placement);
+        rowHasCourts = true;
+      }
+    }
+    if (rowHasCourts) rowsByRotation[rotation]++;
+    z += length + spacing;
+    row++;
+  };
+
+  const { length: standardLength } = getCourtDimensions(0);
+  const { length: rotatedLength } = getCourtDimensions(90);
+  for (let i = 0; i < rows0 && z + standardLength <= anchor.z + usableLength + EPSILON; i++) {
+    addRow(0);
+  }
+  while (z + rotatedLength <= anchor.z + usableLength + EPSILON) {
+    addRow(90);
+  }
+
+  if (placements.length === 0) return null;
+
+  // Walking distance follows aisles, so use Manhattan distance from the entrance
+  const walkingDistance = placements.reduce(
+    (sum, p) => sum + Math.abs(p.x - space.entrance.x) + Math.abs(p.z - space.entrance.z),
+    0
+  ) / placements.length;
+  const courtArea = placements.reduce((sum, p) => {
+    const { width, length } = getCourtDimensions(p.rotation);
+    return sum + width * length;
+  }, 0);
+
+  const config = toGridLayout(placements, anchor) ?? { mode: 'freeform', courts: placements };
+  return {
+    id: `${rows0}-${spacing.toFixed(2)}`,
+    label: describeLayout(rowsByRotation, placements),
+    config,
+    spacing,
+    placements,
+    courtCount: placements.length,
+    aisleWidth: spacing,
+    walkingDistance,
+    utilization: space.area > 0 ? courtArea / space.area : 0,
+  };
+}
+
+/**
+ * Enumerate grid, rotated and mixed-orientation layouts over a range of spacings
+ * and rank them by court count, then aisle width, then walking distance.
+ * Only the best spacing is kept for each distinct arrangement.
+ */
+export function optimizeLayouts(options: OptimizerOptions): LayoutCandidate[] {
+  const space = createSpace(options);
+  const { minSpacing, maxSpacing, spacingStep, clearance } = options;
+  const maxRows0 = Math.ceil((space.bounds.maxZ - space.bounds.minZ) / getCourtDimensions(0).length);
+  const candidates: LayoutCandidate[] = [];
+
+  for (let spacing = minSpacing; spacing <= maxSpacing + EPSILON; spacing += spacingStep) {
+    const rounded = Math.round(spacing * 100) / 100;
+    for (let rows0 = 0; rows0 <= maxRows0; rows0++) {
+      const candidate = buildCandidate(space, rounded, rows0, clearance);
+      if (candidate) candidates.push(candidate);
+    }
+  }
+
+  candidates.sort((a, b) =>
+    b.courtCount - a.courtCount ||
+    b.aisleWidth - a.aisleWidth ||
+    a.walkingDistance - b.walkingDistance
+  );
+
+  const seen = new Set<string>();
+  const ranked: LayoutCandidate[] = [];
+  for (const candidate of candidates) {
+    const key = `${candidate.label}:${candidate.courtCount}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    ranked.push(candidate);
+    if (ranked.length >= (options.maxResults ?? DEFAULT_MAX_RESULTS)) break;
+  }
+  return ranked;
+}
@@ -0,0 +1,156 @@
+import { Amenity, CourtPlacement, COURT_WIDTH, getCourtId, AMENITY_CATALOG } from '@/types/facility';
+import { getCourtPlacements, getLayoutBounds } from './courtLayout';
+import { createDefaultBuilding } from './building';
+import { DEFAULT_RUN_OFF } from './amenities';
+import { SHARED_LAYOUT_KEYS, SharedLayout, pickSharedLayout } from './layoutLink';
+
+export interface LayoutTemplate {
+  id: string;
+  name: string;
+  description: string;
+  layout: Partial<SharedLayout>; // missing fields fall back to the defaults when applied
+}
+
+// Bumped whenever the exported file shape changes incompatibly
+const TEMPLATE_FILE_VERSION = 1;
+
+/**
+ * 15 courts in three rows of five, plus a sideways show court between two
+ * banks of bleachers kept clear of every court's run-off
+ */
+function createTournamentLayout(): Partial<SharedLayout> {
+  const spacing = 1.5;
+  const aisle = 0.5;
+  const grid = getCourtPlacements({ mode: 'even', rows: 3, cols: 5 }, spacing);
+  const bounds = getLayoutBounds(grid);
+  const bleachers = AMENITY_CATALOG.bleachers;
+  // Bleacher centers sit this far either side of the show court's center line
+  const bleacherOffset = COURT_WIDTH / 2 + DEFAULT_RUN_OFF.side + aisle + bleachers.depth / 2;
+  const showCourt: CourtPlacement = {
+    id: getCourtId(3, 0),
+    row: 3,
+    col: 0,
+    x: bounds.centerX,
+    z: bounds.maxZ + DEFAULT_RUN_OFF.end + aisle + bleachers.depth / 2 + bleacherOffset,
+    rotation: 90,
+  };
+
+  const amenities: Amenity[] = [];
+  [-1, 1].forEach((side) => {
+    [-1, 1].forEach((end) => {
+      amenities.push({
+        id: `amenity-${amenities.length + 1}`,
+        type: 'bleachers',
+        x: showCourt.x + end * (bleachers.width / 2 + aisle / 2),
+        z: showCourt.z + side * bleacherOffset,
+        rotation: 0,
+      });
+    });
+  });
+
+  return {
+    config: { mode: 'freeform', courts: [...grid, showCourt] },
+    spacing,
+    surfaceType: 'polypropylene',
+    courtOverrides: { [showCourt.id]: { name: 'Show Court', surfaceColor: '#1e3a8a' } },
+    amenities,
+  };
+}
+
+function createWarehouseLayout(): Partial<SharedLayout> {
+  const config = { mode: 'even' as const, rows: 3, cols: 4 };
+  const spacing = 2;
+  return {
+    config,
+    spacing,
+    surfaceType: 'polypropylene',
+    building: createDefaultBuilding(getCourtPlacements(config, spacing)),
+  };
+}
+
+export const BUILT_IN_TEMPLATES: LayoutTemplate[] = [
+  {
+    id: 'builtin-tennis-conversion',
+    name: '4-court tennis conversion',
+    description: 'Four courts in a 2×2 block that fits the fenced area of a single tennis court.',
+    layout: {
+      config: { mode: 'even', rows: 2, cols: 2 },
+      spacing: 1.5,
+      surfaceType: 'rubber',
+    },
+  },
+  {
+    id: 'builtin-warehouse-12',
+    name: '12-court warehouse',
+    description: 'Three rows of four courts with 2 m aisles inside a fitted building shell.',
+    layout: createWarehouseLayout(),
+  },
+  {
+    id: 'builtin-tournament-16',
+    name: 'Tournament 16 with show court',
+    description: '15 competition courts plus a sideways show court flanked by spectator bleachers.',
+    layout: createTournamentLayout(),
+  },
+  {
+    id: 'builtin-narrow-hall',
+    name: 'Narrow hall, mixed orientation',
+    description: 'Three courts lengthwise and one sideways court, for halls too shallow for two full rows.',
+    layout: {
+      config: { mode: 'uneven', rows: 2, maxCols: 3, rowLengths: [3, 1], rowRotations: [0, 90] },
+      spacing: 1.5,
+      surfaceType: 'hardwood',
+    },
+  },
+];
+
+const generateId = () => `template-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * A user template holding the shared fields of the given layout
+ */
+export function createTemplate(name: string, description: string, layout: SharedLayout): LayoutTemplate {
+  return {
+    id: generateId(),
+    name,
+    description,
+    layout: Object.fromEntries(SHARED_LAYOUT_KEYS.map((key) => [key, layout[key]])) as SharedLayout,
+  };
+}
+
+/**
+ * JSON file contents for exporting templates
+ */
+export function renderTemplatesJson(templates: LayoutTemplate[]): string {
+  return JSON.stringify({ version: TEMPLATE_FILE_VERSION, templates }, null, 2);
+}
+
+/**
+ * Read templates from an exported JSON file. Entries without a name or a valid
+ * layout are skipped; returns null when the file is not a template export.
+ * Imported templates get fresh IDs so they never replace existing ones.
+ */
+export function parseTemplatesJson(json: string): LayoutTemplate[] | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const file = data as { version?: unknown; templates?: unknown } | null;
+  if (!file || file.version !== TEMPLATE_FILE_VERSION || !Array.isArray(file.templates)) return null;
+
+  return file.templates.flatMap((entry: unknown) => {
+    const template = entry as Partial<Record<keyof LayoutTemplate, unknown>> | null;
+    if (!template || typeof template.name !== 'string' || typeof template.layout !== 'object' || !template.layout) {
+      return [];
+    }
+    const layout = pickSharedLayout(template.layout as Record<string, unknown>);
+    if (!layout) return [];
+    return [{
+      id: generateId(),
+      name: template.name,
+      description: typeof template.description === 'string' ? template.description : '',
+      layout,
+    }];
+  });
+}
@@ -0,0 +1,168 @@
+import { CourtPlacement, LightFixture, Point2D, COURT_WIDTH, COURT_LENGTH } from '@/types/facility';
+import { courtToWorld, getLayoutBounds, snapToGrid } from './courtLayout';
+import { CourtNamer } from './courtNaming';
+import { toCsv } from './utils';
+
+export interface CourtIlluminance {
+  courtId: string;
+  cols: number; // samples across the court (local X)
+  rows: number; // samples along the court (local Z)
+  values: number[]; // lux at each sample, row-major from the local -Z baseline
+  min: number;
+  avg: number;
+  max: number;
+  uniformity: number; // min / avg
+  minMaxRatio: number; // min / max
+}
+
+// Typical LED high-bay fixture for indoor courts
+export const DEFAULT_FIXTURE: Omit<LightFixture, 'id' | 'x' | 'z'> = {
+  height: 8,
+  lumens: 40000,
+  beamAngle: 120,
+};
+
+// Distance between illuminance samples on the playing surface (meters)
+export const ILLUMINANCE_GRID_SPACING = 0.5;
+
+// Heatmap color scale tops out here (lux)
+export const HEATMAP_MAX_LUX = 1000;
+
+/**
+ * Luminous intensity (candela) of a fixture that spreads its flux evenly over its beam cone
+ */
+export function getFixtureIntensity(fixture: Pick<LightFixture, 'lumens' | 'beamAngle'>): number {
+  const halfAngle = (Math.min(180, Math.max(1, fixture.beamAngle)) * Math.PI) / 360;
+  const solidAngle = 2 * Math.PI * (1 - Math.cos(halfAngle));
+  return fixture.lumens / solidAngle;
+}
+
+/**
+ * Horizontal illuminance (lux) on the floor at a point, using the inverse-square cosine
+ * law for each fixture whose beam reaches it
+ */
+export function getIlluminanceAt(point: Point2D, fixtures: LightFixture[]): number {
+  return fixtures.reduce((total, fixture) => {
+    if (fixture.height <= 0) return total;
+    const horizontal = Math.sqrt((point.x - fixture.x) ** 2 + (point.z - fixture.z) ** 2);
+    const distanceSq = horizontal * horizontal + fixture.height * fixture.height;
+    const cosine = fixture.height / Math.sqrt(distanceSq);
+    if (Math.acos(cosine) > (fixture.beamAngle * Math.PI) / 360) return total;
+    return total + (getFixtureIntensity(fixture) * cosine) / distanceSq;
+  }, 0);
+}
+
+/**
+ * Sample illuminance over a court's playing surface on a regular grid of cell centers
+ */
+export function computeCourtIlluminance(
+  placement: CourtPlacement,
+  fixtures: LightFixture[],
+  spacing: number = ILLUMINANCE_GRID_SPACING
+): CourtIlluminance {
+  const cols = Math.max(1, Math.ceil(COURT_WIDTH / spacing));
+  const rows = Math.max(1, Math.ceil(COURT_LENGTH / spacing));
+  const values: number[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const local = {
+        x: -COURT_WIDTH / 2 + ((col + 0.5) * COURT_WIDTH) / cols,
+        z: -COURT_LENGTH / 2 + ((row + 0.5) * COURT_LENGTH) / rows,
+      };
+      values.push(getIlluminanceAt(courtToWorld(placement, local), fixtures));
+    }
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const avg = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return {
+    courtId: placement.id,
+    cols,
+    rows,
+    values,
+    min,
+    avg,
+    max,
+    uniformity: avg > 0 ? min / avg : 0,
+    minMaxRatio: max > 0 ? min / max : 0,
+  };
+}
+
+/**
+ * Illuminance results for every court in the layout
+ */
+export function computeLightingReport(placements: CourtPlacement[], fixtures: LightFixture[]): CourtIlluminance[] {
+  return placements.map((placement) => computeCourtIlluminance(placement, fixtures));
+}
+
+const nextFixtureId = (fixtures: LightFixture[]) => {
+  const usedIds = new Set(fixtures.map((f) => f.id));
+  let n = fixtures.length + 1;
+  while (usedIds.has(`fixture-${n}`)) n++;
+  return `fixture-${n}`;
+};
+
+/**
+ * A default fixture hung over the middle of the layout
+ */
+export function createFixture(fixtures: LightFixture[], placements: CourtPlacement[]): LightFixture {
+  const bounds = getLayoutBounds(placements);
+  return {
+    id: nextFixtureId(fixtures),
+    x: snapToGrid(bounds.centerX),
+    z: snapToGrid(bounds.centerZ),
+    ...DEFAULT_FIXTURE,
+  };
+}
+
+/**
+ * Four default fixtures per court, hung over the sidelines a quarter of the way in from each baseline
+ */
+export function createCourtFixtures(fixtures: LightFixture[], placements: CourtPlacement[]): LightFixture[] {
+  const created: LightFixture[] = [];
+  placements.forEach((placement) => {
+    [-1, 1].forEach((side) => {
+      [-1, 1].forEach((end) => {
+        const position = courtToWorld(placement, { x: (side * COURT_WIDTH) / 2, z: (end * COURT_LENGTH) / 4 });
+        created.push({ id: nextFixtureId([...fixtures, ...created]), ...position, ...DEFAULT_FIXTURE });
+      });
+    });
+  });
+  return created;
+}
+
+/**
+ * Heatmap color for an illuminance value: blue (dark) through green and yellow to red (bright)
+ */
+export function getHeatmapColor(lux: number): [number, number, number] {
+  const stops: [number, number, number][] = [
+    [37, 99, 235],
+    [34, 197, 94],
+    [250, 204, 21],
+    [239, 68, 68],
+  ];
+  const t = Math.min(1, Math.max(0, lux / HEATMAP_MAX_LUX)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(t));
+  const f = t - i;
+  return stops[i].map((c, k) => Math.round(c + (stops[i + 1][k] - c) * f)) as [number, number, number];
+}
+
+/**
+ * CSV summary of the lighting report, one row per court
+ */
+export function renderLightingCsv(report: CourtIlluminance[], courtName: CourtNamer): string {
+  const rows: (string | number)[][] = [['Court', 'Min (lux)', 'Avg (lux)', 'Max (lux)', 'Min/Avg', 'Min/Max']];
+  report.forEach((court) => {
+    rows.push([
+      courtName(court.courtId),
+      court.min.toFixed(0),
+      court.avg.toFixed(0),
+      court.max.toFixed(0),
+      court.uniformity.toFixed(2),
+      court.minMaxRatio.toFixed(2),
+    ]);
+  });
+  return toCsv(rows);
+}
@@ -0,0 +1,103 @@
+import {
+  CourtPlacement,
+  COURT_LENGTH,
+  COURT_WIDTH,
+  KITCHEN_DEPTH,
+  NET_POST_OFFSET,
+  Point2D,
+} from '@/types/facility';
+import { courtToWorld } from './courtLayout';
+import { segmentLength } from './building';
+
+export type SnapKind = 'corner' | 'intersection' | 'net_post';
+
+export interface SnapTarget {
+  kind: SnapKind;
+  point: Point2D;
+}
+
+export interface Measurement {
+  id: string;
+  points: Point2D[]; // world ground coordinates, in click order
+}
+
+export interface MeasurementSegment {
+  start: Point2D;
+  end: Point2D;
+  length: number; // meters
+  cumulative: number; // meters from the first point to `end`
+}
+
+// Clicks within this distance of a snap target land on it (meters)
+export const SNAP_RADIUS = 0.4;
+
+const halfWidth = COURT_WIDTH / 2;
+const halfLength = COURT_LENGTH / 2;
+
+// Snap targets of a court at the origin, in court-local coordinates
+const LOCAL_SNAP_TARGETS: SnapTarget[] = [
+  // Outer corners of the playing area
+  ...[-1, 1].flatMap((sx) => [-1, 1].map((sz) => ({
+    kind: 'corner' as const,
+    point: { x: sx * halfWidth, z: sz * halfLength },
+  }))),
+  // Sidelines crossing the net line and kitchen lines
+  ...[-1, 1].flatMap((sx) => [0, -KITCHEN_DEPTH, KITCHEN_DEPTH].map((z) => ({
+    kind: 'intersection' as const,
+    point: { x: sx * halfWidth, z },
+  }))),
+  // Centerline meeting the kitchen lines and baselines
+  ...[-KITCHEN_DEPTH, KITCHEN_DEPTH, -halfLength, halfLength].map((z) => ({
+    kind: 'intersection' as const,
+    point: { x: 0, z },
+  })),
+  ...[-1, 1].map((sx) => ({
+    kind: 'net_post' as const,
+    point: { x: sx * (halfWidth + NET_POST_OFFSET), z: 0 },
+  })),
+];
+
+/**
+ * Points a measurement snaps to: court corners, line intersections and net posts
+ */
+export function getSnapTargets(placements: CourtPlacement[]): SnapTarget[] {
+  return placements.flatMap((placement) =>
+    LOCAL_SNAP_TARGETS.map(({ kind, point }) => ({ kind, point: courtToWorld(placement, point) }))
+  );
+}
+
+/**
+ * Nearest snap target within `radius` of the point, or null when none is close enough
+ */
+export function findSnapTarget(point: Point2D, targets: SnapTarget[], radius: number = SNAP_RADIUS): SnapTarget | null {
+  let nearest: SnapTarget | null = null;
+  let nearestDistance = radius;
+  targets.forEach((target) => {
+    const distance = segmentLength(point, target.point);
+    if (distance <= nearestDistance) {
+      nearest = target;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Segment lengths along a measurement polyline, with the running total
+ */
+export function getMeasurementSegments(points: Point2D[]): MeasurementSegment[] {
+  let cumulative = 0;
+  return points.slice(1).map((end, i) => {
+    const start = points[i];
+    const length = segmentLength(start, end);
+    cumulative += length;
+    return { start, end, length, cumulative };
+  });
+}
+
+/**
+ * Total length of a measurement polyline (meters)
+ */
+export function getMeasurementLength(points: Point2D[]): number {
+  return points.slice(1).reduce((sum, end, i) => sum + segmentLength(points[i], end), 0);
+}
@@ -0,0 +1,287 @@
+import { Point2D } from '@/types/facility';
+import { Rect } from './courtLayout';
+
+const SQRT2 = Math.SQRT2;
+
+// 8-connected neighbourhood: [dCol, dRow, step cost]
+const NEIGHBOURS: Array<[number, number, number]> = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, SQRT2], [1, -1, SQRT2], [-1, 1, SQRT2], [-1, -1, SQRT2],
+];
+
+/**
+ * Distance from a point to a line segment
+ */
+export function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const lengthSq = dx * dx + dz * dz;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.z - a.z) * dz) / lengthSq));
+  const cx = a.x + dx * t;
+  const cz = a.z + dz * t;
+  return Math.sqrt((p.x - cx) ** 2 + (p.z - cz) ** 2);
+}
+
+/**
+ * Minimal binary min-heap keyed by f-score, storing cell indices
+ */
+class MinHeap {
+  private items: number[] = [];
+  private scores: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: number, score: number) {
+    this.items.push(item);
+    this.scores.push(score);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.scores[parent] <= this.scores[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastScore = this.scores.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.scores[0] = lastScore;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.scores[left] < this.scores[smallest]) smallest = left;
+        if (right < this.items.length && this.scores[right] < this.scores[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+/**
+ * Occupancy grid over the facility floor used for obstacle-aware robot routing.
+ * Cells are either blocked or carry a traversal cost multiplier (1 = open aisle).
+ */
+export class NavigationGrid {
+  readonly resolution: number;
+  private originX: number;
+  private originZ: number;
+  private cols: number;
+  private rows: number;
+  private blocked: Uint8Array;
+  private cost: Float32Array;
+
+  constructor(bounds: Rect, resolution: number = 0.25) {
+    this.resolution = resolution;
+    this.originX = bounds.minX;
+    this.originZ = bounds.minZ;
+    this.cols = Math.max(1, Math.ceil((bounds.maxX - bounds.minX) / resolution));
+    this.rows = Math.max(1, Math.ceil((bounds.maxZ - bounds.minZ) / resolution));
+    this.blocked = new Uint8Array(this.cols * this.rows);
+    this.cost = new Float32Array(this.cols * this.rows).fill(1);
+  }
+
+  blockRect(rect: Rect, inflate: number) {
+    this.forEachCellInRect(rect, inflate, (index) => {
+      this.blocked[index] = 1;
+    });
+  }
+
+  blockSegment(start: Point2D, end: Point2D, inflate: number) {
+    const rect = {
+      minX: Math.min(start.x, end.x),
+      maxX: Math.max(start.x, end.x),
+      minZ: Math.min(start.z, end.z),
+      maxZ: Math.max(start.z, end.z),
+    };
+    this.forEachCellInRect(rect, inflate, (index, center) => {
+      if (distanceToSegment(center, start, end) < inflate) {
+        this.blocked[index] = 1;
+      }
+    });
+  }
+
+  setRectCost(rect: Rect, cost: number) {
+    this.forEachCellInRect(rect, 0, (index) => {
+      this.cost[index] = Math.max(this.cost[index], cost);
+    });
+  }
+
+  isBlocked(point: Point2D): boolean {
+    const index = this.indexOf(point);
+    return index === -1 || this.blocked[index] === 1;
+  }
+
+  /**
+   * A* search between two world points. Returns simplified waypoints
+   * (excluding `from`, ending exactly at `to`), or null when unreachable.
+   */
+  findPath(from: Point2D, to: Point2D): Point2D[] | null {
+    const start = this.nearestFreeCell(from);
+    const goal = this.nearestFreeCell(to);
+    if (start === -1 || goal === -1) return null;
+
+    const total = this.cols * this.rows;
+    const gScore = new Float32Array(total).fill(Infinity);
+    const cameFrom = new Int32Array(total).fill(-1);
+    const closed = new Uint8Array(total);
+    const open = new MinHeap();
+
+    const goalCol = goal % this.cols;
+    const goalRow = Math.floor(goal / this.cols);
+    const heuristic = (index: number) => {
+      const dc = Math.abs((index % this.cols) - goalCol);
+      const dr = Math.abs(Math.floor(index / this.cols) - goalRow);
+      return Math.max(dc, dr) + (SQRT2 - 1) * Math.min(dc, dr);
+    };
+
+    gScore[start] = 0;
+    open.push(start, heuristic(start));
+
+    while (open.size > 0) {
+      const current = open.pop();
+      if (current === goal) break;
+      if (closed[current]) continue;
+      closed[current] = 1;
+
+      const col = current % this.cols;
+      const row = Math.floor(current / this.cols);
+      for (const [dc, dr, step] of NEIGHBOURS) {
+        const nc = col + dc;
+        const nr = row + dr;
+        if (nc < 0 || nr < 0 || nc >= this.cols || nr >= this.rows) continue;
+        const next = nr * this.cols + nc;
+        if (this.blocked[next] || closed[next]) continue;
+        // Don't cut corners diagonally past blocked cells
+        if (dc !== 0 && dr !== 0 && (this.blocked[row * this.cols + nc] || this.blocked[nr * this.cols + col])) continue;
+
+        const tentative = gScore[current] + step * this.cost[next];
+        if (tentative < gScore[next]) {
+          gScore[next] = tentative;
+          cameFrom[next] = current;
+          open.push(next, tentative + heuristic(next));
+        }
+      }
+    }
+
+    if (start !== goal && cameFrom[goal] === -1) return null;
+
+    const cells: number[] = [];
+    for (let c = goal; c !== -1; c = cameFrom[c]) {
+      cells.push(c);
+      if (c === start) break;
+    }
+    cells.reverse();
+
+    const waypoints = this.simplify(cells.map((c) => this.cellCenter(c)));
+    waypoints.shift();
+    waypoints.push({ x: to.x, z: to.z });
+    return waypoints;
+  }
+
+  /**
+   * String-pull the raw cell path: drop waypoints that are in direct line of sight
+   */
+  private simplify(points: Point2D[]): Point2D[] {
+    if (points.length <= 2) return points;
+    const result: Point2D[] = [points[0]];
+    let anchor = 0;
+    for (let i = 2; i < points.length; i++) {
+      if (!this.hasLineOfSight(points[anchor], points[i])) {
+        result.push(points[i - 1]);
+        anchor = i - 1;
+      }
+    }
+    result.push(points[points.length - 1]);
+    return result;
+  }
+
+  /**
+   * Line of sight fails on blocked cells, or on cells costlier than both endpoints
+   * (so smoothing never shortcuts across courts that A* routed around).
+   */
+  private hasLineOfSight(a: Point2D, b: Point2D): boolean {
+    const maxCost = Math.max(this.costAt(a), this.costAt(b));
+    const steps = Math.ceil(Math.sqrt((b.x - a.x) ** 2 + (b.z - a.z) ** 2) / (this.resolution / 2));
+    for (let i = 1; i < steps; i++) {
+      const t = i / steps;
+      const index = this.indexOf({ x: a.x + (b.x - a.x) * t, z: a.z + (b.z - a.z) * t });
+      if (index === -1 || this.blocked[index] || this.cost[index] > maxCost) return false;
+    }
+    return true;
+  }
+
+  private costAt(point: Point2D): number {
+    const index = this.indexOf(point);
+    return index === -1 ? Infinity : this.cost[index];
+  }
+
+  private nearestFreeCell(point: Point2D): number {
+    const col = Math.min(this.cols - 1, Math.max(0, Math.floor((point.x - this.originX) / this.resolution)));
+    const row = Math.min(this.rows - 1, Math.max(0, Math.floor((point.z - this.originZ) / this.resolution)));
+    const maxRadius = Math.max(this.cols, this.rows);
+    for (let radius = 0; radius < maxRadius; radius++) {
+      let best = -1;
+      let bestDist = Infinity;
+      for (let dr = -radius; dr <= radius; dr++) {
+        for (let dc = -radius; dc <= radius; dc++) {
+          if (Math.max(Math.abs(dr), Math.abs(dc)) !== radius) continue;
+          const r = row + dr;
+          const c = col + dc;
+          if (r < 0 || c < 0 || r >= this.rows || c >= this.cols) continue;
+          const index = r * this.cols + c;
+          if (this.blocked[index]) continue;
+          const dist = dr * dr + dc * dc;
+          if (dist < bestDist) {
+            best = index;
+            bestDist = dist;
+          }
+        }
+      }
+      if (best !== -1) return best;
+    }
+    return -1;
+  }
+
+  private indexOf(point: Point2D): number {
+    const col = Math.floor((point.x - this.originX) / this.resolution);
+    const row = Math.floor((point.z - this.originZ) / this.resolution);
+    if (col < 0 || row < 0 || col >= this.cols || row >= this.rows) return -1;
+    return row * this.cols + col;
+  }
+
+  private cellCenter(index: number): Point2D {
+    return {
+      x: this.originX + ((index % this.cols) + 0.5) * this.resolution,
+      z: this.originZ + (Math.floor(index / this.cols) + 0.5) * this.resolution,
+    };
+  }
+
+  private forEachCellInRect(rect: Rect, inflate: number, fn: (index: number, center: Point2D) => void) {
+    const minCol = Math.max(0, Math.floor((rect.minX - inflate - this.originX) / this.resolution));
+    const maxCol = Math.min(this.cols - 1, Math.floor((rect.maxX + inflate - this.originX) / this.resolution));
+    const minRow = Math.max(0, Math.floor((rect.minZ - inflate - this.originZ) / this.resolution));
+    const maxRow = Math.min(this.rows - 1, Math.floor((rect.maxZ + inflate - this.originZ) / this.resolution));
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const index = row * this.cols + col;
+        fn(index, this.cellCenter(index));
+      }
+    }
+  }
+}
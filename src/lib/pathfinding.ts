@@ -1,8 +1,21 @@
-import { COURT_WIDTH, COURT_LENGTH } from '@/types/facility';
+import { COURT_WIDTH, COURT_LENGTH, Amenity, CourtPlacement, BuildingEnvelope, getCourtId } from '@/types/facility';
+import { courtToWorld, expandRect, getCourtFootprint, getLayoutBounds, Rect } from './courtLayout';
+import { getColumnRect, getSceneBounds, getWallSegments, splitWallAtDoors } from './building';
+import { getAmenityFootprint } from './amenities';
+import { NavigationGrid } from './navigationGrid';
 
 // Net zone - robot cannot cross through center of court
 const NET_ZONE_HALF_WIDTH = 0.5; // 0.5m on each side of net centerline
 
+// Clearance kept between the robot center and building obstacles (CC1 is ~0.6m wide)
+const ROBOT_CLEARANCE = 0.35;
+
+// Extra traversal cost for driving across court surfaces, so routes prefer aisles
+const COURT_TRAVERSAL_COST = 4;
+
+// Open floor planned around the courts, amenities and building footprint
+const OPEN_FLOOR_MARGIN = 3;
+
 interface Point {
   x: number;
   z: number;
@@ -16,52 +29,121 @@ interface PathNode {
 }
 
 /**
- * Manhattan-style pathfinding through facility aisles.
- * Courts are treated as obstacles; robots navigate through the spacing between them.
+ * Build an occupancy grid for the facility: amenities, nets and (with a building)
+ * walls minus door openings and columns are blocked; court surfaces are traversable
+ * but costly. The grid covers the open floor around the courts, amenities and
+ * building, so a dock outside the footprint is reached through a perimeter door.
+ */
+function createNavigationGrid(
+  placements: CourtPlacement[],
+  building: BuildingEnvelope | null,
+  amenities: Amenity[]
+): NavigationGrid {
+  const amenityRects = amenities.map(getAmenityFootprint);
+  const grid = new NavigationGrid(expandRect(getSceneBounds(placements, building, amenityRects), OPEN_FLOOR_MARGIN));
+
+  placements.forEach((p) => {
+    const rect = getCourtFootprint(p);
+    grid.setRectCost(rect, COURT_TRAVERSAL_COST);
+
+    // Net runs across the court width, between the posts
+    const netHalfSpan = COURT_WIDTH / 2 + 0.1;
+    const netStart = p.rotation === 90 ? { x: p.x, z: p.z - netHalfSpan } : { x: p.x - netHalfSpan, z: p.z };
+    const netEnd = p.rotation === 90 ? { x: p.x, z: p.z + netHalfSpan } : { x: p.x + netHalfSpan, z: p.z };
+    grid.blockSegment(netStart, netEnd, ROBOT_CLEARANCE);
+  });
+
+  amenityRects.forEach((rect) => grid.blockRect(rect, ROBOT_CLEARANCE));
+
+  if (!building) return grid;
+  const halfThickness = building.wallThickness / 2;
+
+  // Perimeter and interior walls alike are only passable through their doors
+  getWallSegments(building).forEach((wall) => {
+    splitWallAtDoors(wall, building.doors).forEach((piece) => {
+      grid.blockSegment(piece.start, piece.end, ROBOT_CLEARANCE + halfThickness);
+    });
+  });
+
+  building.columns.forEach((column) => {
+    grid.blockRect(getColumnRect(column), ROBOT_CLEARANCE);
+  });
+
+  return grid;
+}
+
+/**
+ * Pathfinding through facility aisles.
+ * On an empty open floor, robots use Manhattan routing through the spacing between courts.
+ * With a building envelope or any amenities, routes are planned on an occupancy grid so
+ * walls, columns, amenities and nets are avoided.
  */
 export class FacilityPathfinder {
   private spacing: number;
-  private rows: number;
-  private cols: number;
-  private rowLengths: number[];
+  private placements: Map<string, CourtPlacement>;
+  private layoutBounds: Rect;
+  private navigationGrid: NavigationGrid | null;
 
-  constructor(rows: number, cols: number, spacing: number, rowLengths?: number[]) {
-    this.rows = rows;
-    this.cols = cols;
+  constructor(
+    placements: CourtPlacement[],
+    spacing: number,
+    building: BuildingEnvelope | null = null,
+    amenities: Amenity[] = []
+  ) {
     this.spacing = spacing;
-    this.rowLengths = rowLengths || Array(rows).fill(cols);
+    this.placements = new Map(placements.map((p) => [p.id, p]));
+    this.layoutBounds = getLayoutBounds(placements);
+    const usableBuilding = building && building.footprint.length >= 3 ? building : null;
+    this.navigationGrid = usableBuilding || amenities.length > 0
+      ? createNavigationGrid(placements, usableBuilding, amenities)
+      : null;
+  }
+
+  /**
+   * Z coordinate of the main aisle running along the front of the facility
+   */
+  private get mainAisleZ(): number {
+    return this.layoutBounds.minZ - this.spacing / 2;
   }
 
   /**
    * Get the center position of a court in world coordinates
    */
   getCourtCenter(row: number, col: number): Point {
-    const courtWidthWithSpacing = COURT_WIDTH + this.spacing;
-    const courtLengthWithSpacing = COURT_LENGTH + this.spacing;
-    
-    return {
-      x: col * courtWidthWithSpacing + COURT_WIDTH / 2,
-      z: row * courtLengthWithSpacing + COURT_LENGTH / 2,
-    };
+    const placement = this.placements.get(getCourtId(row, col));
+    if (!placement) return { x: 0, z: 0 };
+    return { x: placement.x, z: placement.z };
+  }
+
+  /**
+   * Get the world footprint of a court
+   */
+  getCourtBounds(row: number, col: number): Rect {
+    const placement = this.placements.get(getCourtId(row, col));
+    if (!placement) return { minX: 0, maxX: 0, minZ: 0, maxZ: 0 };
+    return getCourtFootprint(placement);
   }
 
   /**
    * Get waypoint positions for navigating to a court.
    * Uses Manhattan routing: move along X first, then Z (through aisles).
+   * Returns null when obstacles leave no route to the court.
    */
-  getPathToCourtEntrance(from: Point, targetRow: number, targetCol: number): Point[] {
+  getPathToCourtEntrance(from: Point, targetRow: number, targetCol: number): Point[] | null {
     const path: Point[] = [];
     const courtCenter = this.getCourtCenter(targetRow, targetCol);
-    const courtWidthWithSpacing = COURT_WIDTH + this.spacing;
-    const courtLengthWithSpacing = COURT_LENGTH + this.spacing;
+    const courtBounds = this.getCourtBounds(targetRow, targetCol);
+    const entrance = { x: courtBounds.minX - 0.3, z: courtCenter.z };
 
-    // Navigate to the aisle behind the target row
-    const aisleZ = targetRow * courtLengthWithSpacing - this.spacing / 2;
+    if (this.navigationGrid) return this.navigationGrid.findPath(from, entrance);
+
+    // Navigate to the aisle behind the target court
+    const aisleZ = courtBounds.minZ - this.spacing / 2;
     
     // First, move to the correct X position (using the aisle)
     if (Math.abs(from.z - aisleZ) > 0.5) {
-      // Move to current X position but in the main aisle (z = -spacing/2)
-      const mainAisleZ = -this.spacing / 2;
+      // Move to current X position but in the main aisle
+      const mainAisleZ = this.mainAisleZ;
       if (from.z > mainAisleZ + 0.5) {
         path.push({ x: from.x, z: mainAisleZ });
       }
@@ -79,20 +161,19 @@ export class FacilityPathfinder {
     }
 
     // Enter the court from the side
-    path.push({
-      x: courtCenter.x - COURT_WIDTH / 2 - 0.3,
-      z: courtCenter.z,
-    });
+    path.push(entrance);
 
     return path;
   }
 
   /**
-   * Get path for robot to return to dock
+   * Get path for robot to return to dock, or null when obstacles leave no route
    */
-  getPathToDock(from: Point, dockPosition: Point): Point[] {
+  getPathToDock(from: Point, dockPosition: Point): Point[] | null {
+    if (this.navigationGrid) return this.navigationGrid.findPath(from, dockPosition);
+
     const path: Point[] = [];
-    const mainAisleZ = -this.spacing / 2;
+    const mainAisleZ = this.mainAisleZ;
 
     // First go to the main aisle
     if (from.z > mainAisleZ + 0.5) {
@@ -112,29 +193,28 @@ export class FacilityPathfinder {
    * Generate lawnmower cleaning path across a court.
    * IMPORTANT: Path avoids the net by cleaning each half separately,
    * navigating around the net post between halves.
+   * Stripes run along the court's long axis, so rotated courts are cleaned the same way.
    */
   getCleaningPath(row: number, col: number): Point[] {
-    const center = this.getCourtCenter(row, col);
+    const placement = this.placements.get(getCourtId(row, col)) ?? { x: 0, z: 0, rotation: 0 as const };
+    // Path is planned in court-local coordinates: the net lies along local X at Z = 0
     const path: Point[] = [];
     const stripeWidth = 0.5; // Width of each cleaning stripe
     const halfWidth = COURT_WIDTH / 2 - 0.2;
     const halfLength = COURT_LENGTH / 2 - 0.2;
-    
-    // Net is at Z = center.z, robot must clean each half separately
-    const netZ = center.z;
     const netClearance = 0.3; // Stay 0.3m away from net
 
     // PHASE 1: Clean the negative-Z half (before net)
-    let currentX = center.x - halfWidth;
+    let currentX = -halfWidth;
     let direction = 1;
     
-    while (currentX <= center.x + halfWidth) {
+    while (currentX <= halfWidth) {
       if (direction === 1) {
-        path.push({ x: currentX, z: netZ - halfLength });
-        path.push({ x: currentX, z: netZ - netClearance });
+        path.push({ x: currentX, z: -halfLength });
+        path.push({ x: currentX, z: -netClearance });
       } else {
-        path.push({ x: currentX, z: netZ - netClearance });
-        path.push({ x: currentX, z: netZ - halfLength });
+        path.push({ x: currentX, z: -netClearance });
+        path.push({ x: currentX, z: -halfLength });
       }
       
       currentX += stripeWidth;
@@ -143,32 +223,31 @@ export class FacilityPathfinder {
     
     // PHASE 2: Navigate around the net post (right side)
     // Exit to the right edge of court, go around the post
-    const rightPostX = center.x + halfWidth + 0.3;
-    const lastX = currentX - stripeWidth;
+    const rightPostX = halfWidth + 0.3;
     
     // Move to right edge at current Z
-    path.push({ x: rightPostX, z: netZ - netClearance });
+    path.push({ x: rightPostX, z: -netClearance });
     // Go around the net (past the post)
-    path.push({ x: rightPostX, z: netZ + netClearance });
+    path.push({ x: rightPostX, z: netClearance });
     
     // PHASE 3: Clean the positive-Z half (after net)
-    currentX = center.x + halfWidth;
+    currentX = halfWidth;
     direction = -1;
     
-    while (currentX >= center.x - halfWidth) {
+    while (currentX >= -halfWidth) {
       if (direction === -1) {
-        path.push({ x: currentX, z: netZ + netClearance });
-        path.push({ x: currentX, z: netZ + halfLength });
+        path.push({ x: currentX, z: netClearance });
+        path.push({ x: currentX, z: halfLength });
       } else {
-        path.push({ x: currentX, z: netZ + halfLength });
-        path.push({ x: currentX, z: netZ + netClearance });
+        path.push({ x: currentX, z: halfLength });
+        path.push({ x: currentX, z: netClearance });
       }
       
       currentX -= stripeWidth;
       direction *= -1;
     }
     
-    return path;
+    return path.map((point) => courtToWorld(placement, point));
   }
 }
 
@@ -0,0 +1,108 @@
+import { BuildingEnvelope, CourtPlacement, Point2D } from '@/types/facility';
+import { getCourtFootprint, getLayoutBounds, Rect } from './courtLayout';
+import { getPolygonBounds, getSceneBounds } from './building';
+
+export type DimensionKind = 'footprint' | 'separation' | 'aisle';
+
+export interface DimensionLine {
+  kind: DimensionKind;
+  start: Point2D;
+  end: Point2D;
+  length: number; // meters
+}
+
+// How far the overall footprint dimensions sit outside the scene (meters)
+export const FOOTPRINT_DIMENSION_OFFSET = 1.5;
+
+// Gaps smaller than this are not annotated (float noise, touching footprints)
+const MIN_DIMENSION = 0.01;
+
+const line = (kind: DimensionKind, start: Point2D, end: Point2D): DimensionLine => ({
+  kind,
+  start,
+  end,
+  length: Math.hypot(end.x - start.x, end.z - start.z),
+});
+
+/**
+ * Gap from each court to its nearest neighbour in +X and +Z whose footprint
+ * faces it, measured across the middle of the shared edge
+ */
+function getCourtSeparations(rects: Rect[]): DimensionLine[] {
+  const separations: DimensionLine[] = [];
+
+  rects.forEach((a) => {
+    const right = rects
+      .filter((b) => b !== a && b.minX >= a.maxX && b.minZ < a.maxZ && a.minZ < b.maxZ)
+      .sort((p, q) => p.minX - q.minX)[0];
+    const below = rects
+      .filter((b) => b !== a && b.minZ >= a.maxZ && b.minX < a.maxX && a.minX < b.maxX)
+      .sort((p, q) => p.minZ - q.minZ)[0];
+
+    if (right && right.minX - a.maxX > MIN_DIMENSION) {
+      const z = (Math.max(a.minZ, right.minZ) + Math.min(a.maxZ, right.maxZ)) / 2;
+      separations.push(line('separation', { x: a.maxX, z }, { x: right.minX, z }));
+    }
+    if (below && below.minZ - a.maxZ > MIN_DIMENSION) {
+      const x = (Math.max(a.minX, below.minX) + Math.min(a.maxX, below.maxX)) / 2;
+      separations.push(line('separation', { x, z: a.maxZ }, { x, z: below.minZ }));
+    }
+  });
+  return separations;
+}
+
+/**
+ * Aisles between the courts and the building envelope on each side,
+ * measured through the middle of the layout
+ */
+function getPerimeterAisles(layout: Rect, building: BuildingEnvelope): DimensionLine[] {
+  const walls = getPolygonBounds(building.footprint);
+  const centerX = (layout.minX + layout.maxX) / 2;
+  const centerZ = (layout.minZ + layout.maxZ) / 2;
+  const halfWall = building.wallThickness / 2;
+
+  // Each aisle runs along one axis in the +X or +Z direction, so the filter sum is its signed width
+  return [
+    line('aisle', { x: walls.minX + halfWall, z: centerZ }, { x: layout.minX, z: centerZ }),
+    line('aisle', { x: layout.maxX, z: centerZ }, { x: walls.maxX - halfWall, z: centerZ }),
+    line('aisle', { x: centerX, z: walls.minZ + halfWall }, { x: centerX, z: layout.minZ }),
+    line('aisle', { x: centerX, z: layout.maxZ }, { x: centerX, z: walls.maxZ - halfWall }),
+  ].filter((aisle) => aisle.end.x - aisle.start.x + aisle.end.z - aisle.start.z > MIN_DIMENSION);
+}
+
+/**
+ * Dimension lines for the plan view: overall footprint (width along the front,
+ * length down the left side), the gaps between neighbouring courts and, with a
+ * building, the aisles between the courts and the walls
+ */
+export function computePlanDimensions(
+  placements: CourtPlacement[],
+  building: BuildingEnvelope | null
+): DimensionLine[] {
+  if (placements.length === 0) return [];
+
+  const scene = getSceneBounds(placements, building);
+  const front = scene.minZ - FOOTPRINT_DIMENSION_OFFSET;
+  const left = scene.minX - FOOTPRINT_DIMENSION_OFFSET;
+  const dimensions = [
+    line('footprint', { x: scene.minX, z: front }, { x: scene.maxX, z: front }),
+    line('footprint', { x: left, z: scene.minZ }, { x: left, z: scene.maxZ }),
+    ...getCourtSeparations(placements.map(getCourtFootprint)),
+  ];
+
+  if (building && building.footprint.length >= 3) {
+    dimensions.push(...getPerimeterAisles(getLayoutBounds(placements), building));
+  }
+  return dimensions;
+}
+
+/**
+ * Largest 1, 2 or 5 × 10ⁿ length that fits in `maxLength`, for scale bars.
+ * Works in any unit; the result is in the unit of `maxLength`.
+ */
+export function getScaleBarLength(maxLength: number): number {
+  if (maxLength <= 0) return 0;
+  const magnitude = 10 ** Math.floor(Math.log10(maxLength));
+  const step = [5, 2, 1].find((s) => s * magnitude <= maxLength) ?? 1;
+  return step * magnitude;
+}
@@ -0,0 +1,52 @@
+/**
+ * Seeded pseudo-random numbers (mulberry32), so simulation and game runs can be
+ * replayed. The generator's whole state is one 32-bit integer, which stores keep
+ * next to the seed and save with exported runs.
+ */
+export interface Random {
+  /** Uniform float in [0, 1) */
+  next: () => number;
+  /** Current generator state, to resume the sequence later */
+  getState: () => number;
+}
+
+export function createRandom(state: number): Random {
+  let s = state >>> 0;
+  return {
+    next: () => {
+      s = (s + 0x6d2b79f5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => s,
+  };
+}
+
+/**
+ * Independent stream seed for one part of a run, e.g. a single game session
+ */
+export function deriveSeed(seed: number, key: string): number {
+  let h = (seed ^ 0x811c9dc5) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    h = Math.imul(h ^ key.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export const MAX_SEED = 1_000_000_000;
+
+/**
+ * Seed in the range the Homebase seed field accepts
+ */
+export function normalizeSeed(seed: number): number {
+  return Math.floor(Math.abs(seed)) % MAX_SEED;
+}
+
+/**
+ * Fresh seed for a new run
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
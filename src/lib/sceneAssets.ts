@@ -0,0 +1,324 @@
+import * as THREE from 'three';
+import {
+  AmenityType,
+  OverlaySport,
+  RobotStatus,
+  AMENITY_CATALOG,
+  SPORT_OVERLAYS,
+  COURT_WIDTH,
+  COURT_LENGTH,
+  KITCHEN_DEPTH,
+  LINE_WIDTH,
+  LINE_HEIGHT,
+  NET_HEIGHT_SIDES,
+  NET_HEIGHT_CENTER,
+  NET_POST_OFFSET,
+  DOCK_WIDTH,
+  DOCK_DEPTH,
+} from '@/types/facility';
+import { SPORT_LINE_SEGMENTS } from './sportLines';
+
+/**
+ * Shared geometries, materials and part layouts for the court, dock, robot and
+ * amenity models. The React components and the glTF exporter both build from these
+ * tables, so the exported model always matches what the canvas renders.
+ */
+export interface ScenePart {
+  name: string;
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+  position: [number, number, number];
+  rotation?: [number, number, number];
+}
+
+// ---------------------------------------------------------------------------
+// Court
+
+export const courtGeometries = {
+  surface: new THREE.BoxGeometry(COURT_WIDTH, 0.02, COURT_LENGTH),
+  kitchen: new THREE.BoxGeometry(COURT_WIDTH, 0.002, KITCHEN_DEPTH),
+  sideline: new THREE.BoxGeometry(LINE_WIDTH, LINE_HEIGHT, COURT_LENGTH),
+  baseline: new THREE.BoxGeometry(COURT_WIDTH, LINE_HEIGHT, LINE_WIDTH),
+  nvzLine: new THREE.BoxGeometry(COURT_WIDTH, LINE_HEIGHT, LINE_WIDTH),
+  centerline: new THREE.BoxGeometry(LINE_WIDTH, LINE_HEIGHT, COURT_LENGTH / 2 - KITCHEN_DEPTH),
+  post: new THREE.CylinderGeometry(0.04, 0.04, NET_HEIGHT_SIDES, 8),
+};
+
+export const courtMaterials = {
+  line: new THREE.MeshStandardMaterial({ color: '#ffffff', roughness: 0.5, metalness: 0 }),
+  net: new THREE.MeshStandardMaterial({
+    color: '#1a1a1a',
+    roughness: 0.8,
+    metalness: 0,
+    transparent: true,
+    opacity: 0.7,
+    side: THREE.DoubleSide,
+  }),
+  post: new THREE.MeshStandardMaterial({ color: '#4a4a4a', roughness: 0.3, metalness: 0.6 }),
+};
+
+// Create net geometry with sag - net spans across X-axis (width of court)
+const createNetGeometry = () => {
+  const segments = 20;
+  // Net width is court width, height is net height
+  const geometry = new THREE.PlaneGeometry(COURT_WIDTH + NET_POST_OFFSET * 2, NET_HEIGHT_SIDES, segments, 4);
+  const positions = geometry.attributes.position;
+
+  for (let i = 0; i < positions.count; i++) {
+    const x = positions.getX(i);
+    const y = positions.getY(i);
+
+    // Only modify top vertices (y > 0) to create sag
+    if (y > 0) {
+      // Parabolic sag - center is lower
+      const normalizedX = x / (COURT_WIDTH / 2);
+      const sagAmount = (NET_HEIGHT_SIDES - NET_HEIGHT_CENTER) * (1 - normalizedX * normalizedX);
+      positions.setY(i, y - sagAmount);
+    }
+  }
+
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+export const courtNetGeometry = createNetGeometry();
+
+const halfWidth = COURT_WIDTH / 2;
+const halfLength = COURT_LENGTH / 2;
+const centerlineLength = halfLength - KITCHEN_DEPTH;
+const lineY = LINE_HEIGHT / 2;
+
+export const COURT_LINE_PARTS: ScenePart[] = [
+  { name: 'left-sideline', geometry: courtGeometries.sideline, material: courtMaterials.line, position: [-halfWidth + LINE_WIDTH / 2, lineY, 0] },
+  { name: 'right-sideline', geometry: courtGeometries.sideline, material: courtMaterials.line, position: [halfWidth - LINE_WIDTH / 2, lineY, 0] },
+  { name: 'front-baseline', geometry: courtGeometries.baseline, material: courtMaterials.line, position: [0, lineY, -halfLength + LINE_WIDTH / 2] },
+  { name: 'back-baseline', geometry: courtGeometries.baseline, material: courtMaterials.line, position: [0, lineY, halfLength - LINE_WIDTH / 2] },
+  { name: 'front-nvz-line', geometry: courtGeometries.nvzLine, material: courtMaterials.line, position: [0, lineY, -KITCHEN_DEPTH] },
+  { name: 'back-nvz-line', geometry: courtGeometries.nvzLine, material: courtMaterials.line, position: [0, lineY, KITCHEN_DEPTH] },
+  { name: 'front-centerline', geometry: courtGeometries.centerline, material: courtMaterials.line, position: [0, lineY, -KITCHEN_DEPTH - centerlineLength / 2] },
+  { name: 'back-centerline', geometry: courtGeometries.centerline, material: courtMaterials.line, position: [0, lineY, KITCHEN_DEPTH + centerlineLength / 2] },
+];
+
+// Net plane already faces +Z, so no rotation is needed
+export const COURT_NET_PARTS: ScenePart[] = [
+  { name: 'net', geometry: courtNetGeometry, material: courtMaterials.net, position: [0, NET_HEIGHT_SIDES / 2, 0] },
+  { name: 'left-post', geometry: courtGeometries.post, material: courtMaterials.post, position: [-halfWidth - NET_POST_OFFSET, NET_HEIGHT_SIDES / 2, 0] },
+  { name: 'right-post', geometry: courtGeometries.post, material: courtMaterials.post, position: [halfWidth + NET_POST_OFFSET, NET_HEIGHT_SIDES / 2, 0] },
+];
+
+// Kitchen paint sits just above the surface, one slab per side of the net
+export const COURT_KITCHEN_POSITIONS: Array<[number, number, number]> = [
+  [0, 0.011, -KITCHEN_DEPTH / 2],
+  [0, 0.011, KITCHEN_DEPTH / 2],
+];
+
+// Other-sport overlay lines sit just above the surface, over the kitchen paint
+const OVERLAY_LINE_HEIGHT = 0.002;
+const OVERLAY_LINE_Y = 0.0115;
+
+const createSportLineParts = (sport: OverlaySport): ScenePart[] => {
+  const { color, lineWidth } = SPORT_OVERLAYS[sport];
+  const material = new THREE.MeshStandardMaterial({ color, roughness: 0.5, metalness: 0 });
+  return SPORT_LINE_SEGMENTS[sport].map((segment, i) => {
+    const dx = Math.abs(segment.end.x - segment.start.x);
+    const dz = Math.abs(segment.end.z - segment.start.z);
+    return {
+      name: `${sport}-line-${i + 1}`,
+      geometry: new THREE.BoxGeometry(dx || lineWidth, OVERLAY_LINE_HEIGHT, dz || lineWidth),
+      material,
+      position: [(segment.start.x + segment.end.x) / 2, OVERLAY_LINE_Y, (segment.start.z + segment.end.z) / 2],
+    };
+  });
+};
+
+export const SPORT_LINE_PARTS: Record<OverlaySport, ScenePart[]> = {
+  badminton: createSportLineParts('badminton'),
+  volleyball: createSportLineParts('volleyball'),
+  tennis: createSportLineParts('tennis'),
+};
+
+// ---------------------------------------------------------------------------
+// Robot dock
+
+export const dockGeometries = {
+  base: new THREE.BoxGeometry(DOCK_WIDTH, 0.05, DOCK_DEPTH),
+  accent: new THREE.BoxGeometry(1.2, 0.02, 0.1),
+  ramp: new THREE.BoxGeometry(0.8, 0.02, 0.3),
+  pole: new THREE.CylinderGeometry(0.03, 0.03, 0.8, 8),
+  sign: new THREE.BoxGeometry(0.6, 0.3, 0.02),
+  light: new THREE.SphereGeometry(0.04, 8, 8),
+  contactPlate: new THREE.BoxGeometry(0.15, 0.02, 0.2),
+};
+
+export const dockMaterials = {
+  base: new THREE.MeshStandardMaterial({ color: '#374151', roughness: 0.7, metalness: 0.2 }),
+  accent: new THREE.MeshStandardMaterial({ color: '#22c55e', roughness: 0.4, metalness: 0.1 }),
+  pole: new THREE.MeshStandardMaterial({ color: '#6b7280', roughness: 0.5, metalness: 0.4 }),
+  sign: new THREE.MeshStandardMaterial({ color: '#1f2937', roughness: 0.3 }),
+  contactPlate: new THREE.MeshStandardMaterial({ color: '#fbbf24', roughness: 0.2, metalness: 0.8 }),
+  lightActive: new THREE.MeshStandardMaterial({ color: '#22c55e', emissive: '#22c55e', emissiveIntensity: 0.8 }),
+  lightIdle: new THREE.MeshStandardMaterial({ color: '#6b7280', emissive: '#6b7280', emissiveIntensity: 0.2 }),
+};
+
+export const DOCK_PARTS: ScenePart[] = [
+  { name: 'base', geometry: dockGeometries.base, material: dockMaterials.base, position: [0, 0.025, 0] },
+  { name: 'accent-strip', geometry: dockGeometries.accent, material: dockMaterials.accent, position: [0, 0.055, 0.35] },
+  { name: 'ramp', geometry: dockGeometries.ramp, material: dockMaterials.base, position: [0, 0.01, 0.6], rotation: [0.1, 0, 0] },
+  { name: 'pole', geometry: dockGeometries.pole, material: dockMaterials.pole, position: [-0.6, 0.4, -0.35] },
+  { name: 'sign', geometry: dockGeometries.sign, material: dockMaterials.sign, position: [-0.6, 0.7, -0.35] },
+  { name: 'left-contact', geometry: dockGeometries.contactPlate, material: dockMaterials.contactPlate, position: [-0.3, 0.06, -0.3] },
+  { name: 'right-contact', geometry: dockGeometries.contactPlate, material: dockMaterials.contactPlate, position: [0.3, 0.06, -0.3] },
+];
+
+export const DOCK_LIGHT_POSITION: [number, number, number] = [-0.6, 0.9, -0.35];
+
+// ---------------------------------------------------------------------------
+// Cleaning robot (Pudu CC1 dimensions in meters)
+
+export const ROBOT_LENGTH = 0.629;
+export const ROBOT_WIDTH = 0.552;
+export const ROBOT_HEIGHT = 0.695;
+
+export const robotGeometries = {
+  body: new THREE.BoxGeometry(ROBOT_WIDTH * 0.9, ROBOT_HEIGHT * 0.7, ROBOT_LENGTH * 0.9),
+  base: new THREE.BoxGeometry(ROBOT_WIDTH, ROBOT_HEIGHT * 0.15, ROBOT_LENGTH),
+  screen: new THREE.BoxGeometry(ROBOT_WIDTH * 0.6, ROBOT_HEIGHT * 0.25, 0.02),
+  wheel: new THREE.CylinderGeometry(0.06, 0.06, 0.04, 12),
+  brush: new THREE.CylinderGeometry(0.04, 0.04, 0.15, 8),
+  statusLight: new THREE.SphereGeometry(0.03, 8, 8),
+};
+
+export const robotMaterials = {
+  body: new THREE.MeshStandardMaterial({ color: '#e8e8e8', roughness: 0.3, metalness: 0.1 }),
+  base: new THREE.MeshStandardMaterial({ color: '#2a2a2a', roughness: 0.6, metalness: 0.2 }),
+  screen: new THREE.MeshStandardMaterial({ color: '#1a1a2e', roughness: 0.1, metalness: 0.3 }),
+  screenActive: new THREE.MeshStandardMaterial({ color: '#00ff88', roughness: 0.1, metalness: 0.3, emissive: '#00ff88', emissiveIntensity: 0.3 }),
+  wheel: new THREE.MeshStandardMaterial({ color: '#1a1a1a', roughness: 0.8 }),
+  brush: new THREE.MeshStandardMaterial({ color: '#4a9eff', roughness: 0.7 }),
+};
+
+// Pre-created status light materials
+export const robotStatusLightMaterials = {
+  cleaning: new THREE.MeshStandardMaterial({ color: '#8b5cf6', emissive: '#8b5cf6', emissiveIntensity: 0.8 }),
+  navigating: new THREE.MeshStandardMaterial({ color: '#3b82f6', emissive: '#3b82f6', emissiveIntensity: 0.8 }),
+  charging: new THREE.MeshStandardMaterial({ color: '#22c55e', emissive: '#22c55e', emissiveIntensity: 0.8 }),
+  idle: new THREE.MeshStandardMaterial({ color: '#94a3b8', emissive: '#94a3b8', emissiveIntensity: 0.8 }),
+};
+
+// Pre-created battery materials
+export const robotBatteryMaterials = {
+  high: new THREE.MeshStandardMaterial({ color: '#22c55e', emissive: '#22c55e', emissiveIntensity: 0.5 }),
+  medium: new THREE.MeshStandardMaterial({ color: '#f59e0b', emissive: '#f59e0b', emissiveIntensity: 0.5 }),
+  low: new THREE.MeshStandardMaterial({ color: '#ef4444', emissive: '#ef4444', emissiveIntensity: 0.5 }),
+};
+
+export const getRobotScreenMaterial = (status: RobotStatus) =>
+  status === 'idle' || status === 'charging' ? robotMaterials.screen : robotMaterials.screenActive;
+
+export const getRobotStatusLightMaterial = (status: RobotStatus) =>
+  status === 'cleaning' ? robotStatusLightMaterials.cleaning
+    : status === 'navigating' ? robotStatusLightMaterials.navigating
+    : status === 'charging' ? robotStatusLightMaterials.charging
+    : robotStatusLightMaterials.idle;
+
+export const getRobotBatteryMaterial = (battery: number) =>
+  battery > 60 ? robotBatteryMaterials.high : battery > 30 ? robotBatteryMaterials.medium : robotBatteryMaterials.low;
+
+// Body parts that do not depend on robot status or battery
+export const ROBOT_PARTS: ScenePart[] = [
+  { name: 'base', geometry: robotGeometries.base, material: robotMaterials.base, position: [0, ROBOT_HEIGHT * 0.075, 0] },
+  { name: 'body', geometry: robotGeometries.body, material: robotMaterials.body, position: [0, ROBOT_HEIGHT * 0.5, 0] },
+  ...[
+    { name: 'front-left-wheel', x: -ROBOT_WIDTH * 0.4, z: -ROBOT_LENGTH * 0.3 },
+    { name: 'front-right-wheel', x: ROBOT_WIDTH * 0.4, z: -ROBOT_LENGTH * 0.3 },
+    { name: 'rear-left-wheel', x: -ROBOT_WIDTH * 0.4, z: ROBOT_LENGTH * 0.3 },
+    { name: 'rear-right-wheel', x: ROBOT_WIDTH * 0.4, z: ROBOT_LENGTH * 0.3 },
+  ].map(({ name, x, z }): ScenePart => ({
+    name,
+    geometry: robotGeometries.wheel,
+    material: robotMaterials.wheel,
+    position: [x, 0.06, z],
+    rotation: [0, 0, Math.PI / 2],
+  })),
+  {
+    name: 'side-brush',
+    geometry: robotGeometries.brush,
+    material: robotMaterials.brush,
+    position: [-ROBOT_WIDTH * 0.35, 0.02, ROBOT_LENGTH * 0.4],
+    rotation: [Math.PI / 2, 0, 0],
+  },
+];
+
+export const ROBOT_SCREEN_POSITION: [number, number, number] = [0, ROBOT_HEIGHT * 0.55, ROBOT_LENGTH * 0.45];
+export const ROBOT_BATTERY_POSITION: [number, number, number] = [0, ROBOT_HEIGHT * 0.7, ROBOT_LENGTH * 0.45];
+export const ROBOT_STATUS_LIGHT_POSITION: [number, number, number] = [0, ROBOT_HEIGHT + 0.05, 0];
+
+// ---------------------------------------------------------------------------
+// Amenities (footprint centered on the origin, catalog width along X)
+
+export const amenityGeometries = {
+  benchSeat: new THREE.BoxGeometry(AMENITY_CATALOG.bench.width, 0.05, AMENITY_CATALOG.bench.depth),
+  benchLeg: new THREE.BoxGeometry(0.06, 0.4, AMENITY_CATALOG.bench.depth - 0.05),
+  bleacherLow: new THREE.BoxGeometry(AMENITY_CATALOG.bleachers.width, 0.4, 2),
+  bleacherMid: new THREE.BoxGeometry(AMENITY_CATALOG.bleachers.width, 0.4, 4 / 3),
+  bleacherTop: new THREE.BoxGeometry(AMENITY_CATALOG.bleachers.width, 0.4, 2 / 3),
+  machineBody: new THREE.BoxGeometry(0.6, 0.6, 0.6),
+  machineHopper: new THREE.CylinderGeometry(0.3, 0.2, 0.25, 16),
+  lockerBody: new THREE.BoxGeometry(AMENITY_CATALOG.locker.width, AMENITY_CATALOG.locker.height, AMENITY_CATALOG.locker.depth),
+  lockerHandle: new THREE.BoxGeometry(0.03, 0.2, 0.03),
+  waterCabinet: new THREE.BoxGeometry(0.6, 0.9, 0.5),
+  waterBasin: new THREE.BoxGeometry(0.6, 0.05, 0.5),
+  waterSpout: new THREE.CylinderGeometry(0.02, 0.02, 0.15, 8),
+};
+
+export const amenityMaterials = {
+  wood: new THREE.MeshStandardMaterial({ color: AMENITY_CATALOG.bench.color, roughness: 0.7 }),
+  frame: new THREE.MeshStandardMaterial({ color: '#374151', roughness: 0.5, metalness: 0.5 }),
+  bleacher: new THREE.MeshStandardMaterial({ color: AMENITY_CATALOG.bleachers.color, roughness: 0.4, metalness: 0.6 }),
+  machine: new THREE.MeshStandardMaterial({ color: AMENITY_CATALOG['ball-machine'].color, roughness: 0.5 }),
+  hopper: new THREE.MeshStandardMaterial({ color: '#e5e7eb', roughness: 0.3, transparent: true, opacity: 0.8 }),
+  locker: new THREE.MeshStandardMaterial({ color: AMENITY_CATALOG.locker.color, roughness: 0.5, metalness: 0.4 }),
+  water: new THREE.MeshStandardMaterial({ color: AMENITY_CATALOG['water-station'].color, roughness: 0.4 }),
+  steel: new THREE.MeshStandardMaterial({ color: '#d1d5db', roughness: 0.2, metalness: 0.9 }),
+};
+
+export const AMENITY_PARTS: Record<AmenityType, ScenePart[]> = {
+  bench: [
+    { name: 'seat', geometry: amenityGeometries.benchSeat, material: amenityMaterials.wood, position: [0, 0.425, 0] },
+    { name: 'left-leg', geometry: amenityGeometries.benchLeg, material: amenityMaterials.frame, position: [-0.8, 0.2, 0] },
+    { name: 'right-leg', geometry: amenityGeometries.benchLeg, material: amenityMaterials.frame, position: [0.8, 0.2, 0] },
+  ],
+  // Three tiers stepping up towards +Z
+  bleachers: [
+    { name: 'low-tier', geometry: amenityGeometries.bleacherLow, material: amenityMaterials.bleacher, position: [0, 0.2, 0] },
+    { name: 'mid-tier', geometry: amenityGeometries.bleacherMid, material: amenityMaterials.bleacher, position: [0, 0.6, 1 / 3] },
+    { name: 'top-tier', geometry: amenityGeometries.bleacherTop, material: amenityMaterials.bleacher, position: [0, 1.0, 2 / 3] },
+  ],
+  'ball-machine': [
+    { name: 'body', geometry: amenityGeometries.machineBody, material: amenityMaterials.machine, position: [0, 0.35, 0] },
+    { name: 'hopper', geometry: amenityGeometries.machineHopper, material: amenityMaterials.hopper, position: [0, 0.775, 0] },
+  ],
+  locker: [
+    { name: 'cabinet', geometry: amenityGeometries.lockerBody, material: amenityMaterials.locker, position: [0, AMENITY_CATALOG.locker.height / 2, 0] },
+    { name: 'left-handle', geometry: amenityGeometries.lockerHandle, material: amenityMaterials.steel, position: [-0.08, 1, -0.265] },
+    { name: 'right-handle', geometry: amenityGeometries.lockerHandle, material: amenityMaterials.steel, position: [0.08, 1, -0.265] },
+  ],
+  'water-station': [
+    { name: 'cabinet', geometry: amenityGeometries.waterCabinet, material: amenityMaterials.water, position: [0, 0.45, 0] },
+    { name: 'basin', geometry: amenityGeometries.waterBasin, material: amenityMaterials.steel, position: [0, 0.925, 0] },
+    { name: 'spout', geometry: amenityGeometries.waterSpout, material: amenityMaterials.steel, position: [0, 1.025, 0.1] },
+  ],
+};
+
+/**
+ * Instantiate a part table as meshes (used for headless export)
+ */
+export function createPartMeshes(parts: ScenePart[]): THREE.Mesh[] {
+  return parts.map((part) => {
+    const mesh = new THREE.Mesh(part.geometry, part.material);
+    mesh.name = part.name;
+    mesh.position.set(...part.position);
+    if (part.rotation) mesh.rotation.set(...part.rotation);
+    return mesh;
+  });
+}
@@ -0,0 +1,219 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import {
+  Amenity,
+  BuildingEnvelope,
+  CourtNamingScheme,
+  CourtOverrides,
+  CourtPlacement,
+  OverlaySport,
+  Point2D,
+  Robot,
+  SurfaceType,
+} from '@/types/facility';
+import { getCourtRotationRadians } from './courtLayout';
+import { getSceneBounds } from './building';
+import { getAmenityFootprint } from './amenities';
+import { CourtSurface, getCourtLineOverlays, getCourtSurface } from './courtAttributes';
+import { createCourtNamer } from './courtNaming';
+import {
+  COURT_KITCHEN_POSITIONS,
+  COURT_LINE_PARTS,
+  COURT_NET_PARTS,
+  DOCK_LIGHT_POSITION,
+  DOCK_PARTS,
+  AMENITY_PARTS,
+  SPORT_LINE_PARTS,
+  ROBOT_BATTERY_POSITION,
+  ROBOT_PARTS,
+  ROBOT_SCREEN_POSITION,
+  ROBOT_STATUS_LIGHT_POSITION,
+  ROBOT_WIDTH,
+  courtGeometries,
+  createPartMeshes,
+  dockGeometries,
+  dockMaterials,
+  getRobotBatteryMaterial,
+  getRobotScreenMaterial,
+  getRobotStatusLightMaterial,
+  robotGeometries,
+} from './sceneAssets';
+
+export interface FacilitySceneInput {
+  placements: CourtPlacement[];
+  surfaceType: SurfaceType;
+  courtOverrides?: Record<string, CourtOverrides>;
+  building?: BuildingEnvelope | null; // only sizes the ground plane
+  showNet?: boolean;
+  showLines?: boolean;
+  lineOverlays?: OverlaySport[];
+  courtNamingScheme?: CourtNamingScheme; // display names go in each court node's extras
+  amenities?: Amenity[];
+  dockPosition?: Point2D | null;
+  robots?: Robot[]; // omitted = courts and dock only
+}
+
+const GROUND_MARGIN = 4;
+
+const createMesh = (
+  name: string,
+  geometry: THREE.BufferGeometry,
+  material: THREE.Material,
+  position: [number, number, number]
+) => {
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.name = name;
+  mesh.position.set(...position);
+  return mesh;
+};
+
+/**
+ * Build the Build-mode scene as a plain three.js graph, without a renderer.
+ * Court groups are named after their placement id (`court-r-c`) so they stay
+ * addressable in the exported file.
+ */
+export function buildFacilityScene({
+  placements,
+  surfaceType,
+  courtOverrides = {},
+  building = null,
+  showNet = true,
+  showLines = true,
+  lineOverlays = [],
+  courtNamingScheme = 'grid',
+  amenities = [],
+  dockPosition = null,
+  robots = [],
+}: FacilitySceneInput): THREE.Scene {
+  const scene = new THREE.Scene();
+  scene.name = 'facility';
+
+  // Courts with identical surfaces share one material, like the canvas does per type
+  const surfaceMaterials = new Map<string, THREE.MeshStandardMaterial>();
+  const getSurfaceMaterial = (surface: CourtSurface, color: string) => {
+    const key = `${surface.surfaceType}:${color}`;
+    if (!surfaceMaterials.has(key)) {
+      const material = new THREE.MeshStandardMaterial({
+        color,
+        roughness: surface.roughness,
+        metalness: surface.metalness,
+      });
+      material.name = `${surface.surfaceType}-${color.replace('#', '')}`;
+      surfaceMaterials.set(key, material);
+    }
+    return surfaceMaterials.get(key);
+  };
+
+  // Ground plane
+  const bounds = getSceneBounds(placements, building, amenities.map(getAmenityFootprint));
+  const ground = new THREE.Mesh(
+    new THREE.PlaneGeometry(bounds.width + GROUND_MARGIN, bounds.length + GROUND_MARGIN),
+    new THREE.MeshStandardMaterial({ color: '#1f2937', roughness: 0.9 })
+  );
+  ground.name = 'ground';
+  ground.rotation.x = -Math.PI / 2;
+  ground.position.set(bounds.centerX, -0.02, bounds.centerZ);
+  scene.add(ground);
+
+  // Courts
+  const courtName = createCourtNamer(placements, courtNamingScheme, courtOverrides);
+  placements.forEach((placement) => {
+    const surface = getCourtSurface(surfaceType, courtOverrides[placement.id]);
+    const court = new THREE.Group();
+    court.name = placement.id;
+    court.position.set(placement.x, 0, placement.z);
+    court.rotation.y = getCourtRotationRadians(placement.rotation);
+    court.userData = {
+      label: courtName(placement.id),
+      row: placement.row,
+      col: placement.col,
+      surfaceType: surface.surfaceType,
+    };
+
+    court.add(createMesh('surface', courtGeometries.surface, getSurfaceMaterial(surface, surface.color), [0, 0, 0]));
+    if (surface.kitchenColor) {
+      const kitchenMaterial = getSurfaceMaterial(surface, surface.kitchenColor);
+      COURT_KITCHEN_POSITIONS.forEach((position, i) => {
+        court.add(createMesh(i === 0 ? 'front-kitchen' : 'back-kitchen', courtGeometries.kitchen, kitchenMaterial, position));
+      });
+    }
+    if (showLines) court.add(...createPartMeshes(COURT_LINE_PARTS));
+    getCourtLineOverlays(lineOverlays, courtOverrides[placement.id]).forEach((sport) => {
+      const overlay = new THREE.Group();
+      overlay.name = `${sport}-lines`;
+      overlay.add(...createPartMeshes(SPORT_LINE_PARTS[sport]));
+      court.add(overlay);
+    });
+    if (showNet) court.add(...createPartMeshes(COURT_NET_PARTS));
+
+    scene.add(court);
+  });
+
+  // Amenities
+  amenities.forEach((amenity) => {
+    const group = new THREE.Group();
+    group.name = amenity.id;
+    group.userData = { type: amenity.type };
+    group.position.set(amenity.x, 0, amenity.z);
+    group.rotation.y = getCourtRotationRadians(amenity.rotation);
+    group.add(...createPartMeshes(AMENITY_PARTS[amenity.type]));
+    scene.add(group);
+  });
+
+  // Robot dock
+  if (dockPosition) {
+    const dock = new THREE.Group();
+    dock.name = 'dock';
+    dock.position.set(dockPosition.x, 0, dockPosition.z);
+    dock.add(...createPartMeshes(DOCK_PARTS));
+    const hasRobot = robots.some(
+      (r) =>
+        r.status === 'charging' ||
+        (r.status === 'idle' &&
+          Math.abs(r.position.x - dockPosition.x) < 0.5 &&
+          Math.abs(r.position.z - dockPosition.z) < 0.5)
+    );
+    dock.add(
+      createMesh(
+        'indicator-light',
+        dockGeometries.light,
+        hasRobot ? dockMaterials.lightActive : dockMaterials.lightIdle,
+        DOCK_LIGHT_POSITION
+      )
+    );
+    scene.add(dock);
+  }
+
+  // Robots
+  robots.forEach((robot) => {
+    const group = new THREE.Group();
+    group.name = robot.id;
+    group.userData = { name: robot.name, status: robot.status, battery: robot.battery };
+    group.position.set(robot.position.x, 0, robot.position.z);
+    group.add(...createPartMeshes(ROBOT_PARTS));
+    group.add(createMesh('screen', robotGeometries.screen, getRobotScreenMaterial(robot.status), ROBOT_SCREEN_POSITION));
+    group.add(
+      createMesh(
+        'battery-indicator',
+        new THREE.BoxGeometry(ROBOT_WIDTH * 0.3 * (robot.battery / 100), 0.02, 0.01),
+        getRobotBatteryMaterial(robot.battery),
+        ROBOT_BATTERY_POSITION
+      )
+    );
+    group.add(
+      createMesh('status-light', robotGeometries.statusLight, getRobotStatusLightMaterial(robot.status), ROBOT_STATUS_LIGHT_POSITION)
+    );
+    scene.add(group);
+  });
+
+  return scene;
+}
+
+/**
+ * Serialize the facility scene to binary glTF (GLB). Runs without a WebGL context.
+ */
+export async function exportFacilityGlb(input: FacilitySceneInput): Promise<ArrayBuffer> {
+  const scene = buildFacilityScene(input);
+  const result = await new GLTFExporter().parseAsync(scene, { binary: true });
+  return result as ArrayBuffer;
+}
@@ -0,0 +1,433 @@
+import {
+  Booking,
+  CleaningJob,
+  CourtState,
+  Point2D,
+  Robot,
+  RobotSettings,
+  parseCourtId,
+} from '@/types/facility';
+import { FacilityPathfinder, distance, moveAlongPath, pathLength } from './pathfinding';
+import { Random, createRandom } from './random';
+import { OperatingHours, getClosingTime, isOpen } from './calendar';
+
+/**
+ * Route a robot is following. Paths are derived from the layout, so they stay
+ * out of the persisted Robot record.
+ */
+export interface RobotMotion {
+  path: Point2D[];         // navigating to a court or the dock
+  cleaningPath: Point2D[]; // lawnmower stripes still to drive
+  cleaningLength: number;  // full cleaning path length, for progress
+  rotation: number;
+}
+
+/**
+ * Everything the engine advances. Rendering and UI state (selection,
+ * notifications, play/pause) stays in the store.
+ */
+export interface SimulationState {
+  currentTime: number; // minutes since midnight
+  courts: Map<string, CourtState>;
+  bookings: Booking[];
+  cleaningQueue: CleaningJob[];
+  robots: Robot[];
+  robotMotion: Map<string, RobotMotion>;
+  dockPosition: Point2D;
+  randomState: number;
+}
+
+/**
+ * Facility-derived inputs the engine reads but never changes
+ */
+export interface SimulationEnvironment {
+  pathfinder: FacilityPathfinder;
+  robotSettings: RobotSettings;
+  operatingHours: OperatingHours;
+  courtName: (courtId: string) => string;
+}
+
+export interface SimulationStepResult {
+  state: SimulationState;
+  notifications: string[];
+}
+
+// Robots below this charge head home instead of taking jobs
+const LOW_BATTERY = 20;
+// Charging stops here and the robot is available again
+const CHARGED_BATTERY = 95;
+// Distance at which a robot counts as docked
+const DOCK_RADIUS = 0.5;
+// Overshoot past an event time so float rounding cannot stop just short of it
+const EVENT_EPSILON = 1e-6;
+// Safety net against a run that keeps producing zero-length events
+const MAX_EVENTS_PER_RUN = 100_000;
+
+const idleMotion = (): RobotMotion => ({ path: [], cleaningPath: [], cleaningLength: 0, rotation: 0 });
+
+/**
+ * Add a cleaning job unless the court already has one. High priority jobs go
+ * first, then oldest first. A court has at most one job, so the id is derived
+ * from it and replayed runs produce the same ids.
+ */
+export function enqueueCleaningJob(
+  queue: CleaningJob[],
+  courtId: string,
+  createdAt: number,
+  priority: 'normal' | 'high' = 'normal'
+): CleaningJob[] {
+  if (queue.some((j) => j.courtId === courtId)) return queue;
+
+  const job: CleaningJob = { id: `job-${courtId}-${createdAt}`, courtId, priority, createdAt, assignedRobotId: null };
+  return [...queue, job].sort((a, b) => {
+    if (a.priority !== b.priority) return a.priority === 'high' ? -1 : 1;
+    return a.createdAt - b.createdAt;
+  });
+}
+
+// Mutable working copy used within a single step
+interface StepContext {
+  state: SimulationState;
+  env: SimulationEnvironment;
+  random: Random;
+  notifications: string[];
+}
+
+function updateCourt(ctx: StepContext, courtId: string, updates: Partial<CourtState>) {
+  const court = ctx.state.courts.get(courtId);
+  if (court) ctx.state.courts.set(courtId, { ...court, ...updates });
+}
+
+function updateRobot(ctx: StepContext, robotId: string, updates: Partial<Robot>) {
+  ctx.state.robots = ctx.state.robots.map((r) => (r.id === robotId ? { ...r, ...updates } : r));
+}
+
+/**
+ * When a session really ends: its booked end, or closing time if that is earlier
+ */
+export function getSessionEnd(booking: Booking, hours: OperatingHours): number {
+  return Math.min(booking.endTime, getClosingTime(booking.startTime, hours));
+}
+
+/**
+ * Start sessions whose start time falls in this step and end those whose end
+ * time does. Bookings outside the day's operating hours do not start, and
+ * sessions still running at closing time end then. Ended sessions leave the
+ * court dirty and queue a cleaning job.
+ */
+function advanceBookings(ctx: StepContext, newTime: number) {
+  const { state, env } = ctx;
+
+  state.bookings.forEach((booking) => {
+    if (!state.courts.has(booking.courtId)) return;
+
+    if (state.currentTime < booking.startTime && newTime >= booking.startTime) {
+      if (!isOpen(booking.startTime, env.operatingHours)) {
+        ctx.notifications.push(`${env.courtName(booking.courtId)} booking skipped, facility closed`);
+      } else if (state.courts.get(booking.courtId)?.status === 'AVAILABLE_CLEAN') {
+        updateCourt(ctx, booking.courtId, { status: 'IN_USE', activeBookingId: booking.id });
+        ctx.notifications.push(`${env.courtName(booking.courtId)} session started`);
+      }
+    }
+
+    // Looked up again, as a short session can start and end within one step
+    const court = state.courts.get(booking.courtId);
+    const endTime = getSessionEnd(booking, env.operatingHours);
+    if (
+      court &&
+      state.currentTime < endTime &&
+      newTime >= endTime &&
+      court.status === 'IN_USE' &&
+      court.activeBookingId === booking.id
+    ) {
+      const cleanlinessDropAmount = 30 + ctx.random.next() * 30;
+      updateCourt(ctx, booking.courtId, {
+        status: 'NEEDS_CLEANING',
+        activeBookingId: null,
+        cleanliness: Math.max(0, court.cleanliness - cleanlinessDropAmount),
+        lastUsedAt: newTime,
+      });
+      ctx.notifications.push(`${env.courtName(booking.courtId)} needs cleaning`);
+      state.cleaningQueue = enqueueCleaningJob(state.cleaningQueue, booking.courtId, newTime);
+    }
+  });
+}
+
+/**
+ * Drive one robot's state machine: navigate to the court, clean it, return
+ * to the dock and recharge
+ */
+function advanceRobot(ctx: StepContext, robot: Robot, dtMinutes: number) {
+  const { state, env } = ctx;
+  const { robotSettings, pathfinder } = env;
+  const motion = state.robotMotion.get(robot.id) ?? idleMotion();
+
+  const travel = (path: Point2D[]) => {
+    const moveDistance = robotSettings.navigationSpeed * dtMinutes;
+    const result = moveAlongPath(robot.position, path, moveDistance);
+    state.robotMotion.set(robot.id, { ...motion, path: result.remainingPath, rotation: result.rotation });
+    updateRobot(ctx, robot.id, {
+      position: result.position,
+      battery: robot.battery - moveDistance * robotSettings.batteryDrainPerMeter * 0.01,
+    });
+  };
+
+  switch (robot.status) {
+    case 'navigating': {
+      if (motion.path.length > 0) {
+        travel(motion.path);
+      } else if (robot.targetCourtId) {
+        // Arrived at the court, start cleaning
+        const { row, col } = parseCourtId(robot.targetCourtId);
+        const cleaningPath = pathfinder.getCleaningPath(row, col);
+        state.robotMotion.set(robot.id, { ...motion, cleaningPath, cleaningLength: pathLength(cleaningPath) });
+        updateRobot(ctx, robot.id, { status: 'cleaning', cleaningProgress: 0 });
+        updateCourt(ctx, robot.targetCourtId, { status: 'CLEANING' });
+      }
+      break;
+    }
+
+    case 'cleaning': {
+      if (!robot.targetCourtId) break;
+
+      if (motion.cleaningPath.length === 0) {
+        updateCourt(ctx, robot.targetCourtId, {
+          status: 'AVAILABLE_CLEAN',
+          cleanliness: 100,
+          lastCleanedAt: state.currentTime + dtMinutes,
+        });
+        state.cleaningQueue = state.cleaningQueue.filter((j) => j.id !== robot.currentJobId);
+        ctx.notifications.push(`${env.courtName(robot.targetCourtId)} cleaned`);
+        updateRobot(ctx, robot.id, {
+          status: 'idle',
+          targetCourtId: null,
+          currentJobId: null,
+          cleaningProgress: 0,
+          battery: robot.battery - robotSettings.batteryDrainPerCourt,
+        });
+        break;
+      }
+
+      const result = moveAlongPath(robot.position, motion.cleaningPath, robotSettings.cleaningSpeed * dtMinutes);
+      const progress = motion.cleaningLength > 0
+        ? ((motion.cleaningLength - pathLength(result.remainingPath)) / motion.cleaningLength) * 100
+        : 100;
+
+      const court = state.courts.get(robot.targetCourtId);
+      if (court) {
+        // Remaining dirt decays exponentially, so the result does not depend on step size
+        const cleanliness = 100 - (100 - court.cleanliness) * Math.exp(-dtMinutes / 3);
+        updateCourt(ctx, robot.targetCourtId, { cleanliness });
+      }
+
+      state.robotMotion.set(robot.id, { ...motion, cleaningPath: result.remainingPath, rotation: result.rotation });
+      updateRobot(ctx, robot.id, { position: result.position, cleaningProgress: progress });
+      break;
+    }
+
+    case 'returning': {
+      if (motion.path.length > 0) {
+        travel(motion.path);
+      } else if (distance(robot.position, state.dockPosition) > DOCK_RADIUS) {
+        // Sent home without a route, e.g. from the manual controls
+        const path = pathfinder.getPathToDock(robot.position, state.dockPosition);
+        if (path) {
+          state.robotMotion.set(robot.id, { ...motion, path });
+        } else {
+          strandRobot(ctx, robot);
+        }
+      } else {
+        updateRobot(ctx, robot.id, { status: 'charging' });
+      }
+      break;
+    }
+
+    case 'charging': {
+      const battery = Math.min(100, robot.battery + robotSettings.rechargeRatePerMinute * dtMinutes / 60);
+      updateRobot(ctx, robot.id, { battery, status: battery >= CHARGED_BATTERY ? 'idle' : 'charging' });
+      break;
+    }
+
+    case 'idle':
+    case 'stuck':
+      break;
+  }
+}
+
+/**
+ * Stop a robot that has no route back to the dock instead of driving it
+ * through walls; it stays put until a route opens up
+ */
+function strandRobot(ctx: StepContext, robot: Robot) {
+  ctx.state.robotMotion.set(robot.id, idleMotion());
+  if (robot.status === 'stuck') return;
+  updateRobot(ctx, robot.id, { status: 'stuck' });
+  ctx.notifications.push(`Robot ${robot.name} cannot reach the dock`);
+}
+
+/**
+ * Hand the oldest unassigned job to each idle robot with charge left, and
+ * send low and stuck robots back to the dock
+ */
+function assignJobs(ctx: StepContext) {
+  const { state, env } = ctx;
+
+  state.robots.forEach((robot) => {
+    if (robot.status !== 'idle' && robot.status !== 'stuck') return;
+
+    if (robot.battery <= LOW_BATTERY || robot.status === 'stuck') {
+      const docked = distance(robot.position, state.dockPosition) <= DOCK_RADIUS;
+      const path = docked ? [] : env.pathfinder.getPathToDock(robot.position, state.dockPosition);
+      if (!path) {
+        strandRobot(ctx, robot);
+        return;
+      }
+      state.robotMotion.set(robot.id, { ...idleMotion(), path });
+      updateRobot(ctx, robot.id, { status: docked ? 'charging' : 'returning' });
+      return;
+    }
+
+    const job = state.cleaningQueue.find((j) => !j.assignedRobotId);
+    if (!job || state.courts.get(job.courtId)?.status === 'IN_USE') return;
+
+    const { row, col } = parseCourtId(job.courtId);
+    const path = env.pathfinder.getPathToCourtEntrance(robot.position, row, col);
+    if (!path) {
+      // Refuse the job rather than drive through obstacles; the court stays dirty
+      state.cleaningQueue = state.cleaningQueue.filter((j) => j.id !== job.id);
+      ctx.notifications.push(`Robot ${robot.name} cannot reach ${env.courtName(job.courtId)}, cleaning skipped`);
+      return;
+    }
+    state.robotMotion.set(robot.id, { ...idleMotion(), path });
+    updateRobot(ctx, robot.id, { status: 'navigating', targetCourtId: job.courtId, currentJobId: job.id });
+    state.cleaningQueue = state.cleaningQueue.map((j) => (j.id === job.id ? { ...j, assignedRobotId: robot.id } : j));
+    ctx.notifications.push(`Robot ${robot.name} dispatched to ${env.courtName(job.courtId)}`);
+  });
+}
+
+/**
+ * Advance the simulation by dtMinutes of simulated time. The input state is
+ * left untouched; messages for the notification feed are returned alongside
+ * the new state.
+ */
+export function stepSimulation(
+  state: SimulationState,
+  dtMinutes: number,
+  env: SimulationEnvironment
+): SimulationStepResult {
+  const ctx: StepContext = {
+    state: {
+      ...state,
+      courts: new Map(state.courts),
+      robotMotion: new Map(state.robotMotion),
+    },
+    env,
+    random: createRandom(state.randomState),
+    notifications: [],
+  };
+  const newTime = state.currentTime + dtMinutes;
+
+  advanceBookings(ctx, newTime);
+  ctx.state.robots.forEach((robot) => advanceRobot(ctx, robot, dtMinutes));
+  assignJobs(ctx);
+
+  ctx.state.currentTime = newTime;
+  ctx.state.randomState = ctx.random.getState();
+  return { state: ctx.state, notifications: ctx.notifications };
+}
+
+/**
+ * Step the simulation in fixed increments until endTime, e.g. to run a whole
+ * operating day without rendering
+ */
+export function runSimulation(
+  state: SimulationState,
+  endTime: number,
+  env: SimulationEnvironment,
+  stepMinutes: number = 1
+): SimulationStepResult {
+  let current = state;
+  const notifications: string[] = [];
+
+  while (current.currentTime < endTime) {
+    const result = stepSimulation(current, Math.min(stepMinutes, endTime - current.currentTime), env);
+    current = result.state;
+    notifications.push(...result.notifications);
+  }
+  return { state: current, notifications };
+}
+
+/**
+ * Minutes until the next scheduled event: a booking starting or ending, a robot
+ * reaching its next waypoint, finishing a path or reaching full charge. Zero
+ * means a transition is due now; null means nothing will happen on its own.
+ */
+export function getNextEventDelay(state: SimulationState, env: SimulationEnvironment): number | null {
+  const { currentTime } = state;
+  const { robotSettings } = env;
+  let next = Infinity;
+  const consider = (delay: number) => {
+    next = Math.min(next, Math.max(0, delay));
+  };
+
+  state.bookings.forEach((booking) => {
+    if (booking.startTime > currentTime) consider(booking.startTime - currentTime);
+    const endTime = getSessionEnd(booking, env.operatingHours);
+    if (endTime > currentTime) consider(endTime - currentTime);
+  });
+
+  state.robots.forEach((robot) => {
+    const motion = state.robotMotion.get(robot.id) ?? idleMotion();
+    switch (robot.status) {
+      case 'navigating':
+      case 'returning':
+        consider(motion.path.length > 0 ? distance(robot.position, motion.path[0]) / robotSettings.navigationSpeed : 0);
+        break;
+      case 'cleaning':
+        consider(
+          motion.cleaningPath.length > 0
+            ? distance(robot.position, motion.cleaningPath[0]) / robotSettings.cleaningSpeed
+            : 0
+        );
+        break;
+      case 'charging':
+        consider(((CHARGED_BATTERY - robot.battery) * 60) / robotSettings.rechargeRatePerMinute);
+        break;
+    }
+  });
+
+  return Number.isFinite(next) ? next : null;
+}
+
+/**
+ * Jump the clock straight to the next event, or to endTime if that comes
+ * first or nothing is scheduled
+ */
+export function stepToNextEvent(
+  state: SimulationState,
+  env: SimulationEnvironment,
+  endTime: number = Infinity
+): SimulationStepResult {
+  const delay = getNextEventDelay(state, env);
+  const remaining = endTime - state.currentTime;
+  if (delay === null || delay + EVENT_EPSILON >= remaining) {
+    return Number.isFinite(remaining) ? stepSimulation(state, remaining, env) : { state, notifications: [] };
+  }
+  return stepSimulation(state, delay + EVENT_EPSILON, env);
+}
+
+/**
+ * Event-driven counterpart of runSimulation: jumps from event to event until
+ * endTime instead of stepping through every minute
+ */
+export function runEvents(state: SimulationState, endTime: number, env: SimulationEnvironment): SimulationStepResult {
+  let current = state;
+  const notifications: string[] = [];
+
+  for (let i = 0; i < MAX_EVENTS_PER_RUN && current.currentTime < endTime; i++) {
+    const result = stepToNextEvent(current, env, endTime);
+    current = result.state;
+    notifications.push(...result.notifications);
+  }
+  return { state: current, notifications };
+}
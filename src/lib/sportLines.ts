@@ -0,0 +1,81 @@
+import { OverlaySport, Point2D, SPORT_OVERLAYS } from '@/types/facility';
+
+// A painted line in court-local coordinates, as its centerline
+export interface SportLineSegment {
+  start: Point2D;
+  end: Point2D;
+}
+
+// Line across the court (constant z) and along the court (constant x)
+const across = (z: number, halfSpan: number): SportLineSegment => ({ start: { x: -halfSpan, z }, end: { x: halfSpan, z } });
+const along = (x: number, z1: number, z2: number): SportLineSegment => ({ start: { x, z: z1 }, end: { x, z: z2 } });
+
+// Pair of lines mirrored about the net (z = 0)
+const mirroredAcross = (z: number, halfSpan: number) => [across(-z, halfSpan), across(z, halfSpan)];
+// Pair of lines mirrored about the long axis (x = 0)
+const mirroredAlong = (x: number, halfLength: number) => [along(-x, -halfLength, halfLength), along(x, -halfLength, halfLength)];
+
+function badmintonLines(): SportLineSegment[] {
+  const { width, length, lineWidth: w } = SPORT_OVERLAYS.badminton;
+  const halfWidth = width / 2;
+  const halfLength = length / 2;
+  const shortService = 1.98 + w / 2; // measured from the net to the line's near edge
+  const longService = halfLength - 0.76 - w / 2; // doubles long service line, 0.76 m inside the back boundary
+  return [
+    ...mirroredAlong(halfWidth - w / 2, halfLength), // doubles sidelines
+    ...mirroredAlong(5.18 / 2 - w / 2, halfLength), // singles sidelines
+    ...mirroredAcross(halfLength - w / 2, halfWidth), // back boundary lines
+    ...mirroredAcross(longService, halfWidth),
+    ...mirroredAcross(shortService, halfWidth),
+    along(0, -halfLength, -shortService), // center lines
+    along(0, shortService, halfLength),
+  ];
+}
+
+function volleyballLines(): SportLineSegment[] {
+  const { width, length, lineWidth: w } = SPORT_OVERLAYS.volleyball;
+  const halfWidth = width / 2;
+  const halfLength = length / 2;
+  return [
+    ...mirroredAlong(halfWidth - w / 2, halfLength), // sidelines
+    ...mirroredAcross(halfLength - w / 2, halfWidth), // end lines
+    across(0, halfWidth), // center line
+    ...mirroredAcross(3 - w / 2, halfWidth), // attack lines, rear edge 3 m from the center line
+  ];
+}
+
+function tennisLines(): SportLineSegment[] {
+  const { width, length, lineWidth: w } = SPORT_OVERLAYS.tennis;
+  const halfWidth = width / 2;
+  const halfLength = length / 2;
+  const singlesHalfWidth = 8.23 / 2;
+  const serviceLine = 6.4 - w / 2;
+  const baseline = halfLength - w / 2;
+  return [
+    ...mirroredAlong(halfWidth - w / 2, halfLength), // doubles sidelines
+    ...mirroredAlong(singlesHalfWidth - w / 2, halfLength), // singles sidelines
+    ...mirroredAcross(baseline, halfWidth),
+    ...mirroredAcross(serviceLine, singlesHalfWidth),
+    along(0, -serviceLine, serviceLine), // center service line
+    along(0, -baseline, -baseline + 0.1), // center marks
+    along(0, baseline - 0.1, baseline),
+  ];
+}
+
+export const SPORT_LINE_SEGMENTS: Record<OverlaySport, SportLineSegment[]> = {
+  badminton: badmintonLines(),
+  volleyball: volleyballLines(),
+  tennis: tennisLines(),
+};
+
+export const OVERLAY_SPORTS = Object.keys(SPORT_OVERLAYS) as OverlaySport[];
+
+/**
+ * Total painted length of one court's overlay lines, in meters
+ */
+export function getSportLineLength(sport: OverlaySport): number {
+  return SPORT_LINE_SEGMENTS[sport].reduce(
+    (sum, s) => sum + Math.hypot(s.end.x - s.start.x, s.end.z - s.start.z),
+    0
+  );
+}
@@ -0,0 +1,66 @@
+import { Booking } from '@/types/facility';
+import { SimulationState } from './simulationEngine';
+
+/**
+ * Saved simulation state the timeline can seek back to. Engine states are
+ * never mutated after a step, so snapshots share structure with the live state.
+ */
+export interface TimelineSnapshot {
+  state: SimulationState;
+}
+
+// Simulated minutes between snapshots; a backward seek re-simulates at most this much
+export const SNAPSHOT_INTERVAL = 15;
+
+/**
+ * First snapshot boundary strictly after a time
+ */
+export function getNextSnapshotTime(time: number): number {
+  return (Math.floor(time / SNAPSHOT_INTERVAL) + 1) * SNAPSHOT_INTERVAL;
+}
+
+export function crossesSnapshotBoundary(from: number, to: number): boolean {
+  return Math.floor(to / SNAPSHOT_INTERVAL) > Math.floor(from / SNAPSHOT_INTERVAL);
+}
+
+/**
+ * Earliest time a seek can reach: the oldest snapshot kept, or the current
+ * time when nothing has been recorded yet
+ */
+export function getEarliestSeekTime(snapshots: TimelineSnapshot[], currentTime: number): number {
+  return snapshots.length > 0 ? Math.min(snapshots[0].state.currentTime, currentTime) : currentTime;
+}
+
+/**
+ * Latest snapshot at or before a time, if the timeline reaches back that far
+ */
+export function findSnapshot(snapshots: TimelineSnapshot[], time: number): TimelineSnapshot | undefined {
+  for (let i = snapshots.length - 1; i >= 0; i--) {
+    if (snapshots[i].state.currentTime <= time) return snapshots[i];
+  }
+  return undefined;
+}
+
+/**
+ * Share of courts booked in each bucket of a time window, 0-1, for the
+ * timeline's density bars
+ */
+export function getBookingDensity(
+  bookings: Booking[],
+  start: number,
+  end: number,
+  courtCount: number,
+  bucketMinutes: number = 30
+): number[] {
+  const buckets = Math.max(0, Math.ceil((end - start) / bucketMinutes));
+  return Array.from({ length: buckets }, (_, i) => {
+    const bucketStart = start + i * bucketMinutes;
+    const bucketEnd = Math.min(end, bucketStart + bucketMinutes);
+    // Booked court-minutes over available court-minutes
+    const booked = bookings.reduce(
+      (sum, b) => sum + Math.max(0, Math.min(b.endTime, bucketEnd) - Math.max(b.startTime, bucketStart)),
+      0
+    );
+    return courtCount > 0 ? Math.min(1, booked / (courtCount * (bucketEnd - bucketStart))) : 0;
+  });
+}
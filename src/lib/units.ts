@@ -0,0 +1,93 @@
+import { FT_TO_M } from '@/types/facility';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type Quantity = 'length' | 'area' | 'speed';
+
+// Model values are always SI (meters, m², m/s); these are only for display
+const UNIT_LABELS: Record<UnitSystem, Record<Quantity, string>> = {
+  metric: { length: 'm', area: 'm²', speed: 'm/s' },
+  imperial: { length: 'ft', area: 'sq ft', speed: 'ft/s' },
+};
+
+// SI amount in one display unit
+const UNIT_SIZES: Record<UnitSystem, Record<Quantity, number>> = {
+  metric: { length: 1, area: 1, speed: 1 },
+  imperial: { length: FT_TO_M, area: FT_TO_M ** 2, speed: FT_TO_M },
+};
+
+export const UNIT_SYSTEMS: Record<UnitSystem, { name: string }> = {
+  metric: { name: 'Metric' },
+  imperial: { name: 'Imperial' },
+};
+
+/**
+ * Unit suffix for a quantity, e.g. "m" or "sq ft"
+ */
+export function unitLabel(quantity: Quantity, units: UnitSystem): string {
+  return UNIT_LABELS[units][quantity];
+}
+
+/**
+ * Convert an SI value to the display unit
+ */
+export function toDisplay(value: number, quantity: Quantity, units: UnitSystem): number {
+  return value / UNIT_SIZES[units][quantity];
+}
+
+/**
+ * Convert a value typed in the display unit back to SI
+ */
+export function fromDisplay(value: number, quantity: Quantity, units: UnitSystem): number {
+  return value * UNIT_SIZES[units][quantity];
+}
+
+/**
+ * Display value rounded for number inputs, so conversions do not show float noise
+ */
+export function toInputValue(value: number, quantity: Quantity, units: UnitSystem, digits: number = 2): number {
+  return Number(toDisplay(value, quantity, units).toFixed(digits));
+}
+
+const format = (value: number, quantity: Quantity, units: UnitSystem, digits: number) =>
+  `${toDisplay(value, quantity, units).toFixed(digits)} ${unitLabel(quantity, units)}`;
+
+/**
+ * Length label, e.g. "1.50 m" or "4.92 ft"
+ */
+export function formatLength(meters: number, units: UnitSystem, digits: number = 2): string {
+  return format(meters, 'length', units, digits);
+}
+
+/**
+ * Speed label, e.g. "0.50 m/s" or "1.64 ft/s"
+ */
+export function formatSpeed(metersPerSecond: number, units: UnitSystem, digits: number = 2): string {
+  return format(metersPerSecond, 'speed', units, digits);
+}
+
+/**
+ * Floor position label, e.g. "12.0, 4.5 m"
+ */
+export function formatPosition(point: { x: number; z: number }, units: UnitSystem): string {
+  const x = toDisplay(point.x, 'length', units).toFixed(1);
+  const z = toDisplay(point.z, 'length', units).toFixed(1);
+  return `${x}, ${z} ${unitLabel('length', units)}`;
+}
+
+/**
+ * Width × length label, e.g. "40.0 × 35.0 m"
+ */
+export function formatSize(width: number, length: number, units: UnitSystem, digits: number = 1): string {
+  const w = toDisplay(width, 'length', units).toFixed(digits);
+  const l = toDisplay(length, 'length', units).toFixed(digits);
+  return `${w} × ${l} ${unitLabel('length', units)}`;
+}
+
+/**
+ * Length in the preferred system followed by the other one, e.g. "13.41 m (44.0 ft)"
+ */
+export function formatDualLength(meters: number, units: UnitSystem): string {
+  const other: UnitSystem = units === 'metric' ? 'imperial' : 'metric';
+  return `${formatLength(meters, units)} (${formatLength(meters, other, 1)})`;
+}
@@ -1,30 +1,38 @@
 import { AppHeader } from '@/components/AppHeader';
+import { SharedLayoutImport } from '@/components/SharedLayoutImport';
 import { ControlPanel } from '@/components/controls/ControlPanel';
 import { FacilityCanvas } from '@/components/three/FacilityCanvas';
 import { HomebasePanel } from '@/components/homebase/HomebasePanel';
 import { HomebaseCanvas } from '@/components/three/HomebaseCanvas';
 import { FPSCounter } from '@/components/ui/FPSCounter';
 import { useFacilityStore } from '@/stores/facilityStore';
+import { useFacilityLibraryStore } from '@/stores/facilityLibraryStore';
+import { useUndoRedoShortcuts } from '@/hooks/useUndoRedoShortcuts';
 
 const Index = () => {
   const { mode } = useFacilityStore();
+  const activeFacilityId = useFacilityLibraryStore((state) => state.activeFacilityId);
+  useUndoRedoShortcuts(mode === 'build');
 
   return (
     <div className="flex flex-col h-screen w-screen overflow-hidden bg-background">
       <AppHeader />
       
       <div className="flex flex-1 overflow-hidden">
-        {/* Left panel */}
+        {/* Left panel - panels and canvases are keyed by facility so state never leaks between sites */}
         <div className="w-80 flex-shrink-0">
-          {mode === 'build' ? <ControlPanel /> : <HomebasePanel />}
+          {mode === 'build' ? <ControlPanel key={activeFacilityId} /> : <HomebasePanel key={activeFacilityId} />}
         </div>
 
         {/* Right panel - 3D Canvas */}
         <div className="flex-1">
-          {mode === 'build' ? <FacilityCanvas /> : <HomebaseCanvas />}
+          {mode === 'build' ? <FacilityCanvas key={activeFacilityId} /> : <HomebaseCanvas key={activeFacilityId} />}
         </div>
       </div>
       
+      {/* Prompt for layouts opened from a share link */}
+      {mode === 'build' && <SharedLayoutImport />}
+
       {/* FPS Counter overlay - only in homebase mode */}
       {mode === 'homebase' && <FPSCounter />}
     </div>
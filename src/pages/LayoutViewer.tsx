@@ -0,0 +1,84 @@
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { FacilityCanvas } from '@/components/three/FacilityCanvas';
+import { defaultFacilityLayout, useFacilityStore } from '@/stores/facilityStore';
+import { usePreferencesStore } from '@/stores/preferencesStore';
+import { IMPORT_PARAM, decodeLayout } from '@/lib/layoutLink';
+import { getCourtPlacements } from '@/lib/courtLayout';
+import { getSceneBounds } from '@/lib/building';
+import { formatLength, formatSize } from '@/lib/units';
+import { SURFACE_MATERIALS } from '@/types/facility';
+import { Settings } from 'lucide-react';
+
+const LayoutViewer = () => {
+  const { layout: encoded = '' } = useParams();
+  const setMode = useFacilityStore((state) => state.setMode);
+  const units = usePreferencesStore((state) => state.units);
+
+  const layout = useMemo(() => {
+    const shared = decodeLayout(encoded);
+    return shared ? { ...defaultFacilityLayout, ...shared } : null;
+  }, [encoded]);
+
+  const summary = useMemo(() => {
+    if (!layout) return [];
+    const placements = getCourtPlacements(layout.config, layout.spacing);
+    const bounds = getSceneBounds(placements, layout.building);
+    return [
+      ['Courts', `${placements.length}`],
+      ['Footprint', formatSize(bounds.width, bounds.length, units)],
+      ['Surface', SURFACE_MATERIALS[layout.surfaceType]?.name ?? layout.surfaceType],
+      ['Court spacing', formatLength(layout.spacing, units, 1)],
+      ['Building', layout.building ? 'Yes' : 'Open floor'],
+      ['Amenities', `${layout.amenities.length}`],
+      ['Light fixtures', `${layout.lightFixtures.length}`],
+    ];
+  }, [layout, units]);
+
+  if (!layout) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <div className="text-center">
+          <h1 className="mb-4 text-2xl font-bold">Invalid layout link</h1>
+          <p className="mb-4 text-muted-foreground">This link does not contain a layout that can be opened.</p>
+          <a href="/" className="text-primary underline hover:text-primary/90">
+            Return to Home
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative h-screen w-screen overflow-hidden bg-background">
+      <FacilityCanvas layout={layout} />
+
+      <Card className="absolute top-4 left-4 w-72">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Shared Layout</CardTitle>
+          <CardDescription>Read-only view</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-1 pb-3">
+          {summary.map(([label, value]) => (
+            <div key={label} className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{label}</span>
+              <span className="font-mono">{value}</span>
+            </div>
+          ))}
+        </CardContent>
+        <CardFooter>
+          <Button asChild size="sm" className="w-full gap-2" onClick={() => setMode('build')}>
+            <Link to={`/?${IMPORT_PARAM}=${encoded}`}>
+              <Settings className="h-4 w-4" />
+              Open in Build Mode
+            </Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default LayoutViewer;
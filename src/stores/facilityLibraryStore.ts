@@ -0,0 +1,131 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { FacilityLayout, defaultFacilityLayout, useFacilityStore } from './facilityStore';
+import {
+  SimulationSnapshot,
+  createDefaultSimulationSnapshot,
+  useSimulationStore,
+} from './simulationStore';
+import { useHistoryStore } from './historyStore';
+import { useMeasurementStore } from './measurementStore';
+import { getCourtPlacements } from '@/lib/courtLayout';
+
+export interface FacilitySite {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// Stored data for a site that is not currently loaded
+export interface FacilitySiteData {
+  layout: FacilityLayout;
+  simulation: SimulationSnapshot;
+}
+
+interface FacilityLibraryStore {
+  facilities: FacilitySite[];
+  activeFacilityId: string;
+  // Inactive sites only; the active site lives in the facility and simulation stores
+  siteData: Record<string, FacilitySiteData>;
+
+  createFacility: (name: string) => void;
+  duplicateFacility: (facilityId: string) => void;
+  renameFacility: (facilityId: string, name: string) => void;
+  deleteFacility: (facilityId: string) => void;
+  switchFacility: (facilityId: string) => void;
+}
+
+const generateId = () => `facility-${Math.random().toString(36).substr(2, 9)}`;
+
+const captureActiveSite = (): FacilitySiteData => ({
+  layout: useFacilityStore.getState().getLayout(),
+  simulation: useSimulationStore.getState().getSnapshot(),
+});
+
+const loadActiveSite = (data: FacilitySiteData) => {
+  useFacilityStore.getState().loadLayout(data.layout);
+  useSimulationStore.getState().loadSnapshot(data.simulation);
+  // Sites can share a layout object, so don't count on the layout effect to rebuild courts
+  useSimulationStore.getState().initializeCourts(getCourtPlacements(data.layout.config, data.layout.spacing));
+  // Undo history and measurements belong to the site being left
+  useHistoryStore.getState().clear();
+  useMeasurementStore.getState().clearMeasurements();
+};
+
+// Deep copy so sites never share nested objects with each other or the defaults
+const cloneSiteData = (data: FacilitySiteData): FacilitySiteData => JSON.parse(JSON.stringify(data));
+
+export const useFacilityLibraryStore = create<FacilityLibraryStore>()(
+  persist(
+    (set, get) => ({
+      facilities: [{ id: 'facility-1', name: 'Main Facility', createdAt: 0 }],
+      activeFacilityId: 'facility-1',
+      siteData: {},
+
+      createFacility: (name) => {
+        const site: FacilitySite = { id: generateId(), name, createdAt: Date.now() };
+        set((s) => ({
+          facilities: [...s.facilities, site],
+          siteData: {
+            ...s.siteData,
+            [site.id]: cloneSiteData({ layout: defaultFacilityLayout, simulation: createDefaultSimulationSnapshot() }),
+          },
+        }));
+        get().switchFacility(site.id);
+      },
+
+      duplicateFacility: (facilityId) => {
+        const { facilities, activeFacilityId, siteData } = get();
+        const source = facilities.find((f) => f.id === facilityId);
+        if (!source) return;
+        const data = facilityId === activeFacilityId ? captureActiveSite() : siteData[facilityId];
+        if (!data) return;
+
+        const site: FacilitySite = { id: generateId(), name: `${source.name} (copy)`, createdAt: Date.now() };
+        set((s) => ({
+          facilities: [...s.facilities, site],
+          siteData: { ...s.siteData, [site.id]: cloneSiteData(data) },
+        }));
+      },
+
+      renameFacility: (facilityId, name) => {
+        set((s) => ({
+          facilities: s.facilities.map((f) => (f.id === facilityId ? { ...f, name } : f)),
+        }));
+      },
+
+      deleteFacility: (facilityId) => {
+        const { facilities, activeFacilityId } = get();
+        if (facilities.length <= 1) return;
+
+        if (facilityId === activeFacilityId) {
+          const next = facilities.find((f) => f.id !== facilityId);
+          get().switchFacility(next.id);
+        }
+        set((s) => {
+          const { [facilityId]: _removed, ...siteData } = s.siteData;
+          return { facilities: s.facilities.filter((f) => f.id !== facilityId), siteData };
+        });
+      },
+
+      switchFacility: (facilityId) => {
+        const { activeFacilityId, siteData } = get();
+        if (facilityId === activeFacilityId) return;
+        const target = siteData[facilityId];
+        if (!target) return;
+
+        const current = captureActiveSite();
+        loadActiveSite(target);
+
+        const { [facilityId]: _loaded, ...remaining } = siteData;
+        set({
+          activeFacilityId: facilityId,
+          siteData: { ...remaining, [activeFacilityId]: current },
+        });
+      },
+    }),
+    {
+      name: 'facility-library',
+    }
+  )
+);
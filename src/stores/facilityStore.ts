@@ -6,7 +6,40 @@ import {
   AppMode,
   SchedulingSettings,
   RobotSettings,
+  CourtPlacement,
+  CourtOverrides,
+  CourtNamingScheme,
+  OverlaySport,
+  Amenity,
+  AmenityType,
+  LightFixture,
+  BuildingEnvelope,
 } from '@/types/facility';
+import { createFreeformCourt, getCourtPlacements } from '@/lib/courtLayout';
+import { mergeCourtOverrides } from '@/lib/courtAttributes';
+import { createCourtNamer } from '@/lib/courtNaming';
+import { createAmenity } from '@/lib/amenities';
+import { createCourtFixtures, createFixture } from '@/lib/lighting';
+import type { SharedLayout } from '@/lib/layoutLink';
+
+// Everything that belongs to a single facility site. This is what gets persisted
+// and what the facility library swaps in and out when switching sites.
+export interface FacilityLayout {
+  config: FacilityConfig;
+  surfaceType: SurfaceType;
+  spacing: number;
+  showNet: boolean;
+  showLines: boolean;
+  lineOverlays: OverlaySport[];
+  courtOverrides: Record<string, CourtOverrides>;
+  courtNamingScheme: CourtNamingScheme;
+  amenities: Amenity[];
+  lightFixtures: LightFixture[];
+  building: BuildingEnvelope | null;
+  complianceRuleSetId: string | null;
+  schedulingSettings: SchedulingSettings;
+  robotSettings: RobotSettings;
+}
 
 interface FacilityStore {
   // App mode
@@ -19,13 +52,62 @@ interface FacilityStore {
   spacing: number;
   showNet: boolean;
   showLines: boolean;
+  lineOverlays: OverlaySport[]; // other-sport line sets shown on every court without its own selection
 
   // Actions
-  setConfig: (config: FacilityConfig) => void;
+  // courtIdMap: court IDs renamed by the change; overrides follow their court, others are dropped
+  setConfig: (config: FacilityConfig, courtIdMap?: Record<string, string>) => void;
   setSurfaceType: (type: SurfaceType) => void;
   setSpacing: (spacing: number) => void;
   setShowNet: (show: boolean) => void;
   setShowLines: (show: boolean) => void;
+  setLineOverlays: (sports: OverlaySport[]) => void;
+
+  // Free-form placement (only applies when config.mode === 'freeform')
+  selectedCourtId: string | null;
+  setSelectedCourtId: (courtId: string | null) => void;
+  updateCourtPlacement: (courtId: string, updates: Partial<Pick<CourtPlacement, 'x' | 'z' | 'rotation'>>) => void;
+  addCourt: () => void;
+  removeCourt: (courtId: string) => void;
+
+  // Per-court surface, color and attribute overrides, keyed by court ID
+  courtOverrides: Record<string, CourtOverrides>;
+  updateCourtOverrides: (courtId: string, updates: Partial<CourtOverrides>) => void;
+  resetCourtOverrides: (courtId: string) => void;
+
+  // Court labels: custom names from overrides, otherwise the naming scheme
+  courtNamingScheme: CourtNamingScheme;
+  setCourtNamingScheme: (scheme: CourtNamingScheme) => void;
+  getCourtName: (courtId: string) => string;
+
+  // Benches, bleachers and equipment placed around the courts
+  amenities: Amenity[];
+  selectedAmenityId: string | null;
+  setSelectedAmenityId: (amenityId: string | null) => void;
+  addAmenity: (type: AmenityType) => void;
+  updateAmenity: (amenityId: string, updates: Partial<Pick<Amenity, 'x' | 'z' | 'rotation'>>) => void;
+  removeAmenity: (amenityId: string) => void;
+
+  // Overhead light fixtures and the illuminance heatmap
+  lightFixtures: LightFixture[];
+  selectedFixtureId: string | null;
+  showIlluminance: boolean;
+  setSelectedFixtureId: (fixtureId: string | null) => void;
+  setShowIlluminance: (show: boolean) => void;
+  addLightFixture: () => void;
+  addCourtLightFixtures: () => void;
+  updateLightFixture: (fixtureId: string, updates: Partial<Omit<LightFixture, 'id'>>) => void;
+  removeLightFixture: (fixtureId: string) => void;
+  clearLightFixtures: () => void;
+
+  // Building envelope (null = open floor sized to the courts)
+  building: BuildingEnvelope | null;
+  setBuilding: (building: BuildingEnvelope | null) => void;
+  updateBuilding: (updates: Partial<BuildingEnvelope>) => void;
+
+  // Compliance rule set used to check the layout (null = checker off)
+  complianceRuleSetId: string | null;
+  setComplianceRuleSetId: (ruleSetId: string | null) => void;
 
   // Scheduling settings
   schedulingSettings: SchedulingSettings;
@@ -34,6 +116,12 @@ interface FacilityStore {
   // Robot settings
   robotSettings: RobotSettings;
   setRobotSettings: (settings: Partial<RobotSettings>) => void;
+
+  // Facility library support
+  getLayout: () => FacilityLayout;
+  loadLayout: (layout: FacilityLayout) => void;
+  // Replace the layout with a shared link or template; scheduling and robot settings stay
+  applySharedLayout: (layout: Partial<SharedLayout>) => void;
 }
 
 const defaultSchedulingSettings: SchedulingSettings = {
@@ -54,47 +142,212 @@ const defaultRobotSettings: RobotSettings = {
   rechargeRatePerMinute: 20,
 };
 
+export const defaultFacilityLayout: FacilityLayout = {
+  config: { mode: 'even', rows: 2, cols: 3 },
+  surfaceType: 'polypropylene',
+  spacing: 1,
+  showNet: true,
+  showLines: true,
+  lineOverlays: [],
+  courtOverrides: {},
+  courtNamingScheme: 'grid',
+  amenities: [],
+  lightFixtures: [],
+  building: null,
+  complianceRuleSetId: null,
+  schedulingSettings: defaultSchedulingSettings,
+  robotSettings: defaultRobotSettings,
+};
+
+const selectLayout = (state: FacilityLayout): FacilityLayout => ({
+  config: state.config,
+  surfaceType: state.surfaceType,
+  spacing: state.spacing,
+  showNet: state.showNet,
+  showLines: state.showLines,
+  lineOverlays: state.lineOverlays,
+  courtOverrides: state.courtOverrides,
+  courtNamingScheme: state.courtNamingScheme,
+  amenities: state.amenities,
+  lightFixtures: state.lightFixtures,
+  building: state.building,
+  complianceRuleSetId: state.complianceRuleSetId,
+  schedulingSettings: state.schedulingSettings,
+  robotSettings: state.robotSettings,
+});
+
 export const useFacilityStore = create<FacilityStore>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       mode: 'build',
       setMode: (mode) => set({ mode }),
 
-      config: { mode: 'even', rows: 2, cols: 3 },
-      surfaceType: 'polypropylene',
-      spacing: 1,
-      showNet: true,
-      showLines: true,
+      ...defaultFacilityLayout,
 
-      setConfig: (config) => set({ config }),
+      setConfig: (config, courtIdMap) =>
+        set((state) => {
+          if (!courtIdMap) return { config };
+          const courtOverrides = Object.fromEntries(
+            Object.entries(state.courtOverrides)
+              .filter(([courtId]) => courtId in courtIdMap)
+              .map(([courtId, overrides]) => [courtIdMap[courtId], overrides])
+          );
+          const selectedCourtId = state.selectedCourtId ? courtIdMap[state.selectedCourtId] ?? null : null;
+          return { config, courtOverrides, selectedCourtId };
+        }),
       setSurfaceType: (surfaceType) => set({ surfaceType }),
       setSpacing: (spacing) => set({ spacing }),
       setShowNet: (showNet) => set({ showNet }),
       setShowLines: (showLines) => set({ showLines }),
+      setLineOverlays: (lineOverlays) => set({ lineOverlays }),
+
+      selectedCourtId: null,
+      setSelectedCourtId: (selectedCourtId) =>
+        set((state) => ({
+          selectedCourtId,
+          selectedAmenityId: selectedCourtId ? null : state.selectedAmenityId,
+          selectedFixtureId: selectedCourtId ? null : state.selectedFixtureId,
+        })),
+
+      updateCourtPlacement: (courtId, updates) => {
+        const { config } = get();
+        if (config.mode !== 'freeform') return;
+        set({
+          config: {
+            ...config,
+            courts: config.courts.map((c) => (c.id === courtId ? { ...c, ...updates } : c)),
+          },
+        });
+      },
+
+      addCourt: () => {
+        const { config, spacing } = get();
+        if (config.mode !== 'freeform') return;
+        const court = createFreeformCourt(config, spacing);
+        set({
+          config: { ...config, courts: [...config.courts, court] },
+          selectedCourtId: court.id,
+        });
+      },
+
+      removeCourt: (courtId) => {
+        const { config, selectedCourtId, courtOverrides } = get();
+        if (config.mode !== 'freeform') return;
+        const { [courtId]: _removed, ...remainingOverrides } = courtOverrides;
+        set({
+          config: { ...config, courts: config.courts.filter((c) => c.id !== courtId) },
+          selectedCourtId: selectedCourtId === courtId ? null : selectedCourtId,
+          courtOverrides: remainingOverrides,
+        });
+      },
+
+      updateCourtOverrides: (courtId, updates) =>
+        set((state) => {
+          const { [courtId]: current, ...others } = state.courtOverrides;
+          const merged = mergeCourtOverrides(current, updates);
+          return { courtOverrides: merged ? { ...others, [courtId]: merged } : others };
+        }),
+      resetCourtOverrides: (courtId) =>
+        set((state) => {
+          const { [courtId]: _removed, ...others } = state.courtOverrides;
+          return { courtOverrides: others };
+        }),
+
+      setCourtNamingScheme: (courtNamingScheme) => set({ courtNamingScheme }),
+      getCourtName: (courtId) => {
+        const { config, spacing, courtNamingScheme, courtOverrides } = get();
+        return createCourtNamer(getCourtPlacements(config, spacing), courtNamingScheme, courtOverrides)(courtId);
+      },
+
+      selectedAmenityId: null,
+      setSelectedAmenityId: (selectedAmenityId) =>
+        set((state) => ({
+          selectedAmenityId,
+          selectedCourtId: selectedAmenityId ? null : state.selectedCourtId,
+          selectedFixtureId: selectedAmenityId ? null : state.selectedFixtureId,
+        })),
+
+      addAmenity: (type) => {
+        const { amenities, config, spacing } = get();
+        const amenity = createAmenity(type, amenities, getCourtPlacements(config, spacing));
+        set({ amenities: [...amenities, amenity], selectedAmenityId: amenity.id, selectedCourtId: null, selectedFixtureId: null });
+      },
+
+      updateAmenity: (amenityId, updates) =>
+        set((state) => ({
+          amenities: state.amenities.map((a) => (a.id === amenityId ? { ...a, ...updates } : a)),
+        })),
+
+      removeAmenity: (amenityId) =>
+        set((state) => ({
+          amenities: state.amenities.filter((a) => a.id !== amenityId),
+          selectedAmenityId: state.selectedAmenityId === amenityId ? null : state.selectedAmenityId,
+        })),
+
+      selectedFixtureId: null,
+      showIlluminance: false,
+      setSelectedFixtureId: (selectedFixtureId) =>
+        set((state) => ({
+          selectedFixtureId,
+          selectedCourtId: selectedFixtureId ? null : state.selectedCourtId,
+          selectedAmenityId: selectedFixtureId ? null : state.selectedAmenityId,
+        })),
+      setShowIlluminance: (showIlluminance) => set({ showIlluminance }),
+
+      addLightFixture: () => {
+        const { lightFixtures, config, spacing } = get();
+        const fixture = createFixture(lightFixtures, getCourtPlacements(config, spacing));
+        set({ lightFixtures: [...lightFixtures, fixture], selectedFixtureId: fixture.id, selectedCourtId: null, selectedAmenityId: null });
+      },
+
+      addCourtLightFixtures: () => {
+        const { lightFixtures, config, spacing } = get();
+        const created = createCourtFixtures(lightFixtures, getCourtPlacements(config, spacing));
+        set({ lightFixtures: [...lightFixtures, ...created] });
+      },
+
+      updateLightFixture: (fixtureId, updates) =>
+        set((state) => ({
+          lightFixtures: state.lightFixtures.map((f) => (f.id === fixtureId ? { ...f, ...updates } : f)),
+        })),
+
+      removeLightFixture: (fixtureId) =>
+        set((state) => ({
+          lightFixtures: state.lightFixtures.filter((f) => f.id !== fixtureId),
+          selectedFixtureId: state.selectedFixtureId === fixtureId ? null : state.selectedFixtureId,
+        })),
+
+      clearLightFixtures: () => set({ lightFixtures: [], selectedFixtureId: null }),
+
+      setBuilding: (building) => set({ building }),
+      updateBuilding: (updates) =>
+        set((state) => ({
+          building: state.building ? { ...state.building, ...updates } : state.building,
+        })),
+
+      setComplianceRuleSetId: (complianceRuleSetId) => set({ complianceRuleSetId }),
 
-      schedulingSettings: defaultSchedulingSettings,
       setSchedulingSettings: (settings) => 
         set((state) => ({
           schedulingSettings: { ...state.schedulingSettings, ...settings },
         })),
 
-      robotSettings: defaultRobotSettings,
       setRobotSettings: (settings) =>
         set((state) => ({
           robotSettings: { ...state.robotSettings, ...settings },
         })),
+
+      getLayout: () => selectLayout(get()),
+      loadLayout: (layout) =>
+        set({ ...selectLayout({ ...defaultFacilityLayout, ...layout }), selectedCourtId: null, selectedAmenityId: null, selectedFixtureId: null }),
+      applySharedLayout: (layout) => {
+        const { schedulingSettings, robotSettings, loadLayout } = get();
+        loadLayout({ ...defaultFacilityLayout, ...layout, schedulingSettings, robotSettings });
+      },
     }),
     {
       name: 'facility-storage',
-      partialize: (state) => ({
-        config: state.config,
-        surfaceType: state.surfaceType,
-        spacing: state.spacing,
-        showNet: state.showNet,
-        showLines: state.showLines,
-        schedulingSettings: state.schedulingSettings,
-        robotSettings: state.robotSettings,
-      }),
+      partialize: (state) => selectLayout(state),
     }
   )
 );
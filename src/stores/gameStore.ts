@@ -1,6 +1,8 @@
  import { create } from 'zustand';
- import { GameState, BallState, PlayerState, ShotType, Team, SHOT_CONFIGS, GRAVITY, BOUNCE_DAMPING, NET_HEIGHT_AT_CENTER } from '@/types/game';
+ import { GameState, BallState, PlayerState, ShotType, Team, CourtFrame, SHOT_CONFIGS, GRAVITY, BOUNCE_DAMPING, NET_HEIGHT_AT_CENTER } from '@/types/game';
  import { COURT_WIDTH, COURT_LENGTH, KITCHEN_DEPTH } from '@/types/facility';
+ import { courtToWorld, getCourtRotationRadians, worldToCourt } from '@/lib/courtLayout';
+ import { Random, createRandom } from '@/lib/random';
  
  // Pre-allocated vector for calculations
  const tempVec = { x: 0, y: 0, z: 0 };
@@ -9,10 +11,11 @@
    games: Map<string, GameState>;
    
    // Actions
-   initializeGame: (courtId: string, courtPosition: { x: number; z: number }) => void;
+   initializeGame: (courtId: string, court: CourtFrame, seed: number) => void;
    updateGame: (courtId: string, deltaSeconds: number) => void;
    endGame: (courtId: string) => void;
    getGame: (courtId: string) => GameState | undefined;
+   restartGames: () => void;
  }
  
  function createInitialBallState(): BallState {
@@ -25,59 +28,42 @@
    };
  }
  
- function createInitialPlayerStates(courtPosition: { x: number; z: number }): PlayerState[] {
+ /**
+  * Two players per side, team A on the court's local -Z end facing the net.
+  * Positions and facing follow the court's rotation.
+  */
+ export function createInitialPlayerStates(court: CourtFrame): PlayerState[] {
    const halfWidth = COURT_WIDTH / 2;
    const halfLength = COURT_LENGTH / 2;
+   const rotation = getCourtRotationRadians(court.rotation);
    
    // 4 players: 2 on each side
-   return [
+   const slots: { side: number; end: number; team: Team }[] = [
      // Team A - near side
-     {
-       animState: 'ready',
-       targetPosition: { x: courtPosition.x - halfWidth * 0.3, z: courtPosition.z - halfLength * 0.6 },
-       currentPosition: { x: courtPosition.x - halfWidth * 0.3, z: courtPosition.z - halfLength * 0.6 },
-       facingAngle: 0,
-       swingPhase: 0,
-       swingType: 'drive',
-       team: 'A',
-       playerIndex: 0,
-     },
-     {
-       animState: 'ready',
-       targetPosition: { x: courtPosition.x + halfWidth * 0.3, z: courtPosition.z - halfLength * 0.6 },
-       currentPosition: { x: courtPosition.x + halfWidth * 0.3, z: courtPosition.z - halfLength * 0.6 },
-       facingAngle: 0,
-       swingPhase: 0,
-       swingType: 'drive',
-       team: 'A',
-       playerIndex: 1,
-     },
+     { side: -1, end: -1, team: 'A' },
+     { side: 1, end: -1, team: 'A' },
      // Team B - far side
-     {
-       animState: 'ready',
-       targetPosition: { x: courtPosition.x - halfWidth * 0.3, z: courtPosition.z + halfLength * 0.6 },
-       currentPosition: { x: courtPosition.x - halfWidth * 0.3, z: courtPosition.z + halfLength * 0.6 },
-       facingAngle: Math.PI,
-       swingPhase: 0,
-       swingType: 'drive',
-       team: 'B',
-       playerIndex: 2,
-     },
-     {
+     { side: -1, end: 1, team: 'B' },
+     { side: 1, end: 1, team: 'B' },
+   ];
+   
+   return slots.map(({ side, end, team }, playerIndex) => {
+     const position = courtToWorld(court, { x: side * halfWidth * 0.3, z: end * halfLength * 0.6 });
+     return {
        animState: 'ready',
-       targetPosition: { x: courtPosition.x + halfWidth * 0.3, z: courtPosition.z + halfLength * 0.6 },
-       currentPosition: { x: courtPosition.x + halfWidth * 0.3, z: courtPosition.z + halfLength * 0.6 },
-       facingAngle: Math.PI,
+       targetPosition: { ...position },
+       currentPosition: { ...position },
+       facingAngle: (team === 'A' ? 0 : Math.PI) + rotation,
        swingPhase: 0,
        swingType: 'drive',
-       team: 'B',
-       playerIndex: 3,
-     },
-   ];
+       team,
+       playerIndex,
+     };
+   });
  }
  
- function selectShot(): ShotType {
-   const rand = Math.random();
+ function selectShot(random: Random): ShotType {
+   const rand = random.next();
    if (rand < 0.4) return 'drive';
    if (rand < 0.6) return 'dink';
    if (rand < 0.75) return 'drop';
@@ -88,7 +74,8 @@
  function calculateShotVelocity(
    from: { x: number; z: number },
    to: { x: number; z: number },
-   shotType: ShotType
+   shotType: ShotType,
+   random: Random
  ): { x: number; y: number; z: number } {
    const config = SHOT_CONFIGS[shotType];
    const dx = to.x - from.x;
@@ -100,7 +87,7 @@
    const totalTime = timeUp * 2;
    
    // Add some variance
-   const variance = 1 + (Math.random() - 0.5) * config.variance * 2;
+   const variance = 1 + (random.next() - 0.5) * config.variance * 2;
    
    return {
      x: (dx / totalTime) * variance,
@@ -112,9 +99,10 @@
  export const useGameStore = create<GameStore>((set, get) => ({
    games: new Map(),
    
-   initializeGame: (courtId: string, courtPosition: { x: number; z: number }) => {
+   initializeGame: (courtId: string, court: CourtFrame, seed: number) => {
      const game: GameState = {
        courtId,
+       court,
        teamAScore: 0,
        teamBScore: 0,
        servingTeam: 'A',
@@ -124,9 +112,11 @@
        rallyCount: 0,
        status: 'serving',
        ballState: createInitialBallState(),
-       playerStates: createInitialPlayerStates(courtPosition),
+       playerStates: createInitialPlayerStates(court),
        lastPointTime: 0,
        gameStartTime: performance.now(),
+       seed,
+       randomState: seed,
      };
      
      // Position ball for serve
@@ -149,6 +139,7 @@
      
      const ball = game.ballState;
      const players = game.playerStates;
+     const random = createRandom(game.randomState);
      
      // State machine for game progression
      switch (game.status) {
@@ -175,16 +166,20 @@
            server.animState = 'ready';
            server.swingPhase = 0;
            
-           // Launch ball to opponent's court
-           const targetZ = game.servingTeam === 'A' 
-             ? ball.position.z + COURT_LENGTH * 0.7
-             : ball.position.z - COURT_LENGTH * 0.7;
-           const targetX = ball.position.x + (Math.random() - 0.5) * COURT_WIDTH * 0.5;
+           // Launch ball to opponent's court, along the court's long axis
+           const serveFrom = worldToCourt(game.court, ball.position);
+           const serveTarget = courtToWorld(game.court, {
+             x: serveFrom.x + (random.next() - 0.5) * COURT_WIDTH * 0.5,
+             z: game.servingTeam === 'A'
+               ? serveFrom.z + COURT_LENGTH * 0.7
+               : serveFrom.z - COURT_LENGTH * 0.7,
+           });
            
            ball.velocity = calculateShotVelocity(
              { x: ball.position.x, z: ball.position.z },
-             { x: targetX, z: targetZ },
-             'serve'
+             serveTarget,
+             'serve',
+             random
            );
            ball.shotType = 'serve';
            ball.lastHitBy = serverIndex;
@@ -206,13 +201,11 @@
            ball.position.y = 0.037;
            ball.velocity.y = -ball.velocity.y * BOUNCE_DAMPING;
            
-           // Check if ball is out of bounds or in kitchen on serve
-           const courtCenter = players[0].currentPosition.z + COURT_LENGTH / 2 * (game.servingTeam === 'A' ? 1 : -1);
-           
            // Simplified: end point after bounce
            if (Math.abs(ball.velocity.y) < 0.5) {
-             // Ball stopped - determine point winner
-             const scoringTeam: Team = ball.velocity.z > 0 ? 'A' : 'B';
+             // Ball stopped - determine point winner from its direction along the court
+             const along = worldToCourt({ x: 0, z: 0, rotation: game.court.rotation }, ball.velocity).z;
+             const scoringTeam: Team = along > 0 ? 'A' : 'B';
              scorePoint(game, scoringTeam);
            }
          }
@@ -228,7 +221,7 @@
            // Player can hit if ball is close and at reachable height
            if (dist < 1.5 && ball.position.y < 2.0 && ball.position.y > 0.2) {
              // Chance to miss
-             if (Math.random() < 0.12) {
+             if (random.next() < 0.12) {
                const missedTeam = player.team;
                const scoringTeam = missedTeam === 'A' ? 'B' : 'A';
                scorePoint(game, scoringTeam);
@@ -238,18 +231,22 @@
              // Return shot
              player.animState = 'swing';
              player.swingPhase = 0;
-             player.swingType = selectShot();
+             player.swingType = selectShot(random);
              
              // Target opponent's side
              const targetTeam = player.team === 'A' ? 'B' : 'A';
              const targetPlayer = players.find(p => p.team === targetTeam) || players[0];
-             const targetX = targetPlayer.currentPosition.x + (Math.random() - 0.5) * COURT_WIDTH * 0.8;
-             const targetZ = targetPlayer.currentPosition.z + (Math.random() - 0.5) * COURT_LENGTH * 0.3;
+             const targetFrom = worldToCourt(game.court, targetPlayer.currentPosition);
+             const shotTarget = courtToWorld(game.court, {
+               x: targetFrom.x + (random.next() - 0.5) * COURT_WIDTH * 0.8,
+               z: targetFrom.z + (random.next() - 0.5) * COURT_LENGTH * 0.3,
+             });
              
              ball.velocity = calculateShotVelocity(
                { x: ball.position.x, z: ball.position.z },
-               { x: targetX, z: targetZ },
-               player.swingType
+               shotTarget,
+               player.swingType,
+               random
              );
              ball.lastHitBy = idx;
              ball.shotType = player.swingType;
@@ -302,6 +299,8 @@
          break;
      }
      
+     game.randomState = random.getState();
+     
      // Update state
      set(state => {
        const newGames = new Map(state.games);
@@ -321,6 +320,12 @@
    getGame: (courtId: string) => {
      return get().games.get(courtId);
    },
+   
+   // Rallies play in real time, not simulation time, so they cannot be
+   // re-simulated to a seek target; every game starts over from its seed instead
+   restartGames: () => {
+     get().games.forEach((game, courtId) => get().initializeGame(courtId, game.court, game.seed));
+   },
  }));
  
  function scorePoint(game: GameState, scoringTeam: Team) {
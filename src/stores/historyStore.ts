@@ -0,0 +1,218 @@
+import { create } from 'zustand';
+import { FacilityLayout, useFacilityStore } from './facilityStore';
+import { getCourtPlacements } from '@/lib/courtLayout';
+
+// Build-mode part of a facility layout. Scheduling and robot settings are
+// edited in Homebase and are deliberately left out of undo/redo.
+export type BuildSnapshot = Omit<FacilityLayout, 'schedulingSettings' | 'robotSettings'>;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  target: string; // what the change touched, see describeTarget
+  snapshot: BuildSnapshot; // state before the change
+  timestamp: number;
+}
+
+interface HistoryStore {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (entryId: number | null) => void; // state right after the entry; null = before all entries
+  clear: () => void;
+}
+
+// Consecutive changes with the same label and target inside this window become
+// one step (slider drags, dragging a court, typing a name)
+const COALESCE_WINDOW_MS = 800;
+const MAX_HISTORY = 100;
+
+const BUILD_KEYS: (keyof BuildSnapshot)[] = [
+  'config',
+  'surfaceType',
+  'spacing',
+  'showNet',
+  'showLines',
+  'lineOverlays',
+  'courtOverrides',
+  'courtNamingScheme',
+  'amenities',
+  'lightFixtures',
+  'building',
+  'complianceRuleSetId',
+];
+
+const takeSnapshot = (state: BuildSnapshot): BuildSnapshot =>
+  Object.fromEntries(BUILD_KEYS.map((key) => [key, state[key]])) as unknown as BuildSnapshot;
+
+/**
+ * Human-readable description of what changed between two snapshots
+ */
+export function describeChange(prev: BuildSnapshot, next: BuildSnapshot): string | null {
+  if (prev.config !== next.config) {
+    const a = prev.config;
+    const b = next.config;
+    if (a.mode !== b.mode) {
+      if (b.mode === 'freeform') return 'Enable free-form placement';
+      if (a.mode === 'freeform') return 'Disable free-form placement';
+      return b.mode === 'uneven' ? 'Enable uneven rows' : 'Disable uneven rows';
+    }
+    if (a.mode === 'freeform' && b.mode === 'freeform') {
+      if (b.courts.length > a.courts.length) return 'Add court';
+      if (b.courts.length < a.courts.length) return 'Remove court';
+      const rotated = b.courts.some((c, i) => a.courts[i] && c.rotation !== a.courts[i].rotation);
+      return rotated ? 'Rotate court' : 'Move court';
+    }
+    if (a.mode !== 'freeform' && b.mode !== 'freeform' && a.rows === b.rows && a.rowRotations !== b.rowRotations) {
+      return 'Rotate row';
+    }
+    if (a.mode === 'uneven' && b.mode === 'uneven' && a.rows === b.rows && a.maxCols === b.maxCols) {
+      return 'Change row lengths';
+    }
+    return 'Change grid size';
+  }
+  if (prev.spacing !== next.spacing) return 'Court spacing';
+  if (prev.surfaceType !== next.surfaceType) return 'Surface type';
+  if (prev.showNet !== next.showNet) return next.showNet ? 'Show nets' : 'Hide nets';
+  if (prev.showLines !== next.showLines) return next.showLines ? 'Show lines' : 'Hide lines';
+  if (prev.lineOverlays !== next.lineOverlays) return 'Line overlays';
+  if (prev.courtOverrides !== next.courtOverrides) return 'Court attributes';
+  if (prev.courtNamingScheme !== next.courtNamingScheme) return 'Court numbering';
+  if (prev.amenities !== next.amenities) {
+    if (next.amenities.length > prev.amenities.length) return 'Add amenity';
+    if (next.amenities.length < prev.amenities.length) return 'Remove amenity';
+    const rotated = next.amenities.some((a, i) => prev.amenities[i] && a.rotation !== prev.amenities[i].rotation);
+    return rotated ? 'Rotate amenity' : 'Move amenity';
+  }
+  if (prev.lightFixtures !== next.lightFixtures) {
+    if (next.lightFixtures.length > prev.lightFixtures.length) return 'Add light fixture';
+    if (next.lightFixtures.length < prev.lightFixtures.length) return 'Remove light fixture';
+    const moved = next.lightFixtures.some(
+      (f, i) => prev.lightFixtures[i] && (f.x !== prev.lightFixtures[i].x || f.z !== prev.lightFixtures[i].z)
+    );
+    return moved ? 'Move light fixture' : 'Edit light fixture';
+  }
+  if (prev.building !== next.building) {
+    if (!prev.building) return 'Add building';
+    if (!next.building) return 'Remove building';
+    return 'Edit building';
+  }
+  if (prev.complianceRuleSetId !== next.complianceRuleSetId) return 'Compliance rule set';
+  return null;
+}
+
+// Ids of list items added, removed or replaced between two versions
+function changedIds<T extends { id: string }>(prev: T[], next: T[]): string[] {
+  const before = new Map(prev.map((item) => [item.id, item]));
+  const after = new Set(next.map((item) => item.id));
+  return [
+    ...next.filter((item) => before.get(item.id) !== item).map((item) => item.id),
+    ...prev.filter((item) => !after.has(item.id)).map((item) => item.id),
+  ];
+}
+
+/**
+ * Which courts, items or grid dimensions a change touched, so that only
+ * repeats of the same edit are coalesced. Empty for single-valued settings.
+ */
+export function describeTarget(prev: BuildSnapshot, next: BuildSnapshot): string {
+  if (prev.config !== next.config) {
+    const a = prev.config;
+    const b = next.config;
+    if (a.mode === 'freeform' && b.mode === 'freeform') return changedIds(a.courts, b.courts).join(',');
+    if (a.mode === 'freeform' || b.mode === 'freeform') return '';
+    if (a.mode === 'uneven' && b.mode === 'uneven' && a.rows === b.rows && a.maxCols === b.maxCols) {
+      return b.rowLengths.flatMap((length, row) => (length !== a.rowLengths[row] ? [`row-${row}`] : [])).join(',');
+    }
+    const cols = (config: typeof a) => (config.mode === 'even' ? config.cols : config.maxCols);
+    return [a.rows !== b.rows && 'rows', cols(a) !== cols(b) && 'cols'].filter(Boolean).join(',');
+  }
+  if (prev.courtOverrides !== next.courtOverrides) {
+    const ids = new Set([...Object.keys(prev.courtOverrides), ...Object.keys(next.courtOverrides)]);
+    return [...ids].filter((id) => prev.courtOverrides[id] !== next.courtOverrides[id]).join(',');
+  }
+  if (prev.amenities !== next.amenities) return changedIds(prev.amenities, next.amenities).join(',');
+  if (prev.lightFixtures !== next.lightFixtures) return changedIds(prev.lightFixtures, next.lightFixtures).join(',');
+  return '';
+}
+
+let nextEntryId = 1;
+// Set while undo/redo writes to the facility store so those writes are not recorded
+let isRestoring = false;
+
+// Selections pointing at something the restored layout does not have are cleared
+const restore = (snapshot: BuildSnapshot) => {
+  const { selectedCourtId, selectedAmenityId, selectedFixtureId } = useFacilityStore.getState();
+  const courtIds = new Set(getCourtPlacements(snapshot.config, snapshot.spacing).map((p) => p.id));
+  isRestoring = true;
+  useFacilityStore.setState({
+    ...snapshot,
+    selectedCourtId: courtIds.has(selectedCourtId) ? selectedCourtId : null,
+    selectedAmenityId: snapshot.amenities.some((a) => a.id === selectedAmenityId) ? selectedAmenityId : null,
+    selectedFixtureId: snapshot.lightFixtures.some((f) => f.id === selectedFixtureId) ? selectedFixtureId : null,
+  });
+  isRestoring = false;
+};
+
+export const useHistoryStore = create<HistoryStore>()((set, get) => ({
+  past: [],
+  future: [],
+
+  undo: () => {
+    const { past, future } = get();
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    const current = takeSnapshot(useFacilityStore.getState());
+    restore(entry.snapshot);
+    set({
+      past: past.slice(0, -1),
+      future: [{ ...entry, snapshot: current, timestamp: 0 }, ...future],
+    });
+  },
+
+  redo: () => {
+    const { past, future } = get();
+    const entry = future[0];
+    if (!entry) return;
+    const current = takeSnapshot(useFacilityStore.getState());
+    restore(entry.snapshot);
+    set({
+      past: [...past, { ...entry, snapshot: current, timestamp: 0 }],
+      future: future.slice(1),
+    });
+  },
+
+  jumpTo: (entryId) => {
+    const { past, future, undo, redo } = get();
+    if (entryId === null) {
+      past.forEach(() => undo());
+    } else if (past.some((e) => e.id === entryId)) {
+      while (get().past[get().past.length - 1].id !== entryId) undo();
+    } else if (future.some((e) => e.id === entryId)) {
+      while (get().future.some((e) => e.id === entryId)) redo();
+    }
+  },
+
+  clear: () => set({ past: [], future: [] }),
+}));
+
+// Record every build-mode change made through the facility store
+useFacilityStore.subscribe((state, prevState) => {
+  if (isRestoring) return;
+  const label = describeChange(prevState, state);
+  if (!label) return;
+  const target = describeTarget(prevState, state);
+
+  const now = Date.now();
+  useHistoryStore.setState(({ past }) => {
+    const last = past[past.length - 1];
+    if (last && last.label === label && last.target === target && now - last.timestamp < COALESCE_WINDOW_MS) {
+      // Keep the original "before" snapshot, extend the coalescing window
+      return { past: [...past.slice(0, -1), { ...last, timestamp: now }], future: [] };
+    }
+    const entry: HistoryEntry = { id: nextEntryId++, label, target, snapshot: takeSnapshot(prevState), timestamp: now };
+    return { past: [...past, entry].slice(-MAX_HISTORY), future: [] };
+  });
+});
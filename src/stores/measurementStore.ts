@@ -0,0 +1,81 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Point2D } from '@/types/facility';
+import { Measurement } from '@/lib/measurement';
+import { segmentLength } from '@/lib/building';
+
+interface MeasurementStore {
+  measureMode: boolean;
+  measurements: Measurement[];
+  // Measurement receiving clicks; null until the first point of the next one
+  activeMeasurementId: string | null;
+
+  setMeasureMode: (measureMode: boolean) => void;
+  addPoint: (point: Point2D) => void;
+  finishMeasurement: () => void;
+  removeMeasurement: (measurementId: string) => void;
+  clearMeasurements: () => void;
+}
+
+const generateId = () => `measurement-${Math.random().toString(36).substr(2, 9)}`;
+
+// Clicks this close to the previous point are ignored, so a double-click adds one point (meters)
+const MIN_SEGMENT = 0.05;
+
+// A measurement needs two points to have a length; shorter ones are dropped when finished
+const dropIncomplete = (measurements: Measurement[], measurementId: string | null) =>
+  measurements.filter((m) => m.id !== measurementId || m.points.length >= 2);
+
+export const useMeasurementStore = create<MeasurementStore>()(
+  persist(
+    (set) => ({
+      measureMode: false,
+      measurements: [],
+      activeMeasurementId: null,
+
+      setMeasureMode: (measureMode) =>
+        set((s) => measureMode ? { measureMode } : {
+          measureMode,
+          measurements: dropIncomplete(s.measurements, s.activeMeasurementId),
+          activeMeasurementId: null,
+        }),
+
+      addPoint: (point) =>
+        set((s) => {
+          const active = s.measurements.find((m) => m.id === s.activeMeasurementId);
+          if (active) {
+            const last = active.points[active.points.length - 1];
+            if (segmentLength(last, point) < MIN_SEGMENT) return {};
+            return {
+              measurements: s.measurements.map((m) =>
+                m.id === s.activeMeasurementId ? { ...m, points: [...m.points, point] } : m
+              ),
+            };
+          }
+          const measurement: Measurement = { id: generateId(), points: [point] };
+          return { measurements: [...s.measurements, measurement], activeMeasurementId: measurement.id };
+        }),
+
+      finishMeasurement: () =>
+        set((s) => ({
+          measurements: dropIncomplete(s.measurements, s.activeMeasurementId),
+          activeMeasurementId: null,
+        })),
+
+      removeMeasurement: (measurementId) =>
+        set((s) => ({
+          measurements: s.measurements.filter((m) => m.id !== measurementId),
+          activeMeasurementId: s.activeMeasurementId === measurementId ? null : s.activeMeasurementId,
+        })),
+
+      clearMeasurements: () => set({ measurements: [], activeMeasurementId: null }),
+    }),
+    {
+      name: 'facility-measurements',
+      // Measure mode and the in-progress measurement are per session
+      partialize: (state) => ({
+        measurements: dropIncomplete(state.measurements, state.activeMeasurementId),
+      }),
+    }
+  )
+);
@@ -0,0 +1,21 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { UnitSystem } from '@/lib/units';
+
+// Display preferences, shared by every facility in the library
+interface PreferencesStore {
+  units: UnitSystem;
+  setUnits: (units: UnitSystem) => void;
+}
+
+export const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    (set) => ({
+      units: 'metric',
+      setUnits: (units) => set({ units }),
+    }),
+    {
+      name: 'display-preferences',
+    }
+  )
+);
@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { SurfaceType } from '@/types/facility';
+import { DEFAULT_PRICE_SHEET, PriceSheet } from '@/types/estimate';
+
+// Prices are a company-wide setting, shared by every facility in the library
+interface PriceSheetStore {
+  prices: PriceSheet;
+  setPrice: (key: Exclude<keyof PriceSheet, 'surface'>, price: number) => void;
+  setSurfacePrice: (surfaceType: SurfaceType, price: number) => void;
+  resetPrices: () => void;
+}
+
+export const usePriceSheetStore = create<PriceSheetStore>()(
+  persist(
+    (set) => ({
+      prices: DEFAULT_PRICE_SHEET,
+
+      setPrice: (key, price) => set((s) => ({ prices: { ...s.prices, [key]: price } })),
+      setSurfacePrice: (surfaceType, price) =>
+        set((s) => ({ prices: { ...s.prices, surface: { ...s.prices.surface, [surfaceType]: price } } })),
+      resetPrices: () => set({ prices: DEFAULT_PRICE_SHEET }),
+    }),
+    {
+      name: 'price-sheet',
+    }
+  )
+);
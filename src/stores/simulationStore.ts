@@ -6,24 +6,67 @@ import {
   Booking,
   CleaningJob,
   Robot,
-  getCourtId,
-  COURT_WIDTH,
-  COURT_LENGTH,
+  CourtPlacement,
 } from '@/types/facility';
-
-type SimulationSpeed = 1 | 4 | 10;
+import { useFacilityStore } from './facilityStore';
+import { createRandom, normalizeSeed, randomSeed } from '@/lib/random';
+import { formatDateTime, getDayStart, todayIsoDate } from '@/lib/calendar';
+import {
+  TimelineSnapshot,
+  crossesSnapshotBoundary,
+  findSnapshot,
+  getEarliestSeekTime,
+  getNextSnapshotTime,
+} from '@/lib/timeline';
+import { useGameStore } from './gameStore';
+import {
+  RobotMotion,
+  SimulationEnvironment,
+  SimulationState,
+  enqueueCleaningJob,
+  runEvents,
+  stepSimulation,
+  stepToNextEvent,
+} from '@/lib/simulationEngine';
+
+// Simulated minutes per real second
+type SimulationSpeed = number;
+
+// Notification label for a court, following the facility's naming scheme
+const courtName = (courtId: string) => useFacilityStore.getState().getCourtName(courtId);
+
+// Per-site simulation data kept by the facility library. Court states, the
+// cleaning queue, selection and notifications are transient and rebuilt on load.
+export interface SimulationSnapshot {
+  startDate: string; // calendar date of day 0, "YYYY-MM-DD"
+  currentTime: number;
+  bookings: Booking[];
+  robots: Robot[];
+  dockPosition: { x: number; z: number };
+  seed: number;
+  randomState: number; // generator state, so each site continues its own stream
+}
 
 interface SimulationStore {
   // Time
-  currentTime: number; // minutes since midnight
+  startDate: string; // calendar date of day 0, "YYYY-MM-DD"
+  currentTime: number; // minutes since midnight of day 0, see lib/calendar
   isPlaying: boolean;
   speed: SimulationSpeed;
 
+  // Randomness - the seed picks the run, randomState is where it has got to
+  seed: number;
+  randomState: number;
+
+  // Periodic snapshots for seeking backward, oldest first
+  timeline: TimelineSnapshot[];
+
   // State
   courts: Map<string, CourtState>;
   bookings: Booking[];
   cleaningQueue: CleaningJob[];
   robots: Robot[];
+  robotMotion: Map<string, RobotMotion>;
   selectedCourtIds: Set<string>;
   multiSelectMode: boolean;
 
@@ -37,10 +80,14 @@ interface SimulationStore {
   setCurrentTime: (time: number) => void;
   togglePlaying: () => void;
   setSpeed: (speed: SimulationSpeed) => void;
-  tick: (deltaMinutes: number) => void;
+  tick: (deltaMinutes: number, environment: SimulationEnvironment) => void;
+  runToNextEvent: (environment: SimulationEnvironment) => void;
+  runUntil: (time: number, environment: SimulationEnvironment) => void;
+  seek: (time: number, environment: SimulationEnvironment) => void;
+  setSeed: (seed: number) => void;
 
   // Actions - Courts
-  initializeCourts: (rows: number, cols: number, rowLengths?: number[]) => void;
+  initializeCourts: (placements: CourtPlacement[]) => void;
   setCourtStatus: (courtId: string, status: CourtStatus) => void;
   updateCourtCleanliness: (courtId: string, cleanliness: number) => void;
   setCourtOutOfService: (courtId: string, outOfService: boolean) => void;
@@ -56,10 +103,10 @@ interface SimulationStore {
   removeBooking: (bookingId: string) => void;
   clearBookings: () => void;
   generateSchedule: (settings: {
-    rows: number;
-    cols: number;
-    rowLengths?: number[];
-    startTime: number;
+    courtIds: string[];
+    day: number;
+    days?: number; // consecutive days to fill, default 1
+    startTime: number; // minutes since midnight on each day
     endTime: number;
     sessionDuration: number;
     bufferTime: number;
@@ -84,120 +131,193 @@ interface SimulationStore {
   // Actions - Persistence
   exportState: () => string;
   importState: (json: string) => void;
+
+  // Actions - Facility library
+  getSnapshot: () => SimulationSnapshot;
+  loadSnapshot: (snapshot: SimulationSnapshot) => void;
 }
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+/**
+ * Booking IDs come from the court and start time, like cleaning job IDs, so a
+ * seeded schedule and an imported one get the same IDs. Double bookings of a
+ * slot get a numeric suffix.
+ */
+function getBookingId(bookings: Booking[], courtId: string, startTime: number): string {
+  const base = `booking-${courtId}-${startTime}`;
+  const taken = new Set(bookings.map((b) => b.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+const DEFAULT_DOCK_POSITION = { x: -2, z: -2 };
+
+export function createDefaultSimulationSnapshot(): SimulationSnapshot {
+  const seed = randomSeed();
+  return {
+    startDate: todayIsoDate(),
+    currentTime: 480, // 8:00 AM on day 0
+    bookings: [],
+    robots: [
+      {
+        id: 'robot-1',
+        name: 'CC1-Alpha',
+        status: 'idle',
+        battery: 100,
+        position: { ...DEFAULT_DOCK_POSITION },
+        targetCourtId: null,
+        currentJobId: null,
+        cleaningProgress: 0,
+      },
+    ],
+    dockPosition: { ...DEFAULT_DOCK_POSITION },
+    seed,
+    randomState: seed,
+  };
+}
+
+// Most recent messages kept in the notification feed
+const MAX_NOTIFICATIONS = 10;
+
+// The part of the store the simulation engine advances
+function getEngineState(store: SimulationStore): SimulationState {
+  const { currentTime, courts, bookings, cleaningQueue, robots, robotMotion, dockPosition, randomState } = store;
+  return { currentTime, courts, bookings, cleaningQueue, robots, robotMotion, dockPosition, randomState };
+}
+
+// Bounds memory on long runs: a week of snapshots. Older ones are dropped, which
+// moves the earliest time the timeline can seek back to.
+const MAX_SNAPSHOTS = (7 * 24 * 60) / 15;
+
+const takeSnapshot = (state: SimulationState): TimelineSnapshot => ({ state });
+
+// Timeline to extend, starting it at the current state if it is empty
+function startTimeline(store: SimulationStore): TimelineSnapshot[] {
+  return store.timeline.length > 0 ? store.timeline : [takeSnapshot(getEngineState(store))];
+}
+
+// Add a snapshot when the clock passes a snapshot boundary
+function recordTimeline(timeline: TimelineSnapshot[], previousTime: number, state: SimulationState): TimelineSnapshot[] {
+  if (!crossesSnapshotBoundary(previousTime, state.currentTime)) return timeline;
+  return [...timeline, takeSnapshot(state)].slice(-MAX_SNAPSHOTS);
+}
+
+/**
+ * Park robots at the dock with no job. In-flight paths are not persisted, so
+ * a restored robot cannot resume mid-route.
+ */
+function parkRobots(robots: Robot[], dockPosition: { x: number; z: number }): Robot[] {
+  return robots.map((robot) => ({
+    ...robot,
+    status: 'idle',
+    position: { ...dockPosition },
+    targetCourtId: null,
+    currentJobId: null,
+    cleaningProgress: 0,
+  }));
+}
+
 export const useSimulationStore = create<SimulationStore>()(
   persist(
     (set, get) => ({
-      currentTime: 480, // 8:00 AM
+      ...createDefaultSimulationSnapshot(),
       isPlaying: false,
       speed: 1,
+      timeline: [],
 
       courts: new Map(),
-      bookings: [],
       cleaningQueue: [],
-      robots: [
-        {
-          id: 'robot-1',
-          name: 'CC1-Alpha',
-          status: 'idle',
-          battery: 100,
-          position: { x: -2, z: -2 },
-          targetCourtId: null,
-          currentJobId: null,
-          cleaningProgress: 0,
-        },
-      ],
+      robotMotion: new Map(),
       selectedCourtIds: new Set(),
       multiSelectMode: false,
-      dockPosition: { x: -2, z: -2 },
       notifications: [],
 
       setCurrentTime: (time) => set({ currentTime: time }),
       togglePlaying: () => set((s) => ({ isPlaying: !s.isPlaying })),
       setSpeed: (speed) => set({ speed }),
 
-      tick: (deltaMinutes) => {
-        const state = get();
-        const newTime = state.currentTime + deltaMinutes;
-
-        // Check bookings starting
-        state.bookings.forEach((booking) => {
-          const court = state.courts.get(booking.courtId);
-          if (!court) return;
-
-          // Start booking
-          if (
-            state.currentTime < booking.startTime &&
-            newTime >= booking.startTime &&
-            court.status === 'AVAILABLE_CLEAN'
-          ) {
-            set((s) => {
-              const courts = new Map(s.courts);
-              const c = courts.get(booking.courtId);
-              if (c) {
-                courts.set(booking.courtId, {
-                  ...c,
-                  status: 'IN_USE',
-                  activeBookingId: booking.id,
-                });
-              }
-              return { courts };
-            });
-            get().addNotification(`Court ${booking.courtId.split('-').slice(1).join('-')} session started`);
-          }
+      setSeed: (seed) => {
+        const normalized = normalizeSeed(seed);
+        set({ seed: normalized, randomState: normalized, timeline: [] });
+      },
 
-          // End booking
-          if (
-            state.currentTime < booking.endTime &&
-            newTime >= booking.endTime &&
-            court.status === 'IN_USE' &&
-            court.activeBookingId === booking.id
-          ) {
-            const cleanlinessDropAmount = 30 + Math.random() * 30;
-            set((s) => {
-              const courts = new Map(s.courts);
-              const c = courts.get(booking.courtId);
-              if (c) {
-                courts.set(booking.courtId, {
-                  ...c,
-                  status: 'NEEDS_CLEANING',
-                  activeBookingId: null,
-                  cleanliness: Math.max(0, c.cleanliness - cleanlinessDropAmount),
-                  lastUsedAt: newTime,
-                });
-              }
-              return { courts };
-            });
-            get().addNotification(`Court ${booking.courtId.split('-').slice(1).join('-')} needs cleaning`);
-            get().enqueueCleaningJob(booking.courtId);
-          }
-        });
+      tick: (deltaMinutes, environment) => {
+        const store = get();
+        const timeline = startTimeline(store);
+        const { state, notifications } = stepSimulation(getEngineState(store), deltaMinutes, environment);
+        set({ ...state, timeline: recordTimeline(timeline, store.currentTime, state) });
+        notifications.forEach((message) => get().addNotification(message));
+      },
 
-        set({ currentTime: newTime });
+      runToNextEvent: (environment) => {
+        const store = get();
+        const timeline = startTimeline(store);
+        const { state, notifications } = stepToNextEvent(getEngineState(store), environment);
+        set({ ...state, timeline: recordTimeline(timeline, store.currentTime, state) });
+        notifications.forEach((message) => get().addNotification(message));
       },
 
-      initializeCourts: (rows, cols, rowLengths) => {
-        const courts = new Map<string, CourtState>();
-        for (let row = 0; row < rows; row++) {
-          const colCount = rowLengths ? rowLengths[row] : cols;
-          for (let col = 0; col < colCount; col++) {
-            const id = getCourtId(row, col);
-            courts.set(id, {
-              id,
-              row,
-              col,
-              status: 'AVAILABLE_CLEAN',
-              cleanliness: 100,
-              lastUsedAt: null,
-              lastCleanedAt: null,
-              activeBookingId: null,
-            });
-          }
+      // Runs in snapshot-sized chunks so the timeline stays seekable. Long runs
+      // produce many messages; only the newest fit in the feed.
+      runUntil: (time, environment) => {
+        if (time <= get().currentTime) return;
+        let timeline = startTimeline(get());
+        let state = getEngineState(get());
+        const notifications: string[] = [];
+
+        while (state.currentTime < time) {
+          const previousTime = state.currentTime;
+          const result = runEvents(state, Math.min(time, getNextSnapshotTime(previousTime)), environment);
+          state = result.state;
+          notifications.push(...result.notifications);
+          timeline = recordTimeline(timeline, previousTime, state);
         }
-        set({ courts });
+
+        set({ ...state, timeline });
+        notifications.slice(-MAX_NOTIFICATIONS).forEach((message) => get().addNotification(message));
+      },
+
+      // Backward seeks restore the latest snapshot before the target and
+      // re-simulate from there; manual interventions after it are not replayed.
+      // Targets before the oldest kept snapshot are clamped to it. Games in
+      // progress restart either way, so a seek to a time always looks the same.
+      seek: (time, environment) => {
+        const { currentTime, timeline } = get();
+        const earliest = getEarliestSeekTime(timeline, currentTime);
+        const target = Math.max(time, earliest);
+        if (time < earliest) {
+          get().addNotification(`Can't rewind past ${formatDateTime(get().startDate, earliest)}`);
+        }
+        if (target === currentTime) return;
+
+        if (target < currentTime) {
+          const snapshot = findSnapshot(timeline, target);
+          set({
+            ...snapshot.state,
+            timeline: timeline.filter((s) => s.state.currentTime <= snapshot.state.currentTime),
+          });
+        }
+        get().runUntil(target, environment);
+        useGameStore.getState().restartGames();
+      },
+
+      initializeCourts: (placements) => {
+        const courts = new Map<string, CourtState>();
+        placements.forEach(({ id, row, col }) => {
+          courts.set(id, {
+            id,
+            row,
+            col,
+            status: 'AVAILABLE_CLEAN',
+            cleanliness: 100,
+            lastUsedAt: null,
+            lastCleanedAt: null,
+            activeBookingId: null,
+          });
+        });
+        set({ courts, timeline: [] });
       },
 
       setCourtStatus: (courtId, status) => {
@@ -260,81 +380,69 @@ export const useSimulationStore = create<SimulationStore>()(
       toggleMultiSelectMode: () => set((s) => ({ multiSelectMode: !s.multiSelectMode })),
 
       addBooking: (booking) => {
-        const id = generateId();
         set((s) => ({
-          bookings: [...s.bookings, { ...booking, id }],
+          bookings: [...s.bookings, { ...booking, id: getBookingId(s.bookings, booking.courtId, booking.startTime) }],
+          timeline: [],
         }));
       },
 
       removeBooking: (bookingId) => {
         set((s) => ({
           bookings: s.bookings.filter((b) => b.id !== bookingId),
+          timeline: [],
         }));
       },
 
-      clearBookings: () => set({ bookings: [] }),
+      clearBookings: () => set({ bookings: [], timeline: [] }),
 
       generateSchedule: (settings) => {
-        const { startTime, endTime, sessionDuration, bufferTime, demandLevel, rows, cols, rowLengths } = settings;
+        const { day, days = 1, startTime, endTime, sessionDuration, bufferTime, demandLevel, courtIds } = settings;
         const newBookings: Booking[] = [];
-        
-        // Get all court IDs
-        const courtIds: string[] = [];
-        for (let row = 0; row < rows; row++) {
-          const colCount = rowLengths ? rowLengths[row] : cols;
-          for (let col = 0; col < colCount; col++) {
-            courtIds.push(getCourtId(row, col));
-          }
-        }
+        const random = createRandom(get().randomState);
 
         // Demand affects fill percentage
         const fillPercentage = demandLevel === 'light' ? 0.4 : demandLevel === 'normal' ? 0.65 : 0.85;
         const slotDuration = sessionDuration + bufferTime;
         const totalSlots = Math.floor((endTime - startTime) / slotDuration);
 
-        courtIds.forEach((courtId) => {
-          let currentStart = startTime;
-          for (let slot = 0; slot < totalSlots; slot++) {
-            if (Math.random() < fillPercentage) {
-              const types: Array<'open_play' | 'lesson' | 'reservation'> = ['open_play', 'lesson', 'reservation'];
-              const type = types[Math.floor(Math.random() * types.length)];
-              const playerCount: 2 | 4 = Math.random() > 0.5 ? 4 : 2;
+        // Slots repeat each day at the same time of day
+        for (let d = day; d < day + days; d++) {
+          courtIds.forEach((courtId) => {
+            let currentStart = getDayStart(d) + startTime;
+            for (let slot = 0; slot < totalSlots; slot++) {
+              if (random.next() < fillPercentage) {
+                const types: Array<'open_play' | 'lesson' | 'reservation'> = ['open_play', 'lesson', 'reservation'];
+                const type = types[Math.floor(random.next() * types.length)];
+                const playerCount: 2 | 4 = random.next() > 0.5 ? 4 : 2;
               
-              newBookings.push({
-                id: generateId(),
-                courtId,
-                startTime: currentStart,
-                endTime: currentStart + sessionDuration,
-                type,
-                playerCount,
-                title: type === 'open_play' ? 'Open Play' : type === 'lesson' ? 'Lesson' : 'Reservation',
-              });
+                newBookings.push({
+                  id: getBookingId(newBookings, courtId, currentStart),
+                  courtId,
+                  startTime: currentStart,
+                  endTime: currentStart + sessionDuration,
+                  type,
+                  playerCount,
+                  title: type === 'open_play' ? 'Open Play' : type === 'lesson' ? 'Lesson' : 'Reservation',
+                });
+              }
+              currentStart += slotDuration;
             }
-            currentStart += slotDuration;
-          }
-        });
+          });
+        }
+
+        // Bookings on other days are kept
+        const rangeStart = getDayStart(day);
+        const rangeEnd = getDayStart(day + days);
+        const kept = get().bookings.filter((b) => b.startTime < rangeStart || b.startTime >= rangeEnd);
 
-        set({ bookings: newBookings });
-        get().addNotification(`Generated ${newBookings.length} bookings`);
+        set({ bookings: [...kept, ...newBookings], randomState: random.getState(), timeline: [] });
+        get().addNotification(
+          days > 1 ? `Generated ${newBookings.length} bookings over ${days} days` : `Generated ${newBookings.length} bookings`
+        );
       },
 
       enqueueCleaningJob: (courtId, priority = 'normal') => {
-        const existing = get().cleaningQueue.find((j) => j.courtId === courtId);
-        if (existing) return;
-
-        const job: CleaningJob = {
-          id: generateId(),
-          courtId,
-          priority,
-          createdAt: get().currentTime,
-          assignedRobotId: null,
-        };
-        set((s) => ({
-          cleaningQueue: [...s.cleaningQueue, job].sort((a, b) => {
-            if (a.priority !== b.priority) return a.priority === 'high' ? -1 : 1;
-            return a.createdAt - b.createdAt;
-          }),
-        }));
+        set((s) => ({ cleaningQueue: enqueueCleaningJob(s.cleaningQueue, courtId, s.currentTime, priority) }));
       },
 
       dequeueCleaningJob: (jobId) => {
@@ -345,7 +453,7 @@ export const useSimulationStore = create<SimulationStore>()(
 
       dispatchRobot: (courtId) => {
         get().enqueueCleaningJob(courtId, 'high');
-        get().addNotification(`Priority cleaning dispatched to Court ${courtId.split('-').slice(1).join('-')}`);
+        get().addNotification(`Priority cleaning dispatched to ${courtName(courtId)}`);
       },
 
       forceClean: (courtId) => {
@@ -365,7 +473,7 @@ export const useSimulationStore = create<SimulationStore>()(
             cleaningQueue: s.cleaningQueue.filter((j) => j.courtId !== courtId),
           };
         });
-        get().addNotification(`Court ${courtId.split('-').slice(1).join('-')} marked as cleaned`);
+        get().addNotification(`${courtName(courtId)} marked as cleaned`);
       },
 
       forceEndSession: (courtId) => {
@@ -385,7 +493,7 @@ export const useSimulationStore = create<SimulationStore>()(
           return { courts };
         });
         get().enqueueCleaningJob(courtId);
-        get().addNotification(`Session ended early on Court ${courtId.split('-').slice(1).join('-')}`);
+        get().addNotification(`Session ended early on ${courtName(courtId)}`);
       },
 
       updateRobot: (robotId, updates) => {
@@ -394,21 +502,36 @@ export const useSimulationStore = create<SimulationStore>()(
         }));
       },
 
+      // The engine routes the robot home; its job goes back to the queue
       returnRobotToDock: (robotId) => {
-        const dock = get().dockPosition;
-        set((s) => ({
-          robots: s.robots.map((r) =>
-            r.id === robotId
-              ? { ...r, status: 'returning', targetCourtId: null }
-              : r
-          ),
-        }));
+        set((s) => {
+          const robot = s.robots.find((r) => r.id === robotId);
+          const courts = new Map(s.courts);
+          const court = robot?.targetCourtId ? courts.get(robot.targetCourtId) : undefined;
+          if (court?.status === 'CLEANING') {
+            courts.set(court.id, { ...court, status: 'NEEDS_CLEANING' });
+          }
+          const robotMotion = new Map(s.robotMotion);
+          robotMotion.delete(robotId);
+          return {
+            courts,
+            robotMotion,
+            robots: s.robots.map((r) =>
+              r.id === robotId
+                ? { ...r, status: 'returning', targetCourtId: null, currentJobId: null, cleaningProgress: 0 }
+                : r
+            ),
+            cleaningQueue: s.cleaningQueue.map((j) =>
+              j.assignedRobotId === robotId ? { ...j, assignedRobotId: null } : j
+            ),
+          };
+        });
       },
 
       addNotification: (message) => {
         const id = generateId();
         set((s) => ({
-          notifications: [{ id, message, timestamp: Date.now() }, ...s.notifications].slice(0, 10),
+          notifications: [{ id, message, timestamp: Date.now() }, ...s.notifications].slice(0, MAX_NOTIFICATIONS),
         }));
       },
 
@@ -417,45 +540,100 @@ export const useSimulationStore = create<SimulationStore>()(
       exportState: () => {
         const state = get();
         return JSON.stringify({
+          startDate: state.startDate,
           currentTime: state.currentTime,
+          seed: state.seed,
+          randomState: state.randomState,
           bookings: state.bookings,
           courts: Array.from(state.courts.entries()),
           cleaningQueue: state.cleaningQueue,
+          robots: state.robots,
+          robotMotion: Array.from(state.robotMotion.entries()),
+          dockPosition: state.dockPosition,
         });
       },
 
       importState: (json) => {
         try {
           const data = JSON.parse(json);
+          const seed = typeof data.seed === 'number' ? normalizeSeed(data.seed) : get().seed;
+          const dockPosition = data.dockPosition ?? get().dockPosition;
+          // Robots resume mid-route when their paths were exported; otherwise they start at the dock
+          const robotMotion = new Map<string, RobotMotion>(data.robotMotion || []);
+          const robots = data.robots ?? get().robots;
           set({
+            startDate: typeof data.startDate === 'string' ? data.startDate : get().startDate,
             currentTime: data.currentTime || 480,
+            seed,
+            randomState: typeof data.randomState === 'number' ? data.randomState : seed,
             bookings: data.bookings || [],
             courts: new Map(data.courts || []),
             cleaningQueue: data.cleaningQueue || [],
+            dockPosition,
+            robots: data.robotMotion ? robots : parkRobots(robots, dockPosition),
+            robotMotion,
+            timeline: [],
           });
         } catch (e) {
           console.error('Failed to import state:', e);
         }
       },
+
+      getSnapshot: () => {
+        const { startDate, currentTime, bookings, robots, dockPosition, seed, randomState } = get();
+        return { startDate, currentTime, bookings, robots, dockPosition, seed, randomState };
+      },
+
+      loadSnapshot: (snapshot) => {
+        // Sites saved before they kept a seed continue the current stream
+        const seed = snapshot.seed ?? get().seed;
+        set({
+          // Sites saved before the calendar existed start today
+          startDate: snapshot.startDate ?? todayIsoDate(),
+          currentTime: snapshot.currentTime,
+          bookings: snapshot.bookings,
+          robots: parkRobots(snapshot.robots, snapshot.dockPosition),
+          dockPosition: snapshot.dockPosition,
+          seed,
+          randomState: snapshot.randomState ?? seed,
+          isPlaying: false,
+          courts: new Map(),
+          cleaningQueue: [],
+          robotMotion: new Map(),
+          timeline: [],
+          selectedCourtIds: new Set(),
+          notifications: [],
+        });
+      },
     }),
     {
       name: 'simulation-storage',
       partialize: (state) => ({
         bookings: state.bookings,
         currentTime: state.currentTime,
+        startDate: state.startDate,
+        robots: state.robots,
+        dockPosition: state.dockPosition,
+        seed: state.seed,
+        randomState: state.randomState,
       }),
       storage: {
         getItem: (name) => {
           const str = localStorage.getItem(name);
           if (!str) return null;
           const data = JSON.parse(str);
+          const dockPosition = data.state.dockPosition ?? DEFAULT_DOCK_POSITION;
           return {
             ...data,
             state: {
               ...data.state,
+              dockPosition,
+              robots: parkRobots(data.state.robots ?? createDefaultSimulationSnapshot().robots, dockPosition),
               courts: new Map(),
               selectedCourtIds: new Set(),
               cleaningQueue: [],
+              robotMotion: new Map(),
+              timeline: [],
               notifications: [],
             },
           };
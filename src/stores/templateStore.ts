@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { LayoutTemplate, createTemplate } from '@/lib/layoutTemplates';
+import { SharedLayout, pickSharedLayout } from '@/lib/layoutLink';
+
+// User templates are shared by every facility in the library, like the price sheet
+interface TemplateStore {
+  userTemplates: LayoutTemplate[];
+  saveTemplate: (name: string, description: string, layout: SharedLayout) => void;
+  removeTemplate: (templateId: string) => void;
+  importTemplates: (templates: LayoutTemplate[]) => void;
+}
+
+export const useTemplateStore = create<TemplateStore>()(
+  persist(
+    (set) => ({
+      userTemplates: [],
+
+      saveTemplate: (name, description, layout) =>
+        set((s) => ({ userTemplates: [...s.userTemplates, createTemplate(name, description, layout)] })),
+      removeTemplate: (templateId) =>
+        set((s) => ({ userTemplates: s.userTemplates.filter((t) => t.id !== templateId) })),
+      importTemplates: (templates) =>
+        set((s) => ({ userTemplates: [...s.userTemplates, ...templates] })),
+    }),
+    {
+      name: 'layout-templates',
+      // Drop stored templates that no longer pass validation, e.g. ones imported
+      // before imports were checked; applying them would break the editor
+      merge: (persisted, current) => {
+        const { userTemplates = [] } = (persisted ?? {}) as Partial<TemplateStore>;
+        return {
+          ...current,
+          userTemplates: userTemplates.filter(
+            (t) => t?.layout && pickSharedLayout(t.layout as unknown as Record<string, unknown>) !== null
+          ),
+        };
+      },
+    }
+  )
+);
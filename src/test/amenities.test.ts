@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_RUN_OFF,
+  createAmenity,
+  findAmenityIssues,
+  getAmenityFootprint,
+  getRunOff,
+} from "@/lib/amenities";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { FacilityPathfinder } from "@/lib/pathfinding";
+import { createFloorPlan } from "@/lib/floorPlan";
+import { Amenity, COURT_WIDTH, FT_TO_M } from "@/types/facility";
+import { COMPLIANCE_RULE_SETS } from "@/types/compliance";
+
+const placements = getCourtPlacements({ mode: "even", rows: 1, cols: 2 }, 1);
+const bench = (x: number, z: number, rotation: 0 | 90 = 90): Amenity => ({ id: "amenity-1", type: "bench", x, z, rotation });
+
+describe("amenities", () => {
+  it("swaps footprint extents for rotated amenities", () => {
+    const rect = getAmenityFootprint(bench(0, 0, 90));
+    expect(rect.maxX - rect.minX).toBeCloseTo(0.45);
+    expect(rect.maxZ - rect.minZ).toBeCloseTo(1.8);
+  });
+
+  it("flags amenities on a court or inside its run-off", () => {
+    // Court 1 spans x 0..6.096; recreational side run-off is 5 ft
+    expect(DEFAULT_RUN_OFF.side).toBeCloseTo(5 * FT_TO_M);
+    expect(findAmenityIssues(placements, [bench(3, 5)])).toEqual([
+      { type: "court_overlap", amenityId: "amenity-1", courtId: "court-0-0" },
+    ]);
+    expect(findAmenityIssues(placements, [bench(-1, 5)])).toEqual([
+      { type: "run_off", amenityId: "amenity-1", courtId: "court-0-0" },
+    ]);
+    expect(findAmenityIssues(placements, [bench(-2, 5)])).toEqual([]);
+  });
+
+  it("uses the selected rule set's playing area for run-off", () => {
+    const tournament = getRunOff(COMPLIANCE_RULE_SETS.tournament);
+    expect(tournament.side).toBeCloseTo((34 * FT_TO_M - COURT_WIDTH) / 2);
+    expect(findAmenityIssues(placements, [bench(-2, 5)], tournament)).toHaveLength(1);
+  });
+
+  it("adds new amenities clear of the run-off, stacked along the layout", () => {
+    const first = createAmenity("bench", [], placements);
+    const second = createAmenity("bleachers", [first], placements);
+    expect(second.id).toBe("amenity-2");
+    expect(findAmenityIssues(placements, [first, second])).toEqual([]);
+    expect(getAmenityFootprint(second).minZ).toBeGreaterThanOrEqual(getAmenityFootprint(first).maxZ);
+  });
+
+  it("routes robots around amenities on an open floor", () => {
+    // A locker across the aisle in front of the courts
+    const locker: Amenity = { id: "amenity-1", type: "locker", x: 3, z: -1, rotation: 0 };
+    const pathfinder = new FacilityPathfinder(placements, 1, null, [locker]);
+    const path = pathfinder.getPathToDock({ x: 0, z: -1 }, { x: 6, z: -1 });
+    const rect = getAmenityFootprint(locker);
+
+    expect(path[path.length - 1]).toEqual({ x: 6, z: -1 });
+    [{ x: 0, z: -1 }, ...path].forEach((point, i, points) => {
+      if (i === 0) return;
+      // Sample each leg: no point may fall inside the locker
+      const prev = points[i - 1];
+      for (let t = 0; t <= 1; t += 0.05) {
+        const x = prev.x + (point.x - prev.x) * t;
+        const z = prev.z + (point.z - prev.z) * t;
+        const inside = x > rect.minX && x < rect.maxX && z > rect.minZ && z < rect.maxZ;
+        expect(inside).toBe(false);
+      }
+    });
+  });
+
+  it("draws amenities on their own floor plan layer", () => {
+    const plan = createFloorPlan({ placements, building: null, dockPosition: null, amenities: [bench(-2, 5)] });
+    const labels = plan.entities.filter((e) => e.layer === "AMENITIES" && e.type === "text");
+    expect(labels).toEqual([expect.objectContaining({ text: "Bench" })]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeBillOfMaterials,
+  estimateCost,
+  fromLocalUnitPrice,
+  localizeCostEstimate,
+  renderCostEstimateCsv,
+  toLocalUnitPrice,
+} from "@/lib/billOfMaterials";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { DEFAULT_PRICE_SHEET } from "@/types/estimate";
+
+const placements = getCourtPlacements({ mode: "even", rows: 2, cols: 3 }, 1);
+
+describe("billOfMaterials", () => {
+  it("counts surfaces, lines, nets and posts per court", () => {
+    const bom = computeBillOfMaterials(placements, "polypropylene", {}, 1);
+    expect(bom.courtCount).toBe(6);
+    expect(bom.surfaces).toEqual([{ surfaceType: "polypropylene", courtCount: 6, area: expect.closeTo(20 * 44 * 6, 6) }]);
+    const lengths = Object.fromEntries(bom.lines.map((l) => [l.lineType, l.length]));
+    expect(lengths.sideline).toBeCloseTo(88 * 6);
+    expect(lengths.baseline).toBeCloseTo(40 * 6);
+    expect(lengths.nvz).toBeCloseTo(40 * 6);
+    expect(lengths.centerline).toBeCloseTo(30 * 6);
+    expect(bom.nets).toBe(6);
+    expect(bom.posts).toBe(12);
+  });
+
+  it("groups surface area by each court's effective surface type", () => {
+    const bom = computeBillOfMaterials(placements, "polypropylene", { "court-0-0": { surfaceType: "hardwood" } }, 1);
+    expect(bom.surfaces.map((s) => [s.surfaceType, s.courtCount])).toEqual([
+      ["hardwood", 1],
+      ["polypropylene", 5],
+    ]);
+  });
+
+  it("measures perimeter fencing and dividers between neighbouring courts", () => {
+    const bom = computeBillOfMaterials(placements, "polypropylene", {}, 1);
+    // 4 side-by-side pairs share a 44 ft sideline, 3 front-to-back pairs share a 20 ft baseline
+    expect(bom.dividers).toBeCloseTo(4 * 44 + 3 * 20);
+
+    const single = computeBillOfMaterials(placements.slice(0, 1), "polypropylene", {}, 1);
+    expect(single.dividers).toBe(0);
+    expect(single.fencing).toBeCloseTo(2 * (20 + 44) + 8 / 0.3048);
+  });
+
+  it("prices the bill and exports CSV", () => {
+    const bom = computeBillOfMaterials(placements, "polypropylene", {}, 1);
+    const estimate = estimateCost(bom, { ...DEFAULT_PRICE_SHEET, net: 100 });
+    expect(estimate.items.find((i) => i.id === "nets").total).toBe(600);
+    expect(estimate.total).toBeCloseTo(estimate.items.reduce((sum, i) => sum + i.total, 0));
+
+    const csv = renderCostEstimateCsv(estimate).trim().split("\n");
+    expect(csv[0]).toBe("Category,Item,Quantity,Unit,Unit Price,Total");
+    expect(csv).toContain("Nets,Nets,6,ea,100.00,600.00");
+    expect(csv[csv.length - 1]).toBe(`Total,,,,,${estimate.total.toFixed(2)}`);
+  });
+
+  it("expresses a metric estimate in m² and m without changing totals", () => {
+    const bom = computeBillOfMaterials(placements, "polypropylene", {}, 1);
+    const estimate = estimateCost(bom, DEFAULT_PRICE_SHEET);
+    const metric = localizeCostEstimate(estimate, "metric");
+
+    const surface = metric.items.find((i) => i.category === "Surface");
+    expect(surface.unit).toBe("m²");
+    expect(surface.quantity).toBeCloseTo(6 * 6.096 * 13.4112);
+    expect(metric.items.find((i) => i.id === "nets").unit).toBe("ea");
+    metric.items.forEach((item, i) => expect(item.quantity * item.unitPrice).toBeCloseTo(estimate.items[i].total));
+    expect(localizeCostEstimate(estimate, "imperial")).toBe(estimate);
+
+    expect(fromLocalUnitPrice(toLocalUnitPrice(14, "sq ft", "metric"), "sq ft", "metric")).toBeCloseTo(14);
+    expect(toLocalUnitPrice(180, "ea", "metric")).toBe(180);
+  });
+});
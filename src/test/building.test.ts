@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { findBuildingIssues, splitWallAtDoors, pointInPolygon } from "@/lib/building";
+import { distanceToSegment } from "@/lib/navigationGrid";
+import { FacilityPathfinder } from "@/lib/pathfinding";
+import { BuildingEnvelope, CourtPlacement } from "@/types/facility";
+
+// L-shaped building: 40m x 40m with the top-right 20m x 20m quadrant removed
+const lShape: BuildingEnvelope = {
+  footprint: [
+    { x: 0, z: 0 },
+    { x: 40, z: 0 },
+    { x: 40, z: 20 },
+    { x: 20, z: 20 },
+    { x: 20, z: 40 },
+    { x: 0, z: 40 },
+  ],
+  wallHeight: 6,
+  wallThickness: 0.3,
+  columns: [{ id: "column-a", x: 10, z: 10, size: 0.6 }],
+  walls: [],
+  doors: [],
+};
+
+const court = (id: string, x: number, z: number): CourtPlacement => ({ id, row: 0, col: 0, x, z, rotation: 0 });
+
+describe("building envelope", () => {
+  it("handles concave footprints", () => {
+    expect(pointInPolygon({ x: 30, z: 10 }, lShape.footprint)).toBe(true);
+    expect(pointInPolygon({ x: 30, z: 30 }, lShape.footprint)).toBe(false);
+  });
+
+  it("flags courts outside the envelope and on columns", () => {
+    const issues = findBuildingIssues(
+      [court("court-0-0", 10, 12), court("court-0-1", 30, 25), court("court-0-2", 5, 30)],
+      lShape
+    );
+    expect(issues).toEqual([
+      { type: "column_collision", courtId: "court-0-0", obstacleId: "column-a" },
+      { type: "outside_envelope", courtId: "court-0-1" },
+    ]);
+  });
+
+  it("splits walls around door openings", () => {
+    const wall = { id: "wall-a", start: { x: 0, z: 0 }, end: { x: 10, z: 0 }, isPerimeter: false };
+    const pieces = splitWallAtDoors(wall, [{ id: "door-a", wallId: "wall-a", offset: 5, width: 2 }]);
+    expect(pieces).toEqual([
+      { start: { x: 0, z: 0 }, end: { x: 4, z: 0 } },
+      { start: { x: 6, z: 0 }, end: { x: 10, z: 0 } },
+    ]);
+  });
+
+  it("routes robots through the door of an interior wall", () => {
+    const building: BuildingEnvelope = {
+      ...lShape,
+      columns: [],
+      walls: [{ id: "wall-a", start: { x: 0, z: 15 }, end: { x: 20, z: 15 } }],
+      doors: [{ id: "door-a", wallId: "wall-a", offset: 16, width: 1.5 }],
+    };
+    const pathfinder = new FacilityPathfinder([], 1, building);
+    const path = pathfinder.getPathToDock({ x: 5, z: 5 }, { x: 5, z: 30 });
+
+    expect(path[path.length - 1]).toEqual({ x: 5, z: 30 });
+    // Every leg crossing z = 15 must pass through the door gap (x 15.25..16.75)
+    const points = [{ x: 5, z: 5 }, ...path];
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      if ((a.z - 15) * (b.z - 15) < 0) {
+        const xAtWall = a.x + ((b.x - a.x) * (15 - a.z)) / (b.z - a.z);
+        expect(xAtWall).toBeGreaterThan(15.25);
+        expect(xAtWall).toBeLessThan(16.75);
+      }
+    }
+  });
+
+  it("leaves the building only through perimeter doors", () => {
+    const outside = { x: -2, z: 5 };
+    expect(new FacilityPathfinder([], 1, lShape).getPathToDock({ x: 5, z: 5 }, outside)).toBeNull();
+
+    // Door in the west wall, which runs from (0, 40) down to (0, 0)
+    const building = { ...lShape, doors: [{ id: "door-a", wallId: "perimeter-5", offset: 30, width: 1.5 }] };
+    const path = new FacilityPathfinder([], 1, building).getPathToDock({ x: 5, z: 5 }, outside) ?? [];
+
+    expect(path[path.length - 1]).toEqual(outside);
+    const points = [{ x: 5, z: 5 }, ...path];
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      if (a.x * b.x < 0) {
+        const zAtWall = a.z + ((b.z - a.z) * -a.x) / (b.x - a.x);
+        expect(zAtWall).toBeGreaterThan(9.25);
+        expect(zAtWall).toBeLessThan(10.75);
+      }
+    }
+  });
+
+  it("measures distance to a segment", () => {
+    expect(distanceToSegment({ x: 5, z: 3 }, { x: 0, z: 0 }, { x: 10, z: 0 })).toBeCloseTo(3);
+    expect(distanceToSegment({ x: 13, z: 4 }, { x: 0, z: 0 }, { x: 10, z: 0 })).toBeCloseTo(5);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import {
+  getClosingTime,
+  getDayDate,
+  getDayForDate,
+  getDayIndex,
+  getMinuteOfDay,
+  isOpen,
+  toIsoDate,
+} from "@/lib/calendar";
+import { formatTime } from "@/types/facility";
+
+describe("calendar", () => {
+  const hours = { start: 8 * 60, end: 22 * 60 };
+
+  it("splits simulation time into day and time of day", () => {
+    expect(getDayIndex(479)).toBe(0);
+    expect(getDayIndex(1440 + 480)).toBe(1);
+    expect(getMinuteOfDay(2 * 1440 + 90)).toBe(90);
+    expect(formatTime(1440 + 13 * 60 + 5)).toBe("1:05 PM");
+    expect(formatTime(1440)).toBe("12:00 AM");
+  });
+
+  it("maps days to calendar dates across month ends", () => {
+    expect(toIsoDate(getDayDate("2026-10-30", 3))).toBe("2026-11-02");
+    expect(getDayForDate("2026-10-30", "2026-11-02")).toBe(3);
+    expect(getDayForDate("2026-10-30", "2026-10-29")).toBe(-1);
+  });
+
+  it("applies operating hours to each day", () => {
+    expect(isOpen(1440 + 9 * 60, hours)).toBe(true);
+    expect(isOpen(1440 + 23 * 60, hours)).toBe(false);
+    expect(isOpen(1440 + 7 * 60, hours)).toBe(false);
+    expect(getClosingTime(1440 + 9 * 60, hours)).toBe(1440 + 22 * 60);
+  });
+});
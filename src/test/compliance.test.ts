@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { evaluateCompliance } from "@/lib/compliance";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { createDefaultBuilding, createColumn } from "@/lib/building";
+import { COMPLIANCE_RULE_SETS } from "@/types/compliance";
+import { FT_TO_M } from "@/types/facility";
+
+describe("compliance", () => {
+  it("passes a generously spaced layout under recreational rules", () => {
+    const placements = getCourtPlacements({ mode: "even", rows: 2, cols: 2 }, 10 * FT_TO_M);
+    expect(evaluateCompliance(placements, null, COMPLIANCE_RULE_SETS.recreational)).toEqual([]);
+  });
+
+  it("flags tight court separation for both affected courts", () => {
+    const placements = getCourtPlacements({ mode: "even", rows: 1, cols: 2 }, 0.5);
+    const violations = evaluateCompliance(placements, null, COMPLIANCE_RULE_SETS.recreational);
+    const separation = violations.filter((v) => v.ruleId === "rec-separation");
+    expect(separation).toHaveLength(1);
+    expect(separation[0].courtIds).toEqual(["court-0-0", "court-0-1"]);
+  });
+
+  it("reports columns inside a court's run-off", () => {
+    const placements = getCourtPlacements({ mode: "even", rows: 1, cols: 1 }, 1);
+    const building = createDefaultBuilding(placements);
+    const court = placements[0];
+    building.columns = [{ ...createColumn(building), x: court.x, z: court.z + 8 }];
+    const violations = evaluateCompliance(placements, building, COMPLIANCE_RULE_SETS.recreational);
+    expect(violations.some((v) => v.message.includes("column"))).toBe(true);
+  });
+});
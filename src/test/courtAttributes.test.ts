@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { getCourtSurface, mergeCourtOverrides } from "@/lib/courtAttributes";
+import { SURFACE_MATERIALS } from "@/types/facility";
+
+describe("courtAttributes", () => {
+  it("inherits the facility surface when nothing is overridden", () => {
+    const surface = getCourtSurface("polypropylene");
+    expect(surface.surfaceType).toBe("polypropylene");
+    expect(surface.color).toBe(SURFACE_MATERIALS.polypropylene.color);
+    expect(surface.kitchenColor).toBeNull();
+    expect(surface.indoor).toBe(true);
+  });
+
+  it("applies surface type and color overrides", () => {
+    const surface = getCourtSurface("polypropylene", { surfaceType: "hardwood", kitchenColor: "#ff0000" });
+    expect(surface.surfaceType).toBe("hardwood");
+    expect(surface.roughness).toBe(SURFACE_MATERIALS.hardwood.roughness);
+    expect(surface.color).toBe(SURFACE_MATERIALS.hardwood.color);
+    expect(surface.kitchenColor).toBe("#ff0000");
+  });
+
+  it("drops cleared fields and empty override sets", () => {
+    expect(mergeCourtOverrides({ name: "Show Court" }, { indoor: false })).toEqual({ name: "Show Court", indoor: false });
+    expect(mergeCourtOverrides({ name: "Show Court" }, { name: "" })).toBeNull();
+  });
+});
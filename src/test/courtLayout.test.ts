@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  getCourtPlacements,
+  findLayoutConflicts,
+  toFreeformConfig,
+  toGridConfig,
+  createFreeformCourt,
+  getCourtFootprint,
+} from "@/lib/courtLayout";
+import { FacilityPathfinder } from "@/lib/pathfinding";
+import { COURT_WIDTH, COURT_LENGTH, FreeformConfig } from "@/types/facility";
+import { useFacilityStore } from "@/stores/facilityStore";
+
+describe("courtLayout", () => {
+  it("computes grid placements for uneven rows", () => {
+    const placements = getCourtPlacements({ mode: "uneven", rows: 2, maxCols: 3, rowLengths: [3, 1] }, 1);
+    expect(placements.map((p) => p.id)).toEqual(["court-0-0", "court-0-1", "court-0-2", "court-1-0"]);
+    expect(placements[1].x).toBeCloseTo(COURT_WIDTH + 1 + COURT_WIDTH / 2);
+    expect(placements[3].z).toBeCloseTo(COURT_LENGTH + 1 + COURT_LENGTH / 2);
+  });
+
+  it("keeps IDs and positions when converting to free-form", () => {
+    const grid = { mode: "even" as const, rows: 2, cols: 2 };
+    const freeform = toFreeformConfig(grid, 1.5);
+    expect(freeform.courts).toEqual(getCourtPlacements(grid, 1.5));
+  });
+
+  it("reports no conflicts for a regular grid", () => {
+    const placements = getCourtPlacements({ mode: "even", rows: 3, cols: 3 }, 1);
+    expect(findLayoutConflicts(placements, 1)).toEqual([]);
+  });
+
+  it("detects overlaps and insufficient spacing", () => {
+    const config: FreeformConfig = {
+      mode: "freeform",
+      courts: [
+        { id: "court-0-0", row: 0, col: 0, x: 0, z: 0, rotation: 0 },
+        { id: "court-0-1", row: 0, col: 1, x: 2, z: 0, rotation: 0 },
+        { id: "court-0-2", row: 0, col: 2, x: COURT_WIDTH + 2 + 0.5, z: 0, rotation: 0 },
+      ],
+    };
+    const conflicts = findLayoutConflicts(config.courts, 1);
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts[0]).toMatchObject({ type: "overlap", courtIds: ["court-0-0", "court-0-1"] });
+    expect(conflicts[1]).toMatchObject({ type: "spacing", courtIds: ["court-0-1", "court-0-2"] });
+    expect(conflicts[1].gap).toBeCloseTo(0.5);
+  });
+
+  it("swaps footprint extents for rotated courts", () => {
+    const rect = getCourtFootprint({ x: 0, z: 0, rotation: 90 });
+    expect(rect.maxX - rect.minX).toBeCloseTo(COURT_LENGTH);
+    expect(rect.maxZ - rect.minZ).toBeCloseTo(COURT_WIDTH);
+  });
+
+  it("gives the pathfinder the same court centers as the layout", () => {
+    const courts = [{ id: "court-0-0", row: 0, col: 0, x: 12, z: 30, rotation: 90 as const }];
+    const pathfinder = new FacilityPathfinder(courts, 1);
+    expect(pathfinder.getCourtCenter(0, 0)).toEqual({ x: 12, z: 30 });
+  });
+
+  it("stacks rotated grid rows by their own depth", () => {
+    const placements = getCourtPlacements({ mode: "even", rows: 2, cols: 2, rowRotations: [0, 90] }, 1);
+    expect(placements.map((p) => p.rotation)).toEqual([0, 0, 90, 90]);
+    expect(placements[2].z).toBeCloseTo(COURT_LENGTH + 1 + COURT_WIDTH / 2);
+    expect(placements[3].x).toBeCloseTo(COURT_LENGTH + 1 + COURT_LENGTH / 2);
+    expect(findLayoutConflicts(placements, 1)).toEqual([]);
+  });
+
+  it("keeps row rotations when collapsing free-form layouts to a grid", () => {
+    const grid = { mode: "even" as const, rows: 2, cols: 2, rowRotations: [90, 0] as (0 | 90)[] };
+    expect(toGridConfig(toFreeformConfig(grid, 1)).config).toEqual(grid);
+    expect(toGridConfig(toFreeformConfig({ mode: "even", rows: 1, cols: 2 }, 1))).toEqual({
+      config: { mode: "even", rows: 1, cols: 2 },
+      courtIdMap: { "court-0-0": "court-0-0", "court-0-1": "court-0-1" },
+    });
+  });
+
+  it("keeps the court count when collapsing free-form layouts with added courts", () => {
+    const config = toFreeformConfig({ mode: "even", rows: 2, cols: 2 }, 1);
+    for (let i = 0; i < 3; i++) config.courts.push(createFreeformCourt(config, 1));
+
+    const grid = toGridConfig(config);
+    expect(grid.config).toEqual({ mode: "uneven", rows: 3, maxCols: 3, rowLengths: [3, 3, 1] });
+    expect(getCourtPlacements(grid.config, 1)).toHaveLength(7);
+    // Added courts sat on rows 2-4; packing moves them
+    expect(grid.courtIdMap["court-1-0"]).toBe("court-0-2");
+    expect(grid.courtIdMap["court-4-0"]).toBe("court-2-0");
+  });
+
+  it("moves court overrides with repacked courts", () => {
+    const config = toFreeformConfig({ mode: "even", rows: 2, cols: 2 }, 1);
+    config.courts.push(createFreeformCourt(config, 1));
+    const store = useFacilityStore.getState();
+    store.setConfig(config);
+    store.updateCourtOverrides("court-2-0", { name: "Show Court" });
+    store.updateCourtOverrides("court-9-9", { name: "Orphan" });
+
+    const grid = toGridConfig(config);
+    useFacilityStore.getState().setConfig(grid.config, grid.courtIdMap);
+    const { courtOverrides } = useFacilityStore.getState();
+    expect(courtOverrides[grid.courtIdMap["court-2-0"]]).toEqual({ name: "Show Court" });
+    expect(courtOverrides["court-2-0"]).toBeUndefined();
+    expect(Object.values(courtOverrides)).not.toContainEqual({ name: "Orphan" });
+  });
+
+  it("keeps cleaning paths inside rotated courts and stripes along the long axis", () => {
+    const court = { id: "court-0-0", row: 0, col: 0, x: 10, z: 5, rotation: 90 as const };
+    const path = new FacilityPathfinder([court], 1).getCleaningPath(0, 0);
+    const rect = getCourtFootprint(court);
+    // Only the detour around the net post leaves the court
+    const outside = path.filter((p) => p.x < rect.minX || p.x > rect.maxX || p.z < rect.minZ || p.z > rect.maxZ);
+    expect(outside).toHaveLength(2);
+    // Stripes run along X, from the baseline to the net plane at x = 10
+    expect(path[0].z).toBeCloseTo(path[1].z);
+    expect(path[0].x).toBeCloseTo(court.x - COURT_LENGTH / 2 + 0.2);
+    expect(path[1].x).toBeCloseTo(court.x - 0.3);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { createCourtNamer, getRowLetter } from "@/lib/courtNaming";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { createFloorPlan } from "@/lib/floorPlan";
+
+const placements = getCourtPlacements({ mode: "even", rows: 2, cols: 3 }, 1);
+
+describe("courtNaming", () => {
+  it("keeps row-column labels by default", () => {
+    const name = createCourtNamer(placements);
+    expect(name("court-0-0")).toBe("Court 1-1");
+    expect(name("court-1-2")).toBe("Court 2-3");
+  });
+
+  it("numbers courts in snake order", () => {
+    const name = createCourtNamer(placements, "sequential");
+    expect(["court-0-0", "court-0-1", "court-0-2"].map(name)).toEqual(["Court 1", "Court 2", "Court 3"]);
+    // Second row runs right to left
+    expect(["court-1-2", "court-1-1", "court-1-0"].map(name)).toEqual(["Court 4", "Court 5", "Court 6"]);
+  });
+
+  it("labels rows with letters", () => {
+    const name = createCourtNamer(placements, "letter-row");
+    expect(name("court-1-2")).toBe("Court B3");
+    expect(getRowLetter(0)).toBe("A");
+    expect(getRowLetter(25)).toBe("Z");
+    expect(getRowLetter(26)).toBe("AA");
+  });
+
+  it("prefers custom names over any scheme", () => {
+    const name = createCourtNamer(placements, "sequential", { "court-0-1": { name: "Center Court" } });
+    expect(name("court-0-1")).toBe("Center Court");
+    expect(name("court-0-2")).toBe("Court 3");
+  });
+
+  it("names courts in floor plan exports", () => {
+    const plan = createFloorPlan({ placements, building: null, dockPosition: null, courtNamingScheme: "letter-row" });
+    const labels = plan.entities.filter((e) => e.type === "text" && e.layer === "TEXT").map((e) => e.type === "text" && e.text);
+    expect(labels).toContain("Court A1");
+    expect(labels).toContain("Court B3");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { useFacilityLibraryStore } from "@/stores/facilityLibraryStore";
+import { useFacilityStore } from "@/stores/facilityStore";
+import { useSimulationStore } from "@/stores/simulationStore";
+
+const booking = {
+  courtId: "court-0-0",
+  startTime: 540,
+  endTime: 600,
+  type: "lesson" as const,
+  playerCount: 4 as const,
+  title: "Lesson",
+};
+
+describe("facilityLibraryStore", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("keeps layout and bookings separate per facility", () => {
+    const library = useFacilityLibraryStore.getState();
+    const mainId = library.activeFacilityId;
+    useFacilityStore.getState().setConfig({ mode: "even", rows: 1, cols: 4 });
+    useSimulationStore.getState().addBooking(booking);
+
+    library.createFacility("Second Club");
+    const secondId = useFacilityLibraryStore.getState().activeFacilityId;
+    expect(secondId).not.toBe(mainId);
+    expect(useFacilityStore.getState().config).toEqual({ mode: "even", rows: 2, cols: 3 });
+    expect(useSimulationStore.getState().bookings).toEqual([]);
+    expect([...useSimulationStore.getState().courts.keys()]).toHaveLength(6);
+
+    // A second new site loads an equal default layout; its courts must still be set up
+    useFacilityLibraryStore.getState().createFacility("Third Club");
+    expect([...useSimulationStore.getState().courts.keys()]).toHaveLength(6);
+
+    useFacilityLibraryStore.getState().switchFacility(mainId);
+    expect(useFacilityStore.getState().config).toEqual({ mode: "even", rows: 1, cols: 4 });
+    expect(useSimulationStore.getState().bookings).toHaveLength(1);
+    expect(useSimulationStore.getState().isPlaying).toBe(false);
+  });
+
+  it("keeps each facility's random stream", () => {
+    const library = useFacilityLibraryStore.getState();
+    const mainId = library.activeFacilityId;
+    useSimulationStore.getState().setSeed(11);
+    useSimulationStore.getState().generateSchedule({
+      courtIds: ["court-0-0"],
+      day: 0,
+      startTime: 480,
+      endTime: 720,
+      sessionDuration: 60,
+      bufferTime: 0,
+      demandLevel: "peak",
+    });
+    const { randomState } = useSimulationStore.getState();
+
+    library.createFacility("Seeded Club");
+    useSimulationStore.getState().setSeed(22);
+    useFacilityLibraryStore.getState().switchFacility(mainId);
+    expect(useSimulationStore.getState().seed).toBe(11);
+    expect(useSimulationStore.getState().randomState).toBe(randomState);
+  });
+
+  it("duplicates, renames and deletes facilities", () => {
+    const { activeFacilityId } = useFacilityLibraryStore.getState();
+    useFacilityLibraryStore.getState().duplicateFacility(activeFacilityId);
+    const copy = useFacilityLibraryStore.getState().facilities.at(-1);
+    expect(copy.name).toMatch(/\(copy\)$/);
+
+    useFacilityLibraryStore.getState().renameFacility(copy.id, "Annex");
+    expect(useFacilityLibraryStore.getState().facilities.at(-1).name).toBe("Annex");
+
+    const countBefore = useFacilityLibraryStore.getState().facilities.length;
+    useFacilityLibraryStore.getState().deleteFacility(activeFacilityId);
+    const after = useFacilityLibraryStore.getState();
+    expect(after.facilities).toHaveLength(countBefore - 1);
+    expect(after.activeFacilityId).not.toBe(activeFacilityId);
+    expect(after.siteData[after.activeFacilityId]).toBeUndefined();
+  });
+});
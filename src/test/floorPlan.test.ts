@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { createFloorPlan, renderFloorPlanDxf, renderFloorPlanSvg } from "@/lib/floorPlan";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { COURT_WIDTH, KITCHEN_DEPTH, LINE_WIDTH } from "@/types/facility";
+
+const placements = getCourtPlacements({ mode: "even", rows: 1, cols: 2 }, 1.5);
+
+describe("floorPlan", () => {
+  it("draws court lines from the shared court constants", () => {
+    const plan = createFloorPlan({ placements, building: null, dockPosition: { x: -2, z: -2 } });
+    const kitchen = plan.entities.filter(
+      (e) => e.type === "line" && e.layer === "LINES" && Math.abs(e.start.z - (placements[0].z - KITCHEN_DEPTH)) < 1e-9
+    );
+    expect(kitchen.length).toBe(2); // one per court
+    kitchen.forEach((e) => e.type === "line" && expect(e.width).toBe(LINE_WIDTH));
+    expect(plan.entities.some((e) => e.type === "text" && e.text === "DOCK")).toBe(true);
+  });
+
+  it("dimensions the aisle between neighbouring courts", () => {
+    const plan = createFloorPlan({ placements, building: null, dockPosition: null });
+    const labels = plan.entities.filter((e) => e.type === "text" && e.layer === "DIMENSIONS").map((e) => e.type === "text" && e.text);
+    expect(labels).toContain("1.50 m");
+    expect(labels).toContain(`${(COURT_WIDTH * 2 + 1.5).toFixed(2)} m`);
+  });
+
+  it("renders valid-looking SVG and R12 DXF", () => {
+    const plan = createFloorPlan({ placements, building: null, dockPosition: null });
+    const svg = renderFloorPlanSvg(plan);
+    expect(svg).toContain("<svg");
+    expect(svg).toContain('id="lines"');
+
+    const dxf = renderFloorPlanDxf(plan).split("\n");
+    expect(dxf).toContain("AC1009");
+    expect(dxf[dxf.length - 2]).toBe("EOF");
+    // Group codes and values alternate, so the line count is even
+    expect((dxf.length - 1) % 2).toBe(0);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { createInitialPlayerStates } from "@/stores/gameStore";
+import { updateBallPhysics } from "@/lib/ballPhysics";
+import { BallState } from "@/types/game";
+import { COURT_LENGTH } from "@/types/facility";
+
+const ball = (x: number, z: number, vx: number, vz: number): BallState => ({
+  position: { x, y: 0.3, z },
+  velocity: { x: vx, y: 0, z: vz },
+  isVisible: true,
+  lastHitBy: 0,
+  shotType: "drive",
+});
+
+describe("game sessions on rotated courts", () => {
+  it("places teams at opposite ends of the court's long axis", () => {
+    const players = createInitialPlayerStates({ x: 20, z: 10, rotation: 90 });
+    const [a, , b] = players;
+    expect(a.currentPosition.x).toBeCloseTo(20 - (COURT_LENGTH / 2) * 0.6);
+    expect(b.currentPosition.x).toBeCloseTo(20 + (COURT_LENGTH / 2) * 0.6);
+    // Team A faces +X toward the net
+    expect(a.facingAngle).toBeCloseTo(Math.PI / 2);
+    expect(b.facingAngle).toBeCloseTo(Math.PI * 1.5);
+  });
+
+  it("keeps the original layout for unrotated courts", () => {
+    const [a] = createInitialPlayerStates({ x: 0, z: 0, rotation: 0 });
+    expect(a.currentPosition.z).toBeCloseTo(-(COURT_LENGTH / 2) * 0.6);
+    expect(a.facingAngle).toBe(0);
+  });
+
+  it("puts the net plane across the long axis of rotated courts", () => {
+    const court = { x: 20, z: 10, rotation: 90 as const };
+    // Low ball crossing x = 20 hits the net and bounces back
+    const hit = updateBallPhysics(ball(19.9, 10, 10, 0), 0.02, court);
+    expect(hit.hitNet).toBe(true);
+    expect(hit.velocity.x).toBeLessThan(0);
+    // Moving across the court parallel to the net does not
+    const along = updateBallPhysics(ball(19, 10.5, 0, -10), 0.02, court);
+    expect(along.hitNet).toBe(false);
+    expect(along.outOfBounds).toBe(false);
+  });
+});
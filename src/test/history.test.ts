@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { useHistoryStore } from "@/stores/historyStore";
+import { useFacilityStore } from "@/stores/facilityStore";
+
+describe("historyStore", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useFacilityStore.getState().setConfig({ mode: "even", rows: 2, cols: 3 });
+    useFacilityStore.getState().setSpacing(1);
+    useHistoryStore.getState().clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("undoes and redoes a grid change", () => {
+    const uneven = { mode: "uneven" as const, rows: 2, maxCols: 3, rowLengths: [3, 1] };
+    useFacilityStore.getState().setConfig(uneven);
+    vi.advanceTimersByTime(1000);
+    useFacilityStore.getState().setConfig({ mode: "even", rows: 4, cols: 4 });
+
+    useHistoryStore.getState().undo();
+    expect(useFacilityStore.getState().config).toEqual(uneven);
+    useHistoryStore.getState().redo();
+    expect(useFacilityStore.getState().config).toEqual({ mode: "even", rows: 4, cols: 4 });
+    expect(useHistoryStore.getState().past.map((e) => e.label)).toEqual(["Enable uneven rows", "Disable uneven rows"]);
+  });
+
+  it("coalesces a continuous slider drag into one step", () => {
+    [1.1, 1.2, 1.3, 1.4].forEach((spacing) => {
+      useFacilityStore.getState().setSpacing(spacing);
+      vi.advanceTimersByTime(50);
+    });
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+
+    useHistoryStore.getState().undo();
+    expect(useFacilityStore.getState().spacing).toBe(1);
+  });
+
+  it("keeps separate grid edits in quick succession as separate steps", () => {
+    useFacilityStore.getState().setConfig({ mode: "even", rows: 3, cols: 3 });
+    vi.advanceTimersByTime(100);
+    useFacilityStore.getState().setConfig({ mode: "even", rows: 3, cols: 4 });
+    expect(useHistoryStore.getState().past).toHaveLength(2);
+
+    useHistoryStore.getState().undo();
+    expect(useFacilityStore.getState().config).toEqual({ mode: "even", rows: 3, cols: 3 });
+  });
+
+  it("clears the selection of a court removed by undo", () => {
+    useFacilityStore.getState().setConfig({ mode: "freeform", courts: [] });
+    vi.advanceTimersByTime(1000);
+    useFacilityStore.getState().addCourt();
+    expect(useFacilityStore.getState().selectedCourtId).not.toBeNull();
+
+    useHistoryStore.getState().undo();
+    expect(useFacilityStore.getState().selectedCourtId).toBeNull();
+  });
+
+  it("drops the redo stack on a new edit", () => {
+    useFacilityStore.getState().setShowNet(false);
+    useHistoryStore.getState().undo();
+    expect(useHistoryStore.getState().future).toHaveLength(1);
+    useFacilityStore.getState().setShowLines(false);
+    expect(useHistoryStore.getState().future).toHaveLength(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { decodeLayout, encodeLayout, getShareUrl } from "@/lib/layoutLink";
+import { BUILT_IN_TEMPLATES } from "@/lib/layoutTemplates";
+import { defaultFacilityLayout } from "@/stores/facilityStore";
+
+describe("layoutLink", () => {
+  it("round-trips a layout through a URL-safe string", () => {
+    const layout = {
+      ...defaultFacilityLayout,
+      config: { mode: "even" as const, rows: 2, cols: 4, rowRotations: [0, 90] as (0 | 90)[] },
+      surfaceType: "hardwood" as const,
+      spacing: 1.5,
+      showNet: false,
+      courtOverrides: { "court-0-0": { name: "Centre Court ✓" } },
+    };
+    const encoded = encodeLayout(layout);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeLayout(encoded)).toMatchObject({
+      config: layout.config,
+      surfaceType: "hardwood",
+      spacing: 1.5,
+      showNet: false,
+      courtOverrides: layout.courtOverrides,
+    });
+  });
+
+  it("leaves empty values out of the link", () => {
+    const decoded = decodeLayout(encodeLayout(defaultFacilityLayout));
+    expect(decoded).not.toHaveProperty("amenities");
+    expect(decoded).not.toHaveProperty("building");
+    expect(decoded).not.toHaveProperty("schedulingSettings");
+  });
+
+  it("rejects malformed links", () => {
+    expect(decodeLayout("not a layout")).toBeNull();
+    expect(decodeLayout(btoa(JSON.stringify({ v: 99, config: { mode: "even" } })))).toBeNull();
+    expect(decodeLayout(btoa(JSON.stringify({ v: 1, config: { mode: "spiral" } })))).toBeNull();
+  });
+
+  it("rejects links with a known mode but a malformed layout", () => {
+    const link = (payload: Record<string, unknown>) => btoa(JSON.stringify({ v: 1, ...payload }));
+    const grid = { mode: "even", rows: 2, cols: 2 };
+    [
+      { config: { mode: "even" } },
+      { config: { mode: "even", rows: "2", cols: 2 } },
+      { config: { mode: "uneven", rows: 2, maxCols: 3 } },
+      { config: { mode: "freeform" } },
+      { config: { mode: "freeform", courts: [{ id: "court-0-0", row: 0, col: 0, x: 1 }] } },
+      { config: grid, amenities: { id: "amenity-1" } },
+      { config: grid, lightFixtures: "none" },
+      { config: grid, surfaceType: "lava" },
+      { config: grid, spacing: "wide" },
+      { config: grid, building: { footprint: [] } },
+    ].forEach((payload) => expect(decodeLayout(link(payload))).toBeNull());
+
+    expect(decodeLayout(link({ config: grid, spacing: 2 }))).toEqual({ config: grid, spacing: 2 });
+  });
+
+  it("accepts real layouts, including buildings and amenities", () => {
+    BUILT_IN_TEMPLATES.forEach(({ layout }) => {
+      expect(decodeLayout(encodeLayout({ ...defaultFacilityLayout, ...layout }))).not.toBeNull();
+    });
+  });
+
+  it("links to the read-only viewer route", () => {
+    expect(getShareUrl(defaultFacilityLayout, "https://example.com")).toMatch(/^https:\/\/example\.com\/view\/[A-Za-z0-9_-]+$/);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { optimizeLayouts } from "@/lib/layoutOptimizer";
+import { findLayoutConflicts, getCourtPlacements } from "@/lib/courtLayout";
+import { findBuildingIssues } from "@/lib/building";
+import { BuildingEnvelope, COURT_WIDTH, COURT_LENGTH } from "@/types/facility";
+
+const baseOptions = {
+  building: null,
+  minSpacing: 1,
+  maxSpacing: 3,
+  spacingStep: 0.5,
+  clearance: 1,
+};
+
+describe("layoutOptimizer", () => {
+  it("ranks the layout with the most courts first and returns grid configs when possible", () => {
+    // Room for exactly 3 x 2 standard courts at 1m spacing plus 1m clearance
+    const width = 3 * COURT_WIDTH + 2 + 2;
+    const length = 2 * COURT_LENGTH + 1 + 2;
+    const [best] = optimizeLayouts({ ...baseOptions, width, length });
+    expect(best.courtCount).toBe(6);
+    expect(best.config).toEqual({ mode: "even", rows: 2, cols: 3 });
+    expect(getCourtPlacements(best.config, best.spacing)).toHaveLength(6);
+  });
+
+  it("uses rotated courts when they fit better", () => {
+    // Wide and shallow: standard courts do not fit the depth at all
+    const width = 3 * COURT_LENGTH + 2 + 2;
+    const length = COURT_WIDTH + 2;
+    const [best] = optimizeLayouts({ ...baseOptions, width, length });
+    expect(best.courtCount).toBe(3);
+    expect(best.config.mode).toBe("freeform");
+    expect(best.placements.every((p) => p.rotation === 90)).toBe(true);
+  });
+
+  it("keeps courts inside the building and clear of columns", () => {
+    const building: BuildingEnvelope = {
+      footprint: [
+        { x: 0, z: 0 },
+        { x: 30, z: 0 },
+        { x: 30, z: 32 },
+        { x: 0, z: 32 },
+      ],
+      wallHeight: 6,
+      wallThickness: 0.3,
+      columns: [{ id: "column-a", x: 15, z: 16, size: 0.6 }],
+      walls: [],
+      doors: [],
+    };
+    const results = optimizeLayouts({ ...baseOptions, width: 0, length: 0, building });
+    expect(results.length).toBeGreaterThan(0);
+    results.forEach((candidate) => {
+      expect(findBuildingIssues(candidate.placements, building)).toEqual([]);
+      expect(findLayoutConflicts(candidate.placements, candidate.spacing)).toEqual([]);
+    });
+  });
+});
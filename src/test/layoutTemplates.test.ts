@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { BUILT_IN_TEMPLATES, createTemplate, parseTemplatesJson, renderTemplatesJson } from "@/lib/layoutTemplates";
+import { findLayoutConflicts, getCourtPlacements } from "@/lib/courtLayout";
+import { findBuildingIssues } from "@/lib/building";
+import { DEFAULT_RUN_OFF, findAmenityIssues } from "@/lib/amenities";
+import { defaultFacilityLayout } from "@/stores/facilityStore";
+
+const placementsOf = (id: string) => {
+  const layout = { ...defaultFacilityLayout, ...BUILT_IN_TEMPLATES.find((t) => t.id === id)!.layout };
+  return { layout, placements: getCourtPlacements(layout.config, layout.spacing) };
+};
+
+describe("layoutTemplates", () => {
+  it("ships built-in templates without layout, building or amenity issues", () => {
+    BUILT_IN_TEMPLATES.forEach(({ id }) => {
+      const { layout, placements } = placementsOf(id);
+      expect(findLayoutConflicts(placements, layout.spacing)).toEqual([]);
+      expect(findBuildingIssues(placements, layout.building, layout.courtOverrides)).toEqual([]);
+      expect(findAmenityIssues(placements, layout.amenities, DEFAULT_RUN_OFF)).toEqual([]);
+    });
+  });
+
+  it("matches the court counts in the template names", () => {
+    expect(placementsOf("builtin-tennis-conversion").placements).toHaveLength(4);
+    expect(placementsOf("builtin-warehouse-12").placements).toHaveLength(12);
+    expect(placementsOf("builtin-tournament-16").placements).toHaveLength(16);
+  });
+
+  it("round-trips user templates through the JSON export with fresh IDs", () => {
+    const template = createTemplate("Club", "Two rows", { ...defaultFacilityLayout, spacing: 2 });
+    expect(template.layout).not.toHaveProperty("schedulingSettings");
+
+    const [imported] = parseTemplatesJson(renderTemplatesJson([template]))!;
+    expect(imported.id).not.toBe(template.id);
+    expect(imported).toMatchObject({ name: "Club", description: "Two rows", layout: template.layout });
+  });
+
+  it("rejects files that are not template exports and skips invalid entries", () => {
+    expect(parseTemplatesJson("{")).toBeNull();
+    expect(parseTemplatesJson(JSON.stringify({ version: 1 }))).toBeNull();
+    const templates = parseTemplatesJson(JSON.stringify({
+      version: 1,
+      templates: [{ name: "Broken", layout: { config: { mode: "spiral" } } }, { layout: {} }],
+    }));
+    expect(templates).toEqual([]);
+  });
+
+  it("skips templates with a known mode but a corrupt layout", () => {
+    const valid = createTemplate("Club", "", { ...defaultFacilityLayout, config: { mode: "even", rows: 1, cols: 2 } });
+    const templates = parseTemplatesJson(JSON.stringify({
+      version: 1,
+      templates: [
+        { name: "No rows", layout: { config: { mode: "even" } } },
+        { name: "No courts", layout: { config: { mode: "freeform" } } },
+        { name: "Bad amenities", layout: { config: { mode: "even", rows: 1, cols: 1 }, amenities: "bench" } },
+        valid,
+      ],
+    }));
+    expect(templates?.map((t) => t.name)).toEqual(["Club"]);
+  });
+});
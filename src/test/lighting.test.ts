@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeCourtIlluminance,
+  createCourtFixtures,
+  getFixtureIntensity,
+  getIlluminanceAt,
+  renderLightingCsv,
+  computeLightingReport,
+} from "@/lib/lighting";
+import { createCourtNamer } from "@/lib/courtNaming";
+import { COURT_WIDTH, COURT_LENGTH, LightFixture } from "@/types/facility";
+
+const fixture: LightFixture = { id: "fixture-1", x: 0, z: 0, height: 8, lumens: 40000, beamAngle: 120 };
+const court = { id: "court-0-0", row: 0, col: 0, x: 0, z: 0, rotation: 0 as const };
+
+describe("lighting", () => {
+  it("spreads flux evenly over the beam cone", () => {
+    // 120° beam = π steradians
+    expect(getFixtureIntensity(fixture)).toBeCloseTo(40000 / Math.PI);
+    expect(getIlluminanceAt({ x: 0, z: 0 }, [fixture])).toBeCloseTo(40000 / Math.PI / 64);
+  });
+
+  it("applies the inverse-square cosine law and the beam cutoff", () => {
+    // 6 m off-axis at 8 m: distance 10 m, cos 0.8
+    expect(getIlluminanceAt({ x: 6, z: 0 }, [fixture])).toBeCloseTo((40000 / Math.PI) * 0.8 / 100);
+    // 20 m off-axis is outside the 60° half angle
+    expect(getIlluminanceAt({ x: 20, z: 0 }, [fixture])).toBe(0);
+  });
+
+  it("reports min, average and uniformity over the playing surface", () => {
+    const result = computeCourtIlluminance(court, createCourtFixtures([], [court]));
+    expect(result.values).toHaveLength(result.cols * result.rows);
+    expect(result.cols).toBe(Math.ceil(COURT_WIDTH / 0.5));
+    expect(result.rows).toBe(Math.ceil(COURT_LENGTH / 0.5));
+    expect(result.min).toBeLessThanOrEqual(result.avg);
+    expect(result.avg).toBeLessThanOrEqual(result.max);
+    expect(result.uniformity).toBeCloseTo(result.min / result.avg);
+    expect(computeCourtIlluminance(court, []).uniformity).toBe(0);
+  });
+
+  it("lights rotated courts the same way", () => {
+    const rotated = { ...court, id: "court-0-1", col: 1, x: 30, rotation: 90 as const };
+    const [a, b] = computeLightingReport([court, rotated], createCourtFixtures([], [court, rotated]));
+    expect(b.avg).toBeCloseTo(a.avg);
+    expect(b.min).toBeCloseTo(a.min);
+  });
+
+  it("exports one CSV row per court", () => {
+    const report = computeLightingReport([court], [fixture]);
+    const csv = renderLightingCsv(report, createCourtNamer([court], "sequential"));
+    const lines = csv.trim().split("\n");
+    expect(lines[0]).toBe("Court,Min (lux),Avg (lux),Max (lux),Min/Avg,Min/Max");
+    expect(lines[1].startsWith("Court 1,")).toBe(true);
+  });
+});
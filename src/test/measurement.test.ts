@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  findSnapTarget,
+  getMeasurementLength,
+  getMeasurementSegments,
+  getSnapTargets,
+} from "@/lib/measurement";
+import { useMeasurementStore } from "@/stores/measurementStore";
+import { COURT_LENGTH, COURT_WIDTH, KITCHEN_DEPTH, NET_POST_OFFSET } from "@/types/facility";
+
+describe("measurement", () => {
+  it("snaps to court corners, line intersections and net posts of rotated courts", () => {
+    const targets = getSnapTargets([{ id: "court-0-0", row: 0, col: 0, x: 10, z: 5, rotation: 90 }]);
+    expect(targets.filter((t) => t.kind === "corner")).toHaveLength(4);
+    expect(targets.filter((t) => t.kind === "intersection")).toHaveLength(10);
+
+    // Sideways court: baselines run along Z, the net along Z through the center
+    const corner = findSnapTarget({ x: 10 + COURT_LENGTH / 2 - 0.1, z: 5 - COURT_WIDTH / 2 + 0.1 }, targets);
+    expect(corner?.kind).toBe("corner");
+    expect(corner?.point.x).toBeCloseTo(10 + COURT_LENGTH / 2);
+    expect(corner?.point.z).toBeCloseTo(5 - COURT_WIDTH / 2);
+
+    const post = findSnapTarget({ x: 10, z: 5 + COURT_WIDTH / 2 + NET_POST_OFFSET + 0.05 }, targets);
+    expect(post?.kind).toBe("net_post");
+
+    const kitchen = findSnapTarget({ x: 10 + KITCHEN_DEPTH, z: 5.2 }, targets);
+    expect(kitchen?.kind).toBe("intersection");
+    expect(kitchen?.point.z).toBeCloseTo(5);
+
+    expect(findSnapTarget({ x: 10 + 1, z: 5 + 1 }, targets)).toBeNull();
+  });
+
+  it("reports segment and cumulative distances", () => {
+    const points = [{ x: 0, z: 0 }, { x: 3, z: 4 }, { x: 3, z: 10 }];
+    const segments = getMeasurementSegments(points);
+    expect(segments.map((s) => s.length)).toEqual([5, 6]);
+    expect(segments.map((s) => s.cumulative)).toEqual([5, 11]);
+    expect(getMeasurementLength(points)).toBe(11);
+  });
+
+  describe("measurementStore", () => {
+    beforeEach(() => {
+      useMeasurementStore.getState().clearMeasurements();
+    });
+
+    it("collects clicks into a measurement until it is finished", () => {
+      const store = useMeasurementStore.getState();
+      store.addPoint({ x: 0, z: 0 });
+      store.addPoint({ x: 2, z: 0 });
+      store.addPoint({ x: 2, z: 0.01 }); // second click of a double-click
+      store.finishMeasurement();
+      store.addPoint({ x: 5, z: 5 });
+
+      const { measurements, activeMeasurementId } = useMeasurementStore.getState();
+      expect(measurements).toHaveLength(2);
+      expect(measurements[0].points).toEqual([{ x: 0, z: 0 }, { x: 2, z: 0 }]);
+      expect(activeMeasurementId).toBe(measurements[1].id);
+    });
+
+    it("drops a single-point measurement when measure mode is turned off", () => {
+      const store = useMeasurementStore.getState();
+      store.setMeasureMode(true);
+      store.addPoint({ x: 1, z: 1 });
+      store.setMeasureMode(false);
+
+      expect(useMeasurementStore.getState().measurements).toEqual([]);
+      expect(useMeasurementStore.getState().activeMeasurementId).toBeNull();
+    });
+  });
+});
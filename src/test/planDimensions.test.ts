@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { computePlanDimensions, getScaleBarLength } from "@/lib/planDimensions";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { createDefaultBuilding } from "@/lib/building";
+import { COURT_WIDTH, COURT_LENGTH } from "@/types/facility";
+
+describe("planDimensions", () => {
+  it("measures the overall footprint and each gap between neighbouring courts", () => {
+    const placements = getCourtPlacements({ mode: "even", rows: 2, cols: 3 }, 1.5);
+    const dimensions = computePlanDimensions(placements, null);
+
+    const footprint = dimensions.filter((d) => d.kind === "footprint").map((d) => d.length);
+    expect(footprint[0]).toBeCloseTo(3 * COURT_WIDTH + 2 * 1.5);
+    expect(footprint[1]).toBeCloseTo(2 * COURT_LENGTH + 1.5);
+
+    const separations = dimensions.filter((d) => d.kind === "separation");
+    // 2 rows × 2 gaps across, plus 3 gaps between the rows
+    expect(separations).toHaveLength(7);
+    separations.forEach((d) => expect(d.length).toBeCloseTo(1.5));
+  });
+
+  it("measures aisles to the building walls", () => {
+    const placements = getCourtPlacements({ mode: "even", rows: 1, cols: 2 }, 1);
+    const building = createDefaultBuilding(placements);
+    const aisles = computePlanDimensions(placements, building).filter((d) => d.kind === "aisle");
+    expect(aisles).toHaveLength(4);
+    aisles.forEach((d) => expect(d.length).toBeGreaterThan(0));
+  });
+
+  it("picks round scale bar lengths", () => {
+    expect(getScaleBarLength(7.3)).toBe(5);
+    expect(getScaleBarLength(3)).toBe(2);
+    expect(getScaleBarLength(1.4)).toBe(1);
+    expect(getScaleBarLength(0.3)).toBeCloseTo(0.2);
+    expect(getScaleBarLength(0)).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import * as THREE from "three";
+import { buildFacilityScene, exportFacilityGlb } from "@/lib/sceneExport";
+import { getCourtPlacements } from "@/lib/courtLayout";
+
+const placements = getCourtPlacements({ mode: "even", rows: 2, cols: 2 }, 1.5);
+
+describe("sceneExport", () => {
+  it("names court groups after their placement ids", () => {
+    const scene = buildFacilityScene({ placements, surfaceType: "hardwood", dockPosition: { x: -3, z: 0 } });
+    expect(scene.getObjectByName("court-0-0")).toBeDefined();
+    expect(scene.getObjectByName("court-1-1")).toBeDefined();
+    expect(scene.getObjectByName("ground")).toBeDefined();
+    expect(scene.getObjectByName("dock")).toBeDefined();
+
+    const court = scene.getObjectByName("court-0-1");
+    expect(court.children.map((c) => c.name)).toEqual(
+      expect.arrayContaining(["surface", "left-sideline", "front-nvz-line", "net", "left-post"])
+    );
+  });
+
+  it("applies per-court overrides and visibility toggles", () => {
+    const scene = buildFacilityScene({
+      placements,
+      surfaceType: "hardwood",
+      courtOverrides: { "court-0-0": { surfaceColor: "#ff0000", kitchenColor: "#00ff00" } },
+      showNet: false,
+    });
+    const court = scene.getObjectByName("court-0-0");
+    const surface = court.getObjectByName("surface") as THREE.Mesh;
+    expect((surface.material as THREE.MeshStandardMaterial).color.getHexString()).toBe("ff0000");
+    expect(court.getObjectByName("front-kitchen")).toBeDefined();
+    expect(court.getObjectByName("net")).toBeUndefined();
+    expect(scene.getObjectByName("dock")).toBeUndefined();
+  });
+
+  it("writes a binary glTF without a renderer", async () => {
+    const glb = await exportFacilityGlb({ placements, surfaceType: "hardwood", dockPosition: { x: -3, z: 0 } });
+    const header = new DataView(glb);
+    expect(String.fromCharCode(...new Uint8Array(glb, 0, 4))).toBe("glTF");
+    expect(header.getUint32(4, true)).toBe(2);
+    expect(header.getUint32(8, true)).toBe(glb.byteLength);
+
+    // JSON chunk follows the 12-byte header
+    const jsonLength = header.getUint32(12, true);
+    const json = JSON.parse(new TextDecoder().decode(new Uint8Array(glb, 20, jsonLength)));
+    const names = json.nodes.map((n: { name?: string }) => n.name);
+    expect(names).toContain("court-0-0");
+    expect(names).toContain("court-1-1");
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  SimulationEnvironment,
+  SimulationState,
+  getNextEventDelay,
+  runEvents,
+  runSimulation,
+  stepSimulation,
+  stepToNextEvent,
+} from "@/lib/simulationEngine";
+import { FacilityPathfinder } from "@/lib/pathfinding";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { createDefaultSimulationSnapshot } from "@/stores/simulationStore";
+import { defaultFacilityLayout } from "@/stores/facilityStore";
+import { BuildingEnvelope, CourtState } from "@/types/facility";
+
+const placements = getCourtPlacements({ mode: "even", rows: 1, cols: 2 }, 2);
+
+const environment: SimulationEnvironment = {
+  pathfinder: new FacilityPathfinder(placements, 2),
+  // Fastest cleaning the settings allow, so both courts fit in one day
+  robotSettings: { ...defaultFacilityLayout.robotSettings, cleaningSpeed: 1 },
+  operatingHours: { start: 6 * 60, end: 22 * 60 },
+  courtName: (courtId) => courtId,
+};
+
+const createState = (): SimulationState => {
+  const { robots, dockPosition } = createDefaultSimulationSnapshot();
+  return {
+    currentTime: 480,
+    courts: new Map(
+      placements.map(({ id, row, col }): [string, CourtState] => [
+        id,
+        { id, row, col, status: "AVAILABLE_CLEAN", cleanliness: 100, lastUsedAt: null, lastCleanedAt: null, activeBookingId: null },
+      ])
+    ),
+    bookings: [
+      { id: "b1", courtId: "court-0-0", startTime: 490, endTime: 550, type: "open_play", playerCount: 4, title: "Open Play" },
+      { id: "b2", courtId: "court-0-1", startTime: 600, endTime: 660, type: "lesson", playerCount: 2, title: "Lesson" },
+    ],
+    cleaningQueue: [],
+    robots,
+    robotMotion: new Map(),
+    dockPosition,
+    randomState: 42,
+  };
+};
+
+describe("simulation engine", () => {
+  it("runs a whole operating day without rendering", () => {
+    const { state, notifications } = runSimulation(createState(), 24 * 60, environment);
+
+    expect(state.currentTime).toBe(24 * 60);
+    expect(notifications).toContain("court-0-0 session started");
+    expect(notifications).toContain("court-0-1 needs cleaning");
+    expect(notifications).toContain("Robot CC1-Alpha dispatched to court-0-1");
+
+    // Both courts were played on, then cleaned by the robot
+    state.courts.forEach((court) => {
+      expect(court.status).toBe("AVAILABLE_CLEAN");
+      expect(court.cleanliness).toBe(100);
+      expect(court.lastCleanedAt).toBeGreaterThan(court.lastUsedAt ?? Infinity);
+    });
+    expect(state.cleaningQueue).toEqual([]);
+    expect(state.robots[0].status).not.toBe("cleaning");
+  });
+
+  it("refuses jobs it has no route to instead of driving through walls", () => {
+    // Courts sealed inside a building, with the dock outside
+    const building: BuildingEnvelope = {
+      footprint: [{ x: -1, z: -1 }, { x: 16, z: -1 }, { x: 16, z: 15 }, { x: -1, z: 15 }],
+      wallHeight: 6,
+      wallThickness: 0.3,
+      columns: [],
+      walls: [],
+      doors: [],
+    };
+    const sealed = { ...environment, pathfinder: new FacilityPathfinder(placements, 2, building) };
+    const { state, notifications } = runSimulation(createState(), 560, sealed);
+    expect(notifications).toContain("Robot CC1-Alpha cannot reach court-0-0, cleaning skipped");
+    expect(state.robots[0].status).toBe("idle");
+    expect(state.cleaningQueue).toEqual([]);
+    expect(state.courts.get("court-0-0")?.status).toBe("NEEDS_CLEANING");
+
+    const withDoor = {
+      ...environment,
+      pathfinder: new FacilityPathfinder(placements, 2, {
+        ...building,
+        doors: [{ id: "door-a", wallId: "perimeter-0", offset: 4, width: 1.5 }],
+      }),
+    };
+    expect(runSimulation(createState(), 560, withDoor).notifications).toContain("Robot CC1-Alpha dispatched to court-0-0");
+  });
+
+  it("waits with the robot until the session on a court has ended", () => {
+    const { state } = runSimulation(createState(), 549, environment);
+    expect(state.courts.get("court-0-0")?.status).toBe("IN_USE");
+    expect(state.robots[0].status).toBe("idle");
+
+    const ended = stepSimulation(state, 1, environment);
+    expect(ended.state.courts.get("court-0-0")?.status).toBe("NEEDS_CLEANING");
+    expect(ended.state.robots[0].status).toBe("navigating");
+    expect(ended.state.cleaningQueue[0].assignedRobotId).toBe("robot-1");
+    // The input state is left as it was
+    expect(state.courts.get("court-0-0")?.status).toBe("IN_USE");
+    expect(state.cleaningQueue).toEqual([]);
+  });
+
+  it("replays identically from the same random state", () => {
+    const a = runSimulation(createState(), 560, environment).state;
+    const b = runSimulation(createState(), 560, environment).state;
+    expect(a.courts.get("court-0-0")?.cleanliness).toBe(b.courts.get("court-0-0")?.cleanliness);
+    expect(a.robots).toEqual(b.robots);
+    expect(a.randomState).toBe(b.randomState);
+  });
+
+  describe("event-driven mode", () => {
+    it("jumps the clock to the next booking event", () => {
+      const state = createState();
+      expect(getNextEventDelay(state, environment)).toBe(10);
+
+      const { state: started, notifications } = stepToNextEvent(state, environment);
+      expect(started.currentTime).toBeCloseTo(490);
+      expect(notifications).toEqual(["court-0-0 session started"]);
+
+      // Nothing left to happen on its own
+      const quiet = { ...createState(), bookings: [] };
+      expect(getNextEventDelay(quiet, environment)).toBeNull();
+      expect(stepToNextEvent(quiet, environment, 600).state.currentTime).toBe(600);
+    });
+
+    it("matches the fixed-step run of a whole day", () => {
+      const fixed = runSimulation(createState(), 24 * 60, environment, 0.1).state;
+      const events = runEvents(createState(), 24 * 60, environment).state;
+
+      expect(events.currentTime).toBe(24 * 60);
+      expect(events.cleaningQueue).toEqual(fixed.cleaningQueue);
+      expect(events.robots[0].status).toBe(fixed.robots[0].status);
+      expect(events.robots[0].battery).toBeCloseTo(fixed.robots[0].battery, 0);
+      events.courts.forEach((court, id) => {
+        const expected = fixed.courts.get(id);
+        expect(court.status).toBe(expected?.status);
+        expect(court.lastUsedAt).toBeCloseTo(expected?.lastUsedAt ?? NaN);
+        // Fixed steps notice each robot transition up to one step late
+        expect(Math.abs((court.lastCleanedAt ?? NaN) - (expected?.lastCleanedAt ?? NaN))).toBeLessThan(1);
+      });
+    });
+  });
+});
+
+describe("simulation calendar", () => {
+  it("enforces operating hours on every day", () => {
+    const state = createState();
+    state.bookings = [
+      // Day 1 evening session running past closing time
+      { id: "late", courtId: "court-0-0", startTime: 1440 + 21 * 60 + 30, endTime: 1440 + 23 * 60, type: "reservation", playerCount: 2, title: "Reservation" },
+      // Overnight booking while the facility is closed
+      { id: "night", courtId: "court-0-1", startTime: 2 * 1440 + 60, endTime: 2 * 1440 + 120, type: "lesson", playerCount: 2, title: "Lesson" },
+    ];
+
+    const { state: end, notifications } = runEvents(state, 3 * 1440, environment);
+    expect(end.courts.get("court-0-0")?.lastUsedAt).toBeCloseTo(1440 + 22 * 60);
+    expect(notifications).toContain("court-0-1 booking skipped, facility closed");
+    expect(end.courts.get("court-0-1")?.lastUsedAt).toBeNull();
+  });
+});
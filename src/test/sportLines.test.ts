@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { SPORT_LINE_SEGMENTS, getSportLineLength } from "@/lib/sportLines";
+import { computeBillOfMaterials } from "@/lib/billOfMaterials";
+import { createFloorPlan } from "@/lib/floorPlan";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { SPORT_OVERLAYS } from "@/types/facility";
+
+const placements = getCourtPlacements({ mode: "even", rows: 1, cols: 2 }, 1.5);
+
+describe("sportLines", () => {
+  it("keeps every line inside the sport's regulation court", () => {
+    (Object.keys(SPORT_LINE_SEGMENTS) as (keyof typeof SPORT_LINE_SEGMENTS)[]).forEach((sport) => {
+      const { width, length } = SPORT_OVERLAYS[sport];
+      SPORT_LINE_SEGMENTS[sport].forEach(({ start, end }) => {
+        [start, end].forEach((p) => {
+          expect(Math.abs(p.x)).toBeLessThanOrEqual(width / 2 + 1e-9);
+          expect(Math.abs(p.z)).toBeLessThanOrEqual(length / 2 + 1e-9);
+        });
+      });
+    });
+  });
+
+  it("measures painted length from the regulation layout", () => {
+    // Volleyball: 2 x 18 m sidelines, 2 end lines, center line and 2 attack lines across 9 m
+    expect(getSportLineLength("volleyball")).toBeCloseTo(2 * 18 + 5 * 9);
+    // Tennis: doubles and singles sidelines, baselines, service lines, center service line and marks
+    expect(getSportLineLength("tennis")).toBeCloseTo(4 * 23.77 + 2 * 10.97 + 2 * 8.23 + (12.8 - 0.05) + 0.2);
+  });
+
+  it("adds overlay paint to the bill of materials, honouring per-court overrides", () => {
+    const bom = computeBillOfMaterials(placements, "hardwood", { "court-0-1": { lineOverlays: [] } }, 1.5, ["badminton"]);
+    const badminton = bom.lines.find((l) => l.lineType === "badminton");
+    expect(badminton.length).toBeCloseTo(getSportLineLength("badminton") / 0.3048);
+    expect(bom.lines.some((l) => l.lineType === "tennis")).toBe(false);
+  });
+
+  it("draws overlays on their own floor plan layer", () => {
+    const plan = createFloorPlan({
+      placements,
+      building: null,
+      dockPosition: null,
+      courtOverrides: { "court-0-0": { lineOverlays: ["tennis"] } },
+    });
+    const tennis = plan.entities.filter((e) => e.layer === "TENNIS");
+    expect(tennis.length).toBe(SPORT_LINE_SEGMENTS.tennis.length);
+    expect(plan.bounds.maxZ - plan.bounds.minZ).toBeGreaterThanOrEqual(23.77 - 1e-6);
+  });
+});
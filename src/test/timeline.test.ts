@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { findSnapshot, getBookingDensity, TimelineSnapshot } from "@/lib/timeline";
+import { SimulationEnvironment } from "@/lib/simulationEngine";
+import { FacilityPathfinder } from "@/lib/pathfinding";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { useSimulationStore, createDefaultSimulationSnapshot } from "@/stores/simulationStore";
+import { defaultFacilityLayout } from "@/stores/facilityStore";
+import { useGameStore } from "@/stores/gameStore";
+import { Booking } from "@/types/facility";
+
+const placements = getCourtPlacements({ mode: "even", rows: 1, cols: 2 }, 2);
+
+const environment: SimulationEnvironment = {
+  pathfinder: new FacilityPathfinder(placements, 2),
+  robotSettings: defaultFacilityLayout.robotSettings,
+  operatingHours: { start: 8 * 60, end: 22 * 60 },
+  courtName: (courtId) => courtId,
+};
+
+const booking = (courtId: string, startTime: number, endTime: number): Booking => ({
+  id: `${courtId}-${startTime}`,
+  courtId,
+  startTime,
+  endTime,
+  type: "open_play",
+  playerCount: 4,
+  title: "Open Play",
+});
+
+describe("timeline", () => {
+  it("measures booking density per bucket", () => {
+    const bookings = [booking("court-0-0", 480, 540), booking("court-0-1", 510, 540)];
+    expect(getBookingDensity(bookings, 480, 570, 2)).toEqual([0.5, 1, 0]);
+  });
+
+  it("finds the latest snapshot at or before a time", () => {
+    const snapshots = [480, 495, 510].map((currentTime) => ({ state: { currentTime } }) as TimelineSnapshot);
+    expect(findSnapshot(snapshots, 500)?.state.currentTime).toBe(495);
+    expect(findSnapshot(snapshots, 510)?.state.currentTime).toBe(510);
+    expect(findSnapshot(snapshots, 470)).toBeUndefined();
+  });
+
+  describe("seeking", () => {
+    beforeEach(() => {
+      const store = useSimulationStore.getState();
+      store.loadSnapshot(createDefaultSimulationSnapshot());
+      store.initializeCourts(placements);
+      store.setSeed(7);
+      store.generateSchedule({
+        courtIds: placements.map((p) => p.id),
+        day: 0,
+        startTime: 480,
+        endTime: 1320,
+        sessionDuration: 60,
+        bufferTime: 10,
+        demandLevel: "peak",
+      });
+    });
+
+    it("re-simulates forward from a snapshot to the same state", () => {
+      const store = useSimulationStore.getState();
+      store.runUntil(700, environment);
+      const at700 = useSimulationStore.getState();
+
+      store.runUntil(1000, environment);
+      expect(useSimulationStore.getState().timeline.length).toBeGreaterThan(30);
+
+      useSimulationStore.getState().seek(700, environment);
+      const rewound = useSimulationStore.getState();
+      expect(rewound.currentTime).toBe(700);
+      expect(rewound.courts).toEqual(at700.courts);
+      expect(rewound.cleaningQueue).toEqual(at700.cleaningQueue);
+      expect(rewound.robots).toEqual(at700.robots);
+      expect(rewound.randomState).toBe(at700.randomState);
+    });
+
+    it("seeks forward by simulating and stops at the earliest snapshot going back", () => {
+      useSimulationStore.getState().seek(600, environment);
+      expect(useSimulationStore.getState().currentTime).toBe(600);
+
+      useSimulationStore.getState().seek(300, environment);
+      expect(useSimulationStore.getState().currentTime).toBe(480);
+      expect(useSimulationStore.getState().notifications[0].message).toMatch(/^Can't rewind past /);
+    });
+
+    it("restarts games in progress from their seed", () => {
+      const court = { x: 0, z: 0, rotation: 0 as const };
+      useGameStore.getState().initializeGame("court-0-0", court, 5);
+      const initial = useGameStore.getState().getGame("court-0-0");
+      useGameStore.getState().updateGame("court-0-0", 0.05);
+      useSimulationStore.getState().runUntil(700, environment);
+
+      useSimulationStore.getState().seek(650, environment);
+      const restarted = useGameStore.getState().getGame("court-0-0");
+      expect(restarted?.randomState).toBe(5);
+      expect(restarted?.teamAScore).toBe(0);
+      expect(restarted?.ballState).toEqual(initial?.ballState);
+      useGameStore.getState().endGame("court-0-0");
+    });
+  });
+});
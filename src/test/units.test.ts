@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDualLength,
+  formatLength,
+  formatPosition,
+  formatSize,
+  formatSpeed,
+  fromDisplay,
+  toDisplay,
+  toInputValue,
+} from "@/lib/units";
+import { evaluateCompliance } from "@/lib/compliance";
+import { createFloorPlan } from "@/lib/floorPlan";
+import { getCourtPlacements } from "@/lib/courtLayout";
+import { COMPLIANCE_RULE_SETS } from "@/types/compliance";
+import { COURT_LENGTH, COURT_WIDTH } from "@/types/facility";
+
+describe("units", () => {
+  it("formats lengths, speeds and positions in either system", () => {
+    expect(formatLength(COURT_LENGTH, "metric")).toBe("13.41 m");
+    expect(formatLength(COURT_LENGTH, "imperial")).toBe("44.00 ft");
+    expect(formatLength(1.5, "imperial", 1)).toBe("4.9 ft");
+    expect(formatSpeed(0.8, "imperial")).toBe("2.62 ft/s");
+    expect(formatPosition({ x: COURT_WIDTH, z: 0 }, "imperial")).toBe("20.0, 0.0 ft");
+    expect(formatSize(COURT_WIDTH, COURT_LENGTH, "imperial")).toBe("20.0 × 44.0 ft");
+    expect(formatDualLength(COURT_LENGTH, "metric")).toBe("13.41 m (44.0 ft)");
+    expect(formatDualLength(COURT_LENGTH, "imperial")).toBe("44.00 ft (13.4 m)");
+  });
+
+  it("round-trips input values through the display unit", () => {
+    expect(toDisplay(fromDisplay(12, "length", "imperial"), "length", "imperial")).toBeCloseTo(12);
+    expect(toDisplay(1, "area", "imperial")).toBeCloseTo(10.7639);
+    expect(toInputValue(COURT_WIDTH, "length", "imperial")).toBe(20);
+  });
+
+  it("localizes compliance messages and floor plan dimensions", () => {
+    const placements = getCourtPlacements({ mode: "even", rows: 1, cols: 2 }, 0.5);
+    const [violation] = evaluateCompliance(placements, null, COMPLIANCE_RULE_SETS.recreational, undefined, "imperial")
+      .filter((v) => v.message.includes("apart"));
+    expect(violation.message).toContain("1.64 ft apart");
+
+    const plan = createFloorPlan({ placements, building: null, dockPosition: null, units: "imperial" });
+    const labels = plan.entities.flatMap((e) => (e.type === "text" ? [e.text] : []));
+    expect(labels).toContain("1.64 ft");
+  });
+});
@@ -0,0 +1,89 @@
+// Layout compliance rule sets - run-off and clearance recommendations
+import { FT_TO_M } from './facility';
+
+// Court plus run-off must fit in a totalWidth x totalLength rectangle free of obstacles.
+// Neighbouring courts may share run-off; only their playing surfaces count as obstacles.
+export interface PlayingAreaRule {
+  id: string;
+  kind: 'playing_area';
+  label: string;
+  totalWidth: number;  // meters
+  totalLength: number; // meters
+}
+
+// Minimum gap between facing court edges (sideline-to-sideline, baseline-to-baseline)
+export interface CourtSeparationRule {
+  id: string;
+  kind: 'court_separation';
+  label: string;
+  side: number; // meters, applies when a sideline faces the neighbour
+  end: number;  // meters, applies when a baseline faces the neighbour
+}
+
+// Minimum distance from any court edge to walls, columns and the building envelope
+export interface WallClearanceRule {
+  id: string;
+  kind: 'wall_clearance';
+  label: string;
+  distance: number; // meters
+}
+
+export type ComplianceRule = PlayingAreaRule | CourtSeparationRule | WallClearanceRule;
+
+export interface ComplianceRuleSet {
+  id: string;
+  name: string;
+  description: string;
+  rules: ComplianceRule[];
+}
+
+export const COMPLIANCE_RULE_SETS: Record<string, ComplianceRuleSet> = {
+  recreational: {
+    id: 'recreational',
+    name: 'Recreational',
+    description: '30 × 60 ft playing area per court, shared run-off allowed',
+    rules: [
+      {
+        id: 'rec-area',
+        kind: 'playing_area',
+        label: '30 × 60 ft playing area',
+        totalWidth: 30 * FT_TO_M,
+        totalLength: 60 * FT_TO_M,
+      },
+      {
+        id: 'rec-separation',
+        kind: 'court_separation',
+        label: 'Court separation (4 ft side / 8 ft end)',
+        side: 4 * FT_TO_M,
+        end: 8 * FT_TO_M,
+      },
+    ],
+  },
+  tournament: {
+    id: 'tournament',
+    name: 'Tournament',
+    description: '34 × 64 ft playing area per court, no shared run-off, 10 ft wall clearance',
+    rules: [
+      {
+        id: 'tour-area',
+        kind: 'playing_area',
+        label: '34 × 64 ft playing area',
+        totalWidth: 34 * FT_TO_M,
+        totalLength: 64 * FT_TO_M,
+      },
+      {
+        id: 'tour-separation',
+        kind: 'court_separation',
+        label: 'Court separation (14 ft side / 20 ft end)',
+        side: 14 * FT_TO_M,
+        end: 20 * FT_TO_M,
+      },
+      {
+        id: 'tour-wall',
+        kind: 'wall_clearance',
+        label: '10 ft clearance to walls and columns',
+        distance: 10 * FT_TO_M,
+      },
+    ],
+  },
+};
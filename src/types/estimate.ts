@@ -0,0 +1,25 @@
+// Price sheet for the bill of materials / cost estimate (USD, imperial units)
+import { SurfaceType } from './facility';
+
+export interface PriceSheet {
+  surface: Record<SurfaceType, number>; // per square foot, installed
+  linePaint: number; // per linear foot of 2" line
+  net: number;       // per net
+  post: number;      // per net post
+  fencing: number;   // per linear foot of perimeter fence
+  divider: number;   // per linear foot of court divider netting
+}
+
+export const DEFAULT_PRICE_SHEET: PriceSheet = {
+  surface: {
+    hardwood: 14,
+    rubber: 9,
+    polypropylene: 6.5,
+    vinyl: 8,
+  },
+  linePaint: 1.5,
+  net: 180,
+  post: 320,
+  fencing: 38,
+  divider: 22,
+};
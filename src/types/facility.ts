@@ -1,9 +1,14 @@
 export type SurfaceType = 'hardwood' | 'rubber' | 'polypropylene' | 'vinyl';
 
+// Court rotation in degrees around the vertical axis.
+// 0 = long axis along Z (default grid orientation), 90 = long axis along X.
+export type CourtRotation = 0 | 90;
+
 export interface EvenConfig {
   mode: 'even';
   rows: number;
   cols: number;
+  rowRotations?: CourtRotation[]; // per-row orientation, rows without an entry use 0
 }
 
 export interface UnevenConfig {
@@ -11,9 +16,102 @@ export interface UnevenConfig {
   rows: number;
   maxCols: number;
   rowLengths: number[];
+  rowRotations?: CourtRotation[];
+}
+
+export interface CourtPlacement {
+  id: string;
+  row: number;
+  col: number;
+  x: number; // court center in world coordinates (meters)
+  z: number;
+  rotation: CourtRotation;
+}
+
+export interface FreeformConfig {
+  mode: 'freeform';
+  courts: CourtPlacement[];
+}
+
+export type FacilityConfig = EvenConfig | UnevenConfig | FreeformConfig;
+
+// How courts without a custom name are labelled
+export type CourtNamingScheme = 'grid' | 'sequential' | 'letter-row';
+
+export const COURT_NAMING_SCHEMES: Record<CourtNamingScheme, { name: string; example: string }> = {
+  grid: { name: 'Row-column', example: 'Court 2-3' },
+  sequential: { name: 'Sequential (snake order)', example: 'Court 7' },
+  'letter-row': { name: 'Letter row + number', example: 'Court B3' },
+};
+
+// Other sports whose lines can be painted over a pickleball court
+export type OverlaySport = 'badminton' | 'volleyball' | 'tennis';
+
+// Per-court overrides of the facility-wide defaults (unset fields inherit)
+export interface CourtOverrides {
+  name?: string;
+  surfaceType?: SurfaceType;
+  surfaceColor?: string;
+  kitchenColor?: string;
+  indoor?: boolean;
+  lineOverlays?: OverlaySport[]; // replaces the facility-wide overlays for this court
+}
+
+// Placeable amenities set around the courts
+export type AmenityType = 'bench' | 'bleachers' | 'ball-machine' | 'locker' | 'water-station';
+
+export interface Amenity {
+  id: string;
+  type: AmenityType;
+  x: number; // footprint center in world coordinates (meters)
+  z: number;
+  rotation: CourtRotation; // 0 = catalog width along X, 90 = width along Z
+}
+
+// Overhead light fixture, aimed straight down
+export interface LightFixture {
+  id: string;
+  x: number; // world position (meters)
+  z: number;
+  height: number;    // mounting height above the floor (meters)
+  lumens: number;    // luminous flux
+  beamAngle: number; // full cone angle (degrees)
+}
+
+// Building envelope (all coordinates in world meters, Y up)
+export interface Point2D {
+  x: number;
+  z: number;
 }
 
-export type FacilityConfig = EvenConfig | UnevenConfig;
+export interface BuildingColumn {
+  id: string;
+  x: number;
+  z: number;
+  size: number; // square column side length
+}
+
+export interface BuildingWall {
+  id: string;
+  start: Point2D;
+  end: Point2D;
+}
+
+export interface BuildingDoor {
+  id: string;
+  wallId: string; // interior wall ID, or `perimeter-<edgeIndex>` for an exterior wall
+  offset: number; // distance from the wall start to the door center
+  width: number;
+}
+
+export interface BuildingEnvelope {
+  footprint: Point2D[]; // exterior wall polygon, in order
+  wallHeight: number;
+  wallThickness: number;
+  columns: BuildingColumn[];
+  walls: BuildingWall[]; // interior partition walls
+  doors: BuildingDoor[];
+}
 
 export interface FacilityState {
   config: FacilityConfig;
@@ -37,6 +135,11 @@ export const LINE_HEIGHT = 0.01;
 // Net dimensions
 export const NET_HEIGHT_SIDES = 36 * INCH_TO_M;  // 0.9144m
 export const NET_HEIGHT_CENTER = 34 * INCH_TO_M; // 0.8636m
+export const NET_POST_OFFSET = 0.05; // posts sit just outside the sidelines
+
+// Robot dock footprint
+export const DOCK_WIDTH = 1.5;
+export const DOCK_DEPTH = 1;
 
 // Surface materials configuration
 export const SURFACE_MATERIALS: Record<SurfaceType, { color: string; roughness: number; metalness: number; name: string }> = {
@@ -66,6 +169,71 @@ export const SURFACE_MATERIALS: Record<SurfaceType, { color: string; roughness:
   },
 };
 
+// Multi-sport line overlays. Each court is centered on the pickleball court,
+// long axis along Z, with regulation dimensions in meters.
+export const SPORT_OVERLAYS: Record<OverlaySport, { name: string; color: string; width: number; length: number; lineWidth: number }> = {
+  badminton: {
+    name: 'Badminton',
+    color: '#facc15',
+    width: 6.1,
+    length: 13.4,
+    lineWidth: 0.04,
+  },
+  volleyball: {
+    name: 'Volleyball',
+    color: '#f97316',
+    width: 9,
+    length: 18,
+    lineWidth: 0.05,
+  },
+  tennis: {
+    name: 'Tennis',
+    color: '#22c55e',
+    width: 10.97,
+    length: 23.77,
+    lineWidth: 0.05,
+  },
+};
+
+// Amenity catalog. Footprint is width (X) x depth (Z) at rotation 0, all in meters.
+export const AMENITY_CATALOG: Record<AmenityType, { name: string; width: number; depth: number; height: number; color: string }> = {
+  bench: {
+    name: 'Bench',
+    width: 1.8,
+    depth: 0.45,
+    height: 0.45,
+    color: '#a16207',
+  },
+  bleachers: {
+    name: 'Spectator Bleachers',
+    width: 4.5,
+    depth: 2,
+    height: 1.2,
+    color: '#94a3b8',
+  },
+  'ball-machine': {
+    name: 'Ball Machine',
+    width: 0.6,
+    depth: 0.6,
+    height: 0.9,
+    color: '#f59e0b',
+  },
+  locker: {
+    name: 'Equipment Locker',
+    width: 1.2,
+    depth: 0.5,
+    height: 1.9,
+    color: '#475569',
+  },
+  'water-station': {
+    name: 'Water Station',
+    width: 0.6,
+    depth: 0.5,
+    height: 1.1,
+    color: '#0ea5e9',
+  },
+};
+
 // Court status for simulation
 export type CourtStatus = 
   | 'AVAILABLE_CLEAN'
@@ -91,7 +259,7 @@ export type BookingType = 'open_play' | 'lesson' | 'reservation' | 'tournament';
 export interface Booking {
   id: string;
   courtId: string;
-  startTime: number; // minutes since midnight
+  startTime: number; // simulation time, minutes since midnight of day 0 (see lib/calendar)
   endTime: number;
   type: BookingType;
   playerCount: 2 | 4;
@@ -103,7 +271,7 @@ export interface CleaningJob {
   id: string;
   courtId: string;
   priority: 'normal' | 'high';
-  createdAt: number;
+  createdAt: number; // simulation time
   assignedRobotId: string | null;
 }
 
@@ -112,7 +280,8 @@ export type RobotStatus =
   | 'navigating'
   | 'cleaning'
   | 'returning'
-  | 'charging';
+  | 'charging'
+  | 'stuck'; // no route to its destination; waits to be sent home
 
 export interface Robot {
   id: string;
@@ -158,9 +327,11 @@ export function parseCourtId(id: string): { row: number; col: number } {
   return { row: parseInt(parts[1]), col: parseInt(parts[2]) };
 }
 
+// Time of day; simulation times past midnight wrap onto the next day
 export function formatTime(minutes: number): string {
-  const hours = Math.floor(minutes / 60);
-  const mins = minutes % 60;
+  const minuteOfDay = ((minutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(minuteOfDay / 60);
+  const mins = minuteOfDay % 60;
   const period = hours >= 12 ? 'PM' : 'AM';
   const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
   return `${displayHours}:${mins.toString().padStart(2, '0')} ${period}`;
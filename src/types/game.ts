@@ -1,5 +1,7 @@
  // Game simulation types for pickleball gameplay
  
+ import { CourtRotation } from './facility';
+ 
  export type ShotType = 'serve' | 'drive' | 'lob' | 'dink' | 'drop' | 'volley';
  
  export type GameStatus = 'waiting' | 'serving' | 'rally' | 'point_scored' | 'game_over';
@@ -27,8 +29,16 @@
    playerIndex: number; // 0-3 on court
  }
  
+ // Center and orientation of the court a game is played on
+ export interface CourtFrame {
+   x: number;
+   z: number;
+   rotation: CourtRotation;
+ }
+ 
  export interface GameState {
    courtId: string;
+   court: CourtFrame;
    teamAScore: number;
    teamBScore: number;
    servingTeam: Team;
@@ -41,6 +51,8 @@
    playerStates: PlayerState[];
    lastPointTime: number;
    gameStartTime: number;
+   seed: number;        // the game restarts from this when the simulation seeks
+   randomState: number; // seeded generator state, see lib/random
  }
  
  // Pre-computed shot trajectories for performance